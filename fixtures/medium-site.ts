@@ -0,0 +1,538 @@
+/**
+ * Medium Fixture Site
+ * Serves copies of the Medium DOM structures the flows in services/medium.ts depend on:
+ *   /m/signin                  "Sign in with email" -> email, Continue, password, Sign in
+ *   /new-story                 the editor for a new draft (or a redirect to sign-in) - like
+ *                              Medium, the URL only changes to /p/:id/edit once it is first saved
+ *   /p/:id/edit                the `.postArticle-content` editor with the header "Publish"
+ *                              button and the "Publish now" modal - for a published story
+ *                              the button is "Save and publish" and updates it directly
+ *   /@:user/:slug-:id          a published story with claps and responses - signed in, its
+ *                              options menu can unpublish it (back to a draft) or delete it
+ *   /:publication/:slug-:id    a story published in a publication
+ *
+ * The "Publish now" modal can pick one of FIXTURE_PUBLICATIONS to publish in; for one the
+ * fixture user cannot publish to, "Publish now" becomes "Submit to publication", which
+ * leaves the story a draft awaiting review.
+ *   /me/stats/post/:id         the author's stats (views, reads, read ratio, fans)
+ *
+ * The header "Publish" button stays disabled (js-buttonDisabledPrimary) until the draft
+ * has both a title and body text. Edits are autosaved, with the header status going from
+ * "Saving..." to "Saved". Being signed in means having the `sid` cookie (set by
+ * the sign-in form, or passed as account cookies)
+ */
+
+import express, { Request, Response } from 'express';
+import {
+  FixturePost,
+  FixtureStore,
+  createInspectionRouter,
+  escapeHtml,
+  newHexId,
+  readCookies,
+  renderPage,
+  slugify
+} from './shared';
+
+export const MEDIUM_FIXTURE_USER = 'fixture-user';
+
+interface FixturePublication {
+  id: string;
+  slug: string;
+  name: string;
+  canPublish: boolean; // Editor rights - writers without them can only submit
+}
+
+export const FIXTURE_PUBLICATIONS: FixturePublication[] = [
+  { id: 'a1b2c3d4e5f6', slug: 'fixture-weekly', name: 'Fixture Weekly', canPublish: true },
+  { id: '0f9e8d7c6b5a', slug: 'fixture-review', name: 'Fixture Review', canPublish: false },
+];
+
+const SEED_POSTS: FixturePost[] = [
+  {
+    id: '5f1c2e9a7b3d',
+    kind: 'story',
+    path: `/@${MEDIUM_FIXTURE_USER}/what-the-fixture-story-measures-5f1c2e9a7b3d`,
+    title: 'What the fixture story measures',
+    html: '<p class="graf graf--p">This story is seeded so tracking can be tried without publishing first.</p>',
+    author: MEDIUM_FIXTURE_USER,
+    metrics: { claps: 128, responses: 4, views: 1234, reads: 567, readRatio: 45.9, fans: 12 },
+    publishedAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+const STYLE = `
+  .metabar { display: flex; justify-content: space-between; align-items: center; height: 65px; padding: 0 24px; border-bottom: 1px solid #f2f2f2; }
+  .metabar-actions { display: flex; gap: 16px; align-items: center; }
+  .button--primary { border: none; border-radius: 99em; padding: 6px 12px; color: #fff; background: rgb(26, 137, 23); }
+  .button--primary.js-buttonDisabledPrimary { opacity: 0.3; }
+  .postArticle { max-width: 680px; margin: 48px auto; }
+  .postArticle-content { outline: none; }
+  .overlay { position: fixed; top: 0; left: 0; right: 0; bottom: 0; background: #fff; padding: 80px; }
+  .m-main { max-width: 680px; margin: 48px auto; }
+  .pw-actions { display: flex; gap: 24px; align-items: center; }
+  .pw-actions > div { display: flex; align-items: center; }
+  .stats { display: flex; gap: 48px; }
+`;
+
+interface Draft {
+  id: string;
+  title: string;
+  html: string;
+  live?: boolean; // Editing an already published story
+  submittedTo?: string; // Publication slug the draft awaits review in
+}
+
+function isSignedIn(req: Request): boolean {
+  return !!readCookies(req)['sid'];
+}
+
+function renderHeader(signedIn: boolean): string {
+  return `
+  <header class="metabar">
+    <a href="/">Medium</a>
+    <div class="metabar-actions">
+      ${signedIn
+        ? `<a href="/new-story">Write</a><a href="/me" data-testid="user-menu">Fixture User</a>`
+        : '<a href="/m/signin">Sign in</a>'}
+    </div>
+  </header>`;
+}
+
+function renderSignIn(withEmail: boolean, redirect: string): string {
+  const body = withEmail
+    ? `
+    <form method="post" action="/m/signin" id="signin-form">
+      <input type="hidden" name="redirect" value="${escapeHtml(redirect)}">
+      <label>Your email <input type="email" name="email"></label>
+      <label id="password-field" style="display: none">Password <input type="password" name="password"></label>
+      <button type="submit" id="signin-submit">Continue</button>
+    </form>`
+    : `
+    <a href="/m/signin?method=email&redirect=${encodeURIComponent(redirect)}">Sign in with email</a>`;
+
+  return renderPage('Sign in - Medium', `
+  ${renderHeader(false)}
+  <main class="m-main">
+    <h1>Welcome back.</h1>
+    ${body}
+  </main>`, {
+    style: STYLE,
+    // "Continue" reveals the password step, the second submit signs in
+    script: withEmail ? `
+    const form = document.getElementById('signin-form');
+    const passwordField = document.getElementById('password-field');
+    form.addEventListener('submit', (event) => {
+      if (passwordField.style.display === 'none') {
+        event.preventDefault();
+        passwordField.style.display = 'block';
+        document.getElementById('signin-submit').textContent = 'Sign in';
+      }
+    });` : undefined
+  });
+}
+
+function renderEditor(draft: Draft): string {
+  const publishLabel = draft.live ? 'Save and publish' : 'Publish';
+
+  return renderPage(draft.live ? 'Edit story - Medium' : 'New story - Medium', `
+  <header class="metabar">
+    <a href="/">Medium</a>
+    <span class="js-draftStatus">Draft</span>
+    <div class="metabar-actions">
+      <a href="/me" data-testid="user-menu">Fixture User</a>
+      <button class="button button--primary button--filled js-buttonDisabledPrimary js-buttonRequiresPostId" data-action="show-prepublish" data-testid="publish-button" aria-label="${publishLabel}">${publishLabel}</button>
+    </div>
+  </header>
+  <main class="postArticle">
+    <div class="postArticle-content js-postField" id="editor_${draft.id}" data-testid="editor" contenteditable="true">
+      <section name="s1" class="section section--body section--first section--last">
+        <div class="section-content">
+          <div class="section-inner sectionLayout--insetColumn">
+            <h3 name="t1" class="graf graf--h3 graf--leading graf--title" data-testid="editorTitleParagraph" data-scroll="native">${escapeHtml(draft.title)}</h3>
+            ${draft.html || '<p name="p1" class="graf graf--p graf-after--h3 graf--trailing" data-testid="editorParagraphText" data-scroll="native"></p>'}
+          </div>
+        </div>
+      </section>
+    </div>
+  </main>
+  <div role="dialog" class="overlay" id="prepublish" style="display: none">
+    <h2>Story Preview</h2>
+    <input type="text" placeholder="Add a topic...">
+    <div class="publication-picker">
+      <span>Publishing to: <b id="publishing-to">Fixture User</b></span>
+      <button data-testid="publicationPicker" aria-label="Choose a publication">Change</button>
+      <ul role="listbox" id="publication-list" style="display: none">
+        ${FIXTURE_PUBLICATIONS.map(publication => `<li role="option" data-testid="publicationOption" data-publication-id="${publication.id}" data-publication-slug="${publication.slug}">${escapeHtml(publication.name)}</li>`).join('')}
+      </ul>
+    </div>
+    <button class="button button--primary" data-testid="publishConfirmButton" aria-label="Publish now">Publish now</button>
+    <button aria-label="Schedule for later" id="schedule-later">Schedule for later</button>
+    <button class="button button--primary" data-testid="submitToPublicationButton" id="submit-story" style="display: none">Submit to publication</button>
+  </div>`, {
+    style: STYLE,
+    script: `
+    const draftId = ${JSON.stringify(draft.id)};
+    const live = ${draft.live ? 'true' : 'false'};
+    const editor = document.querySelector('.postArticle-content');
+    const publishButton = document.querySelector('[data-testid="publish-button"]');
+    const dialog = document.getElementById('prepublish');
+    const confirmButton = dialog.querySelector('[data-testid="publishConfirmButton"]');
+    const status = document.querySelector('.js-draftStatus');
+    const submitButton = document.getElementById('submit-story');
+    const publications = ${JSON.stringify(FIXTURE_PUBLICATIONS)};
+    let publication = null;
+    let saveTimer = null;
+    let publishing = false;
+
+    const readStory = () => {
+      const title = editor.querySelector('.graf--title');
+      const body = Array.from(editor.querySelectorAll('.section-inner > *')).filter(el => el !== title);
+      return {
+        title: title ? (title.textContent || '').trim() : '',
+        html: body.map(el => el.outerHTML).join(''),
+        text: body.map(el => (el.textContent || '').trim()).join(' ').trim()
+      };
+    };
+
+    const save = () => {
+      const story = readStory();
+      return fetch('/p/' + draftId + '/draft', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: story.title, html: story.html })
+      }).then(() => {
+        status.textContent = 'Saved';
+        if (window.location.pathname === '/new-story') {
+          history.replaceState(null, '', '/p/' + draftId + '/edit');
+        }
+      });
+    };
+
+    // Medium enables "Publish" once the draft has a title and body text, then autosaves
+    const onChange = () => {
+      const story = readStory();
+      publishButton.classList.toggle('js-buttonDisabledPrimary', !(story.title && story.text));
+      status.textContent = 'Saving...';
+      clearTimeout(saveTimer);
+      saveTimer = setTimeout(save, 500);
+    };
+    editor.addEventListener('input', onChange);
+    new MutationObserver(onChange).observe(editor, { childList: true, subtree: true, characterData: true });
+
+    const publish = async () => {
+      if (publishing) return;
+      publishing = true;
+      confirmButton.disabled = true;
+      const story = readStory();
+      const response = await fetch('/p/' + draftId + '/publish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: story.title, html: story.html, publication: publication && publication.slug })
+      });
+      const result = await response.json();
+      window.location.href = result.url;
+    };
+
+    // Picking a publication without editor rights turns "Publish now" into "Submit to publication"
+    const publicationList = document.getElementById('publication-list');
+    document.querySelector('[data-testid="publicationPicker"]').addEventListener('click', () => {
+      publicationList.style.display = publicationList.style.display === 'none' ? 'block' : 'none';
+    });
+    publicationList.querySelectorAll('[role="option"]').forEach(option => option.addEventListener('click', () => {
+      publication = publications.find(p => p.id === option.dataset.publicationId);
+      publicationList.style.display = 'none';
+      document.getElementById('publishing-to').textContent = publication.name;
+      confirmButton.style.display = publication.canPublish ? '' : 'none';
+      document.getElementById('schedule-later').style.display = publication.canPublish ? '' : 'none';
+      submitButton.style.display = publication.canPublish ? 'none' : '';
+    }));
+
+    submitButton.addEventListener('click', async () => {
+      if (publishing) return;
+      publishing = true;
+      const story = readStory();
+      await fetch('/p/' + draftId + '/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: story.title, html: story.html, publication: publication.slug })
+      });
+      dialog.style.display = 'none';
+      status.textContent = 'Submitted to ' + publication.name;
+    });
+
+    // Changes to a live story are saved straight away - only new stories get the modal
+    publishButton.addEventListener('click', () => {
+      if (publishButton.classList.contains('js-buttonDisabledPrimary')) return;
+      if (live) {
+        publish();
+      } else {
+        dialog.style.display = 'block';
+      }
+    });
+
+    confirmButton.addEventListener('click', publish);`
+  });
+}
+
+function renderStory(post: FixturePost, signedIn: boolean): string {
+  const { claps = 0, responses = 0 } = post.metrics;
+  // Every fixture story belongs to the fixture user, so signed in means being the author
+  const authorTools = signedIn ? `
+      <div><button data-testid="headerStoryOptionsButton" aria-label="More options" id="story-options">...</button></div>
+      <div role="menu" id="story-menu" style="display: none">
+        <a role="menuitem" href="/p/${post.id}/edit">Edit story</a>
+        <button role="menuitem" data-action="unpublish">Unpublish story</button>
+        <button role="menuitem" data-action="delete">Delete story</button>
+      </div>` : '';
+
+  return renderPage(`${post.title} | Medium`, `
+  ${renderHeader(signedIn)}
+  <main class="m-main">
+    <article>
+      <h1>${escapeHtml(post.title)}</h1>
+      <div class="pw-author"><a href="/@${post.author}">Fixture User</a></div>
+      <div class="pw-actions">
+        <div><button data-testid="headerClapButton" aria-label="clap"><svg width="24" height="24"></svg></button></div>
+        <p class="pw-multi-vote-count">${claps}</p>
+        <div><button data-testid="headerResponseButton" aria-label="responses"><svg width="24" height="24"></svg></button></div>
+        <p class="pw-responses-count">${responses}</p>
+        ${authorTools}
+      </div>
+      <section>${post.html}</section>
+    </article>
+  </main>
+  ${signedIn ? `
+  <div role="dialog" class="overlay" id="confirm-dialog" style="display: none">
+    <p id="confirm-text"></p>
+    <button id="cancel-remove">Cancel</button>
+    <button class="button--primary" id="confirm-remove"></button>
+  </div>` : ''}`, {
+    style: STYLE,
+    script: signedIn ? `
+    const menu = document.getElementById('story-menu');
+    const dialog = document.getElementById('confirm-dialog');
+    const confirmButton = document.getElementById('confirm-remove');
+    let mode = 'draft';
+
+    document.getElementById('story-options').addEventListener('click', () => {
+      menu.style.display = menu.style.display === 'none' ? 'block' : 'none';
+    });
+    menu.querySelectorAll('button[data-action]').forEach(item => item.addEventListener('click', () => {
+      const unpublish = item.dataset.action === 'unpublish';
+      mode = unpublish ? 'draft' : 'delete';
+      menu.style.display = 'none';
+      document.getElementById('confirm-text').textContent = unpublish
+        ? 'Unpublish this story? It will become a draft.'
+        : 'Delete this story? This cannot be undone.';
+      confirmButton.textContent = unpublish ? 'Unpublish' : 'Delete';
+      dialog.style.display = 'block';
+    }));
+    document.getElementById('cancel-remove').addEventListener('click', () => {
+      dialog.style.display = 'none';
+    });
+    confirmButton.addEventListener('click', async () => {
+      await fetch('/p/' + ${JSON.stringify(post.id)} + '/unpublish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode })
+      });
+      window.location.href = '/me';
+    });` : undefined
+  });
+}
+
+function renderStats(post: FixturePost): string {
+  const { views = 0, reads = 0, readRatio = 0, fans = 0 } = post.metrics;
+
+  // Number above label, as on Medium's stats tiles
+  return renderPage('Stats - Medium', `
+  ${renderHeader(true)}
+  <main class="m-main">
+    <h1>${escapeHtml(post.title)}</h1>
+    <div class="stats">
+      <div><h2>${views.toLocaleString('en-US')}</h2><p>Views</p></div>
+      <div><h2>${reads.toLocaleString('en-US')}</h2><p>Reads</p></div>
+      <div><h2>${readRatio}%</h2><p>Read ratio</p></div>
+      <div><h2>${fans}</h2><p>Fans</p></div>
+    </div>
+  </main>`, { style: STYLE });
+}
+
+/**
+ * Create the Medium stand-in app
+ */
+export function createMediumSite(store: FixtureStore = new FixtureStore(SEED_POSTS)): express.Express {
+  const app = express();
+  const drafts = new Map<string, Draft>();
+
+  app.use(express.json({ limit: '5mb' }));
+  app.use(express.urlencoded({ extended: false }));
+
+  app.use('/__fixtures', createInspectionRouter(store));
+
+  app.get('/', (req: Request, res: Response) => {
+    const stories = store.list()
+      .map(post => `<article><a href="${post.path}">${escapeHtml(post.title)}</a></article>`)
+      .join('\n');
+    res.send(renderPage('Medium', `${renderHeader(isSignedIn(req))}<main class="m-main">${stories}</main>`, { style: STYLE }));
+  });
+
+  app.get('/m/signin', (req: Request, res: Response) => {
+    res.send(renderSignIn(req.query.method === 'email', String(req.query.redirect || '/')));
+  });
+
+  app.post('/m/signin', (req: Request, res: Response) => {
+    if (!req.body.email || !req.body.password) {
+      return res.status(401).send(renderSignIn(true, String(req.body.redirect || '/')));
+    }
+    res.cookie('sid', newHexId(), { path: '/', httpOnly: true });
+    // Only same-site paths - never redirect off the fixture
+    const redirect = String(req.body.redirect || '/');
+    return res.redirect(redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/');
+  });
+
+  app.get('/new-story', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.redirect(`/m/signin?redirect=${encodeURIComponent('/new-story')}`);
+    }
+    const draft: Draft = { id: newHexId(), title: '', html: '' };
+    drafts.set(draft.id, draft);
+    return res.send(renderEditor(draft));
+  });
+
+  app.get('/p/:id/edit', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.redirect(`/m/signin?redirect=${encodeURIComponent(req.path)}`);
+    }
+    // Opening a published story starts an edit of it (unpublished until "Save and publish")
+    const post = store.findById(req.params.id);
+    if (!drafts.has(req.params.id) && post) {
+      drafts.set(post.id, { id: post.id, title: post.title, html: post.html, live: true });
+    }
+    const draft = drafts.get(req.params.id);
+    if (!draft) {
+      return res.status(404).send(renderPage('Not found - Medium', '<h1>404</h1>'));
+    }
+    return res.send(renderEditor(draft));
+  });
+
+  app.post('/p/:id/draft', (req: Request, res: Response) => {
+    const draft = drafts.get(req.params.id);
+    if (!draft || !isSignedIn(req)) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    draft.title = String(req.body.title || '');
+    draft.html = String(req.body.html || '');
+    return res.json({ success: true });
+  });
+
+  app.post('/p/:id/publish', (req: Request, res: Response) => {
+    const draft = drafts.get(req.params.id);
+    if (!draft || !isSignedIn(req)) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    const title = String(req.body.title || draft.title);
+    const html = String(req.body.html || draft.html);
+    const publication = req.body.publication ? FIXTURE_PUBLICATIONS.find(p => p.slug === req.body.publication) : undefined;
+    if (req.body.publication && !publication?.canPublish) {
+      return res.status(403).json({ error: 'Only editors can publish in this publication' });
+    }
+    drafts.delete(draft.id);
+
+    // Republishing keeps the story's URL and metrics
+    const existing = store.findById(draft.id);
+    if (existing) {
+      store.add({ ...existing, title, html });
+      return res.json({ url: existing.path });
+    }
+
+    const post = store.add({
+      id: draft.id,
+      kind: 'story',
+      path: `/${publication ? publication.slug : `@${MEDIUM_FIXTURE_USER}`}/${slugify(title, true)}-${draft.id}`,
+      title,
+      html,
+      author: MEDIUM_FIXTURE_USER,
+      metrics: { claps: 0, responses: 0, views: 0, reads: 0, readRatio: 0, fans: 0 },
+      publishedAt: new Date().toISOString(),
+    });
+    return res.json({ url: post.path });
+  });
+
+  // Submitting leaves the story a draft, awaiting the publication's editors
+  app.post('/p/:id/submit', (req: Request, res: Response) => {
+    const draft = drafts.get(req.params.id);
+    const publication = FIXTURE_PUBLICATIONS.find(p => p.slug === req.body.publication);
+    if (!draft || !publication || !isSignedIn(req)) {
+      return res.status(404).json({ error: 'Draft or publication not found' });
+    }
+    draft.title = String(req.body.title || draft.title);
+    draft.html = String(req.body.html || draft.html);
+    draft.submittedTo = publication.slug;
+    return res.json({ success: true });
+  });
+
+  // Unpublishing keeps the story as a draft (editable at /p/:id/edit); deleting removes it
+  app.post('/p/:id/unpublish', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const post = store.remove(req.params.id);
+    if (!post) {
+      return res.status(404).json({ error: 'Story not found' });
+    }
+    if (req.body.mode !== 'delete') {
+      drafts.set(post.id, { id: post.id, title: post.title, html: post.html });
+    }
+    return res.json({ success: true });
+  });
+
+  app.get('/p/:id', (req: Request, res: Response) => {
+    const post = store.findById(req.params.id);
+    return post ? res.redirect(post.path) : res.status(404).send(renderPage('Not found - Medium', '<h1>404</h1>'));
+  });
+
+  app.get('/me', (req: Request, res: Response) => {
+    res.redirect(`/@${MEDIUM_FIXTURE_USER}`);
+  });
+
+  app.get('/me/stats/post/:id', (req: Request, res: Response) => {
+    const post = store.findById(req.params.id);
+    if (!isSignedIn(req)) {
+      return res.redirect(`/m/signin?redirect=${encodeURIComponent(req.path)}`);
+    }
+    if (!post) {
+      return res.status(404).send(renderPage('Not found - Medium', '<h1>404</h1>'));
+    }
+    return res.send(renderStats(post));
+  });
+
+  app.get('/@:user', (req: Request, res: Response) => {
+    const stories = store.list().filter(post => post.author === req.params.user);
+    res.send(renderPage(`Fixture User - Medium`, `
+  ${renderHeader(isSignedIn(req))}
+  <main class="m-main">
+    ${stories.map(post => `<article><a href="${post.path}">${escapeHtml(post.title)}</a></article>`).join('\n')}
+  </main>`, { style: STYLE }));
+  });
+
+  app.get('/@:user/:slug', (req: Request, res: Response) => {
+    const post = store.findByPath(req.path);
+    if (!post) {
+      return res.status(404).send(renderPage('Not found - Medium', '<h1>404</h1>'));
+    }
+    return res.send(renderStory(post, isSignedIn(req)));
+  });
+
+  // Stories published in a publication live under its slug
+  app.get('/:publication/:slug', (req: Request, res: Response) => {
+    const post = store.findByPath(req.path);
+    if (!post) {
+      return res.status(404).send(renderPage('Not found - Medium', '<h1>404</h1>'));
+    }
+    return res.send(renderStory(post, isSignedIn(req)));
+  });
+
+  return app;
+}
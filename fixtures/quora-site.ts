@@ -0,0 +1,417 @@
+/**
+ * Quora Fixture Site
+ * Serves copies of the Quora DOM structures the flows in services/quora.ts depend on:
+ *   /                               homepage (signed in: "Post" button that opens the Create
+ *                                   Post modal; signed out: the login form)
+ *   /login                          login form - any email and password signs in
+ *   /profile/:user/:slug            a published post with views/upvotes/comments/shares
+ *   /:question                      question page with the answer editor
+ *   /:question/answer/:user         a published answer
+ *
+ * Publishing from the modal opens the post in a new tab, like Quora does. Signed in, posts
+ * and answers have a "More" menu whose "Edit" item opens an editor dialog to update them
+ * and whose "Delete" item removes them after a confirmation dialog.
+ * Being signed in means having the `m-b` cookie (set by the login form, or passed as
+ * account cookies)
+ */
+
+import express, { Request, Response } from 'express';
+import {
+  FixturePost,
+  FixtureStore,
+  createInspectionRouter,
+  escapeHtml,
+  newHexId,
+  readCookies,
+  renderPage,
+  slugify
+} from './shared';
+
+export const QUORA_FIXTURE_USER = 'Fixture-User';
+
+const SEED_POSTS: FixturePost[] = [
+  {
+    id: 'seed-post',
+    kind: 'post',
+    path: `/profile/${QUORA_FIXTURE_USER}/What-a-Fixture-Post-Looks-Like`,
+    title: 'What a fixture post looks like',
+    html: '<p>This post is seeded so tracking can be tried without publishing first.</p>',
+    author: QUORA_FIXTURE_USER,
+    metrics: { views: 1200, upvotes: 37, comments: 5, shares: 2 },
+    publishedAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+const STYLE = `
+  .q-header { display: flex; gap: 16px; align-items: center; padding: 12px 24px; border-bottom: 1px solid #dee0e1; }
+  .q-main { max-width: 640px; margin: 24px auto; }
+  .q-box { border: 1px solid #dee0e1; border-radius: 4px; padding: 12px; margin-bottom: 12px; }
+  .q-dialog { position: fixed; top: 60px; left: 50%; width: 600px; margin-left: -300px; background: #fff; border: 1px solid #dee0e1; border-radius: 8px; padding: 16px; }
+  .q-tabs { display: flex; gap: 24px; border-bottom: 1px solid #dee0e1; margin-bottom: 12px; }
+  .q-tab { padding: 8px 0; }
+  .q-tab[aria-selected="true"] { border-bottom: 3px solid #2e69ff; }
+  .ql-editor { min-height: 120px; outline: none; }
+  .q-submit { border: none; border-radius: 20px; padding: 8px 16px; color: #fff; background-color: rgb(190, 190, 190); }
+  .q-submit.blue { background-color: rgb(46, 105, 255); }
+  .q-actions { display: flex; gap: 16px; }
+`;
+
+function formatCount(value: number): string {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1).replace(/\.0$/, '')}K`;
+  return String(value);
+}
+
+function isSignedIn(req: Request): boolean {
+  return !!readCookies(req)['m-b'];
+}
+
+function renderHeader(): string {
+  return `
+  <header class="q-header">
+    <a href="/">Home</a>
+    <a href="/notifications">Notifications</a>
+    <div class="UserMenu" data-testid="user-menu">
+      <a href="/profile/${QUORA_FIXTURE_USER}">Fixture User</a>
+    </div>
+  </header>`;
+}
+
+function renderLogin(error?: string): string {
+  return renderPage('Quora', `
+  <main class="q-main">
+    <h1>Quora</h1>
+    <p>A place to share knowledge and better understand the world</p>
+    ${error ? `<p class="q-error">${escapeHtml(error)}</p>` : ''}
+    <form class="q-box" method="post" action="/login">
+      <label>Email <input type="email" name="email" placeholder="Your email"></label>
+      <label>Password <input type="password" name="password" placeholder="Your password"></label>
+      <button type="submit">Login</button>
+    </form>
+  </main>`, { style: STYLE });
+}
+
+function renderHomepage(store: FixtureStore): string {
+  const feed = store.list()
+    .filter(post => post.kind === 'post')
+    .map(post => `<div class="q-box"><a href="${post.path}">${escapeHtml(post.title)}</a></div>`)
+    .join('\n');
+
+  return renderPage('Quora', `
+  ${renderHeader()}
+  <main class="q-main">
+    <div class="q-box">
+      <input type="text" placeholder="What do you want to ask or share?" readonly>
+      <div class="q-actions">
+        <button aria-label="Ask">Ask</button>
+        <button aria-label="Answer">Answer</button>
+        <button aria-label="Post" id="open-post">Post</button>
+      </div>
+    </div>
+    ${feed}
+  </main>
+  <div role="dialog" class="q-dialog" id="create-dialog" style="display: none">
+    <div class="q-tabs">
+      <div role="tab" class="q-tab" aria-selected="false">Add Question</div>
+      <div role="tab" class="q-tab" aria-selected="true">Create Post</div>
+    </div>
+    <div class="ql-editor" contenteditable="true" data-placeholder="Say something..."></div>
+    <div class="q-actions">
+      <button id="cancel-post">Cancel</button>
+      <button class="q-submit" id="submit-post" disabled>Post</button>
+    </div>
+  </div>`, {
+    style: STYLE,
+    script: `
+    const dialog = document.getElementById('create-dialog');
+    const editor = dialog.querySelector('.ql-editor');
+    const submit = document.getElementById('submit-post');
+    let submitting = false;
+
+    document.getElementById('open-post').addEventListener('click', () => {
+      dialog.style.display = 'block';
+      editor.focus();
+    });
+    document.getElementById('cancel-post').addEventListener('click', () => {
+      dialog.style.display = 'none';
+    });
+
+    // The Post button turns blue once there is content
+    const updateSubmit = () => {
+      const hasContent = (editor.textContent || '').trim().length > 0;
+      submit.disabled = !hasContent || submitting;
+      submit.classList.toggle('blue', hasContent);
+      submit.classList.toggle('qu-bg--blue', hasContent);
+    };
+    editor.addEventListener('input', updateSubmit);
+    new MutationObserver(updateSubmit).observe(editor, { childList: true, subtree: true, characterData: true });
+
+    submit.addEventListener('click', async () => {
+      if (submitting || submit.disabled) return;
+      submitting = true;
+      submit.disabled = true;
+
+      // Quora shows the published post in a new tab
+      const tab = window.open('about:blank', '_blank');
+      const response = await fetch('/api/posts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ html: editor.innerHTML })
+      });
+      const result = await response.json();
+      dialog.style.display = 'none';
+      if (tab) {
+        tab.location.href = result.url;
+      } else {
+        window.open(result.url, '_blank');
+      }
+    });`
+  });
+}
+
+function renderPost(post: FixturePost, signedIn: boolean): string {
+  const { views = 0, upvotes = 0, comments = 0, shares = 0 } = post.metrics;
+  // Every fixture post belongs to the fixture user, so signed in means being the author
+  const authorTools = signedIn ? `
+  <div role="dialog" class="q-dialog" id="edit-dialog" style="display: none">
+    <div class="ql-editor" contenteditable="true">${post.html}</div>
+    <div class="q-actions">
+      <button id="cancel-edit">Cancel</button>
+      <button class="q-submit blue" id="update-post">Update</button>
+    </div>
+  </div>
+  <div role="dialog" class="q-dialog" id="delete-dialog" style="display: none">
+    <p>Are you sure you want to delete this ${post.kind}?</p>
+    <div class="q-actions">
+      <button id="cancel-delete">Cancel</button>
+      <button class="q-submit blue" id="confirm-delete">Delete</button>
+    </div>
+  </div>` : '';
+
+  return renderPage(`${post.title} - Quora`, `
+  ${renderHeader()}
+  <main class="q-main">
+    <div class="q-box">
+      <div class="q-author"><a href="/profile/${post.author}">${escapeHtml(post.author.replace(/-/g, ' '))}</a></div>
+      <div class="q-meta">${formatCount(views)} views</div>
+      ${post.kind === 'answer' ? `<h1>${escapeHtml(post.title)}</h1>` : ''}
+      <div class="q-content">${post.html}</div>
+      <div class="q-meta">View ${formatCount(upvotes)} upvotes</div>
+      <div class="q-actions">
+        <button aria-label="Upvote">Upvote · ${formatCount(upvotes)}</button>
+        <button aria-label="Comment"><svg class="comment-icon" width="16" height="16"></svg><span>${comments}</span></button>
+        <button aria-label="Share"><svg class="share-icon" width="16" height="16"></svg><span>${shares}</span></button>
+        ${signedIn ? '<button aria-label="More" id="more">...</button>' : ''}
+      </div>
+      ${signedIn ? `
+      <div role="menu" id="more-menu" style="display: none">
+        <button role="menuitem" id="edit-item">Edit ${post.kind}</button>
+        <button role="menuitem" id="delete-item">Delete ${post.kind}</button>
+      </div>` : ''}
+    </div>
+  </main>
+  ${authorTools}`, {
+    style: STYLE,
+    script: signedIn ? `
+    const menu = document.getElementById('more-menu');
+    const dialog = document.getElementById('edit-dialog');
+    const editor = dialog.querySelector('.ql-editor');
+    let saving = false;
+
+    document.getElementById('more').addEventListener('click', () => {
+      menu.style.display = menu.style.display === 'none' ? 'block' : 'none';
+    });
+    document.getElementById('edit-item').addEventListener('click', () => {
+      menu.style.display = 'none';
+      dialog.style.display = 'block';
+      editor.focus();
+    });
+    document.getElementById('cancel-edit').addEventListener('click', () => {
+      dialog.style.display = 'none';
+    });
+
+    const deleteDialog = document.getElementById('delete-dialog');
+    document.getElementById('delete-item').addEventListener('click', () => {
+      menu.style.display = 'none';
+      deleteDialog.style.display = 'block';
+    });
+    document.getElementById('cancel-delete').addEventListener('click', () => {
+      deleteDialog.style.display = 'none';
+    });
+    document.getElementById('confirm-delete').addEventListener('click', async () => {
+      await fetch('/api/posts/' + ${JSON.stringify(post.id)} + '/delete', { method: 'POST' });
+      window.location.href = '/';
+    });
+
+    document.getElementById('update-post').addEventListener('click', async () => {
+      if (saving) return;
+      saving = true;
+      await fetch('/api/posts/' + ${JSON.stringify(post.id)}, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ html: editor.innerHTML })
+      });
+      window.location.reload();
+    });` : undefined
+  });
+}
+
+function renderQuestion(question: string): string {
+  const title = question.replace(/-/g, ' ');
+
+  return renderPage(`${title} - Quora`, `
+  ${renderHeader()}
+  <main class="q-main">
+    <h1>${escapeHtml(title)}?</h1>
+    <div class="q-box">
+      <div class="ql-editor" data-testid="answer_text_input" contenteditable="true" data-placeholder="Write your answer"></div>
+      <button data-testid="submit_answer" id="submit-answer">Post</button>
+    </div>
+  </main>`, {
+    style: STYLE,
+    script: `
+    const editor = document.querySelector('[data-testid="answer_text_input"]');
+    let submitting = false;
+    document.getElementById('submit-answer').addEventListener('click', async () => {
+      if (submitting) return;
+      submitting = true;
+      const response = await fetch('/api/answers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: ${JSON.stringify(question)}, html: editor.innerHTML })
+      });
+      const result = await response.json();
+      window.location.href = result.url;
+    });`
+  });
+}
+
+/**
+ * Title of a post: the text of its first paragraph (the flows put the title there)
+ */
+function extractTitle(html: string): string {
+  const first = html.match(/<p[^>]*>([\s\S]*?)<\/p>/i);
+  return (first ? first[1] : html).replace(/<[^>]+>/g, '').trim() || 'Untitled';
+}
+
+/**
+ * Create the Quora stand-in app
+ */
+export function createQuoraSite(store: FixtureStore = new FixtureStore(SEED_POSTS)): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+  app.use(express.urlencoded({ extended: false }));
+
+  app.use('/__fixtures', createInspectionRouter(store));
+
+  app.get('/', (req: Request, res: Response) => {
+    res.send(isSignedIn(req) ? renderHomepage(store) : renderLogin());
+  });
+
+  app.get('/login', (req: Request, res: Response) => {
+    res.send(renderLogin());
+  });
+
+  app.post('/login', (req: Request, res: Response) => {
+    if (!req.body.email || !req.body.password) {
+      return res.status(401).send(renderLogin('Incorrect email or password.'));
+    }
+    res.cookie('m-b', newHexId(), { path: '/', httpOnly: true });
+    return res.redirect('/');
+  });
+
+  app.get('/notifications', (req: Request, res: Response) => {
+    res.send(renderPage('Notifications - Quora', `${renderHeader()}<main class="q-main">No new notifications</main>`, { style: STYLE }));
+  });
+
+  app.post('/api/posts', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const html = String(req.body.html || '');
+    const title = extractTitle(html);
+    const post = store.add({
+      id: newHexId(),
+      kind: 'post',
+      path: `/profile/${QUORA_FIXTURE_USER}/${slugify(title)}-${newHexId().slice(0, 4)}`,
+      title,
+      html,
+      author: QUORA_FIXTURE_USER,
+      metrics: { views: 0, upvotes: 0, comments: 0, shares: 0 },
+      publishedAt: new Date().toISOString(),
+    });
+    return res.json({ url: post.path });
+  });
+
+  // Update a post or answer from the edit dialog - posts take their title from the new text
+  app.post('/api/posts/:id', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const post = store.findById(req.params.id);
+    if (!post) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    post.html = String(req.body.html || '');
+    if (post.kind === 'post') {
+      post.title = extractTitle(post.html);
+    }
+    return res.json({ url: post.path });
+  });
+
+  app.post('/api/posts/:id/delete', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    if (!store.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json({ success: true });
+  });
+
+  app.post('/api/answers', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    // Keep the question's own slug so the answer URL sits under the question page
+    const question = String(req.body.question || '').replace(/[^\w-]/g, '') || 'Untitled';
+    const post = store.add({
+      id: newHexId(),
+      kind: 'answer',
+      path: `/${question}/answer/${QUORA_FIXTURE_USER}`,
+      title: `${question.replace(/-/g, ' ')}?`,
+      html: String(req.body.html || ''),
+      author: QUORA_FIXTURE_USER,
+      metrics: { views: 0, upvotes: 0, comments: 0, shares: 0 },
+      publishedAt: new Date().toISOString(),
+    });
+    return res.json({ url: post.path });
+  });
+
+  app.get('/profile/:user', (req: Request, res: Response) => {
+    const posts = store.list().filter(post => post.author === req.params.user);
+    res.send(renderPage(`${req.params.user} - Quora`, `
+  ${renderHeader()}
+  <main class="q-main">
+    <h1>${escapeHtml(req.params.user.replace(/-/g, ' '))}</h1>
+    ${posts.map(post => `<div class="q-box"><a href="${post.path}">${escapeHtml(post.title)}</a></div>`).join('\n')}
+  </main>`, { style: STYLE }));
+  });
+
+  app.get(['/profile/:user/:slug', '/:question/answer/:user'], (req: Request, res: Response) => {
+    const post = store.findByPath(req.path);
+    if (!post) {
+      return res.status(404).send(renderPage('Page Not Found - Quora', '<h1>Page Not Found</h1>'));
+    }
+    return res.send(renderPost(post, isSignedIn(req)));
+  });
+
+  app.get('/:question', (req: Request, res: Response) => {
+    if (!isSignedIn(req)) {
+      return res.send(renderLogin());
+    }
+    return res.send(renderQuestion(req.params.question));
+  });
+
+  return app;
+}
@@ -0,0 +1,78 @@
+/**
+ * Offline Fixture Sites
+ * Local stand-ins for Quora and Medium so the publish and tracking flows can run end to
+ * end (e.g. in CI with headless Chrome) without touching the real sites
+ *
+ * Usage:
+ *   npm run fixtures
+ *   QUORA_BASE_URL=http://localhost:4010 MEDIUM_BASE_URL=http://localhost:4011 npm start
+ *   npm test  (tests/e2e.test.ts starts them on free ports and runs the flows headless)
+ *
+ * Ports: FIXTURE_QUORA_PORT (default 4010) and FIXTURE_MEDIUM_PORT (default 4011).
+ * Each site serves its own origin so cookies stay separate, like on the real sites.
+ * Published posts are kept in memory - GET /__fixtures/posts lists them and
+ * POST /__fixtures/reset clears them
+ */
+
+import { Server } from 'http';
+import { createQuoraSite } from './quora-site';
+import { createMediumSite } from './medium-site';
+
+export interface FixtureSites {
+  quoraUrl: string;
+  mediumUrl: string;
+  close: () => Promise<void>;
+}
+
+function listen(app: ReturnType<typeof createQuoraSite>, port: number): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, () => resolve(server));
+    server.on('error', reject);
+  });
+}
+
+function closeServer(server: Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+/**
+ * Start both fixture sites (port 0 picks a free port)
+ */
+export async function startFixtureSites(
+  options: { quoraPort?: number; mediumPort?: number } = {}
+): Promise<FixtureSites> {
+  const quora = await listen(createQuoraSite(), options.quoraPort ?? 4010);
+  const medium = await listen(createMediumSite(), options.mediumPort ?? 4011).catch(async error => {
+    await closeServer(quora);
+    throw error;
+  });
+
+  const portOf = (server: Server) => (server.address() as { port: number }).port;
+
+  return {
+    quoraUrl: `http://localhost:${portOf(quora)}`,
+    mediumUrl: `http://localhost:${portOf(medium)}`,
+    close: async () => {
+      await Promise.all([closeServer(quora), closeServer(medium)]);
+    },
+  };
+}
+
+if (require.main === module) {
+  startFixtureSites({
+    quoraPort: parseInt(process.env.FIXTURE_QUORA_PORT || '4010', 10),
+    mediumPort: parseInt(process.env.FIXTURE_MEDIUM_PORT || '4011', 10),
+  })
+    .then(sites => {
+      console.log(`🧪 Quora fixture site:  ${sites.quoraUrl}`);
+      console.log(`🧪 Medium fixture site: ${sites.mediumUrl}`);
+      console.log(`   Point the service at them: QUORA_BASE_URL=${sites.quoraUrl} MEDIUM_BASE_URL=${sites.mediumUrl}`);
+
+      process.on('SIGTERM', () => sites.close().then(() => process.exit(0)));
+      process.on('SIGINT', () => sites.close().then(() => process.exit(0)));
+    })
+    .catch(error => {
+      console.error('❌ Failed to start fixture sites:', error.message);
+      process.exit(1);
+    });
+}
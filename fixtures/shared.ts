@@ -0,0 +1,136 @@
+/**
+ * Helpers shared by the Quora and Medium fixture sites
+ */
+
+import express, { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { escapeHtml } from '../services/content-format';
+
+export { escapeHtml };
+
+/**
+ * Something published on a fixture site, with the metrics its pages show
+ */
+export interface FixturePost {
+  id: string;
+  kind: 'post' | 'answer' | 'story';
+  path: string; // e.g. '/profile/Fixture-User/My-title'
+  title: string;
+  html: string;
+  tags?: string[];
+  author: string;
+  metrics: Record<string, number>;
+  publishedAt: string;
+}
+
+/**
+ * In-memory store of published posts (one per site)
+ */
+export class FixtureStore {
+  private posts = new Map<string, FixturePost>();
+
+  constructor(private seed: FixturePost[] = []) {
+    this.reset();
+  }
+
+  add(post: FixturePost): FixturePost {
+    this.posts.set(post.path, post);
+    return post;
+  }
+
+  remove(id: string): FixturePost | undefined {
+    const post = this.findById(id);
+    if (post) {
+      this.posts.delete(post.path);
+    }
+    return post;
+  }
+
+  findByPath(path: string): FixturePost | undefined {
+    return this.posts.get(path);
+  }
+
+  findById(id: string): FixturePost | undefined {
+    return this.list().find(post => post.id === id);
+  }
+
+  list(): FixturePost[] {
+    return Array.from(this.posts.values());
+  }
+
+  reset(): void {
+    this.posts = new Map(this.seed.map(post => [post.path, { ...post }]));
+  }
+}
+
+/**
+ * Read the request's cookies (no cookie-parser dependency needed for a fixture)
+ */
+export function readCookies(req: Request): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.get('Cookie') || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Title-Case-Slug as used in Quora URLs, or lower-case-slug for Medium
+ */
+export function slugify(text: string, lowerCase: boolean = false): string {
+  const words = text.replace(/[^A-Za-z0-9\s-]/g, '').trim().split(/[\s-]+/).filter(Boolean).slice(0, 12);
+  const slug = words.map(word => (lowerCase ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1))).join('-');
+  return slug || (lowerCase ? 'untitled' : 'Untitled');
+}
+
+/**
+ * Medium-style hex ID (12 characters)
+ */
+export function newHexId(): string {
+  return randomBytes(6).toString('hex');
+}
+
+/**
+ * Wrap a page body in a complete HTML document
+ */
+export function renderPage(title: string, body: string, options: { style?: string; script?: string } = {}): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { margin: 0; font-family: -apple-system, Helvetica, Arial, sans-serif; }
+    button { cursor: pointer; }
+    ${options.style || ''}
+  </style>
+</head>
+<body>
+${body}
+${options.script ? `<script>\n${options.script}\n</script>` : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Routes for inspecting and resetting a fixture site from a test run
+ *   GET  /__fixtures/posts  - everything published so far (plus the seeded posts)
+ *   POST /__fixtures/reset  - drop published posts and restore the seed
+ */
+export function createInspectionRouter(store: FixtureStore): express.Router {
+  const router = express.Router();
+
+  router.get('/posts', (req: Request, res: Response) => {
+    res.json({ success: true, posts: store.list() });
+  });
+
+  router.post('/reset', (req: Request, res: Response) => {
+    store.reset();
+    res.json({ success: true });
+  });
+
+  return router;
+}
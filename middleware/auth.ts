@@ -0,0 +1,83 @@
+/**
+ * API Key Authentication Middleware
+ * Protects platform routes and attaches the calling client to the request
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ApiClient, consumeRateLimit, findClientByKey, isAuthDisabled, isRouteAllowed } from '../services/api-keys';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiClient?: ApiClient;
+    }
+  }
+}
+
+/**
+ * Read the key from `X-API-Key` or `Authorization: Bearer <key>`
+ */
+function getPresentedKey(req: Request): string | undefined {
+  const headerKey = req.get('X-API-Key');
+  if (headerKey) {
+    return headerKey;
+  }
+
+  const authorization = req.get('Authorization');
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Require a valid API key
+ * 
+ * Options:
+ *   checkRoutes (default true) - also require the key to allow this route path
+ */
+export function requireApiKey(options: { checkRoutes?: boolean } = {}) {
+  const { checkRoutes = true } = options;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (isAuthDisabled()) {
+      return next();
+    }
+
+    const key = getPresentedKey(req);
+    if (!key) {
+      return res.status(401).json({
+        success: false,
+        error: 'API key required (X-API-Key header or Authorization: Bearer)'
+      });
+    }
+
+    const client = findClientByKey(key);
+    if (!client) {
+      console.warn(`🔐 Rejected request with invalid API key: ${req.method} ${req.originalUrl}`);
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid API key'
+      });
+    }
+
+    const routePath = `${req.baseUrl}${req.path}`;
+    if (checkRoutes && !isRouteAllowed(client, routePath)) {
+      console.warn(`🔐 Client "${client.name}" is not allowed to call ${routePath}`);
+      return res.status(403).json({
+        success: false,
+        error: `API key is not allowed to access ${routePath}`
+      });
+    }
+
+    const rate = consumeRateLimit(client);
+    if (!rate.allowed) {
+      res.setHeader('Retry-After', String(rate.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        error: `Rate limit exceeded for API key "${client.name}". Retry in ${rate.retryAfterSeconds}s`
+      });
+    }
+
+    req.apiClient = client;
+    next();
+  };
+}
@@ -0,0 +1,154 @@
+import express, { Request, Response } from 'express';
+import {
+  ACCOUNT_PLATFORMS,
+  AccountNotFoundError,
+  AccountPlatform,
+  createAccount,
+  deleteAccount,
+  getAccount,
+  listAccounts,
+  updateAccount,
+  validateAccountInput
+} from '../services/account-vault';
+
+const router = express.Router();
+
+/**
+ * Map vault errors to responses (404 for unknown accounts, 500 otherwise)
+ */
+function sendAccountError(res: Response, error: any, context: string) {
+  if (error instanceof AccountNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`❌ ${context} error:`, error.message);
+  return res.status(500).json({
+    success: false,
+    error: error.message || 'Internal server error'
+  });
+}
+
+/**
+ * POST /accounts
+ * Store platform credentials in the encrypted vault
+ * 
+ * Body:
+ * {
+ *   platform: 'quora' | 'medium',
+ *   email: string,
+ *   label?: string,
+ *   cookies?: Array<Cookie>,
+ *   password?: string
+ * }
+ * 
+ * The response never includes cookie values or the password
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const validationError = validateAccountInput(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const { platform, email, label, cookies, password } = req.body;
+    const account = createAccount({ platform, email, label, cookies, password }, req.apiClient?.name);
+
+    return res.status(201).json({
+      success: true,
+      account
+    });
+  } catch (error: any) {
+    return sendAccountError(res, error, 'Create account');
+  }
+});
+
+/**
+ * GET /accounts
+ * List stored accounts for the calling client
+ * 
+ * Query:
+ *   platform?: 'quora' | 'medium'
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const platform = req.query.platform as AccountPlatform | undefined;
+    if (platform && !ACCOUNT_PLATFORMS.includes(platform)) {
+      return res.status(400).json({
+        success: false,
+        error: `platform must be one of: ${ACCOUNT_PLATFORMS.join(', ')}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      accounts: listAccounts(req.apiClient?.name, platform)
+    });
+  } catch (error: any) {
+    return sendAccountError(res, error, 'List accounts');
+  }
+});
+
+/**
+ * GET /accounts/:id
+ * Get a stored account (metadata only)
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      account: getAccount(req.params.id, req.apiClient?.name)
+    });
+  } catch (error: any) {
+    return sendAccountError(res, error, 'Get account');
+  }
+});
+
+/**
+ * PATCH /accounts/:id
+ * Update label, email, cookies or password (omitted fields are kept)
+ */
+router.patch('/:id', (req: Request, res: Response) => {
+  try {
+    const validationError = validateAccountInput(req.body, true);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const { email, label, cookies, password } = req.body;
+    const account = updateAccount(req.params.id, { email, label, cookies, password }, req.apiClient?.name);
+
+    return res.json({
+      success: true,
+      account
+    });
+  } catch (error: any) {
+    return sendAccountError(res, error, 'Update account');
+  }
+});
+
+/**
+ * DELETE /accounts/:id
+ * Remove an account and its stored credentials
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  try {
+    deleteAccount(req.params.id, req.apiClient?.name);
+
+    return res.json({
+      success: true
+    });
+  } catch (error: any) {
+    return sendAccountError(res, error, 'Delete account');
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import express, { Request, Response } from 'express';
+import { ArtifactNotFoundError, getArtifact, getArtifactFile } from '../services/artifacts';
+
+const router = express.Router();
+
+/**
+ * Map artifact errors to HTTP responses
+ */
+function sendArtifactError(res: Response, error: any, context: string) {
+  if (error instanceof ArtifactNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`❌ ${context} error:`, error.message);
+  return res.status(500).json({
+    success: false,
+    error: error.message || 'Internal server error'
+  });
+}
+
+/**
+ * GET /artifacts/:id
+ * Failure artifacts saved for a failed job (the `artifactId` in its result)
+ * Each file is listed with the URL it can be downloaded from
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  try {
+    const artifact = getArtifact(req.params.id, req.apiClient?.name);
+    const baseUrl = `${req.baseUrl}/${encodeURIComponent(artifact.id)}/files`;
+
+    return res.json({
+      success: true,
+      artifact: {
+        ...artifact,
+        files: artifact.files.map(file => ({ ...file, url: `${baseUrl}/${encodeURIComponent(file.name)}` }))
+      }
+    });
+  } catch (error: any) {
+    return sendArtifactError(res, error, 'Get artifact');
+  }
+});
+
+/**
+ * GET /artifacts/:id/files/:name
+ * Download one artifact file (PNG screenshot, HTML page source or JSON log/element dump)
+ */
+router.get('/:id/files/:name', (req: Request, res: Response) => {
+  try {
+    const { file, filePath } = getArtifactFile(req.params.id, req.params.name, req.apiClient?.name);
+
+    res.setHeader('Content-Type', file.contentType);
+    // Page sources are captured third-party HTML - never let a browser render them on our origin
+    res.setHeader('Content-Security-Policy', "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox");
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    if (file.kind === 'page-source') {
+      res.setHeader('Content-Disposition', `attachment; filename="${file.name}"`);
+    }
+
+    return res.sendFile(filePath);
+  } catch (error: any) {
+    return sendArtifactError(res, error, 'Get artifact file');
+  }
+});
+
+export default router;
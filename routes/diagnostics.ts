@@ -0,0 +1,143 @@
+import express, { Request, Response } from 'express';
+import { enqueueJob, registerJobHandler } from '../services/job-queue';
+import { ACCOUNT_PLATFORMS, AccountPlatform } from '../services/account-vault';
+import {
+  getCanaryRun,
+  listCanaryRuns,
+  parseCanaryInput,
+  runSelectorCanary,
+  SelectorCanaryInput,
+  SelectorCanaryRun
+} from '../services/selector-canary';
+
+const router = express.Router();
+
+interface SelectorCanaryJobResult {
+  success: boolean;
+  runId: string;
+  passed: boolean;
+  run: SelectorCanaryRun;
+}
+
+registerJobHandler<SelectorCanaryInput, SelectorCanaryJobResult>('diagnostics.selectors', async (payload, job) => {
+  const run = await runSelectorCanary(payload, { client: job.client, jobId: job.id });
+
+  // The job succeeds whenever the check ran - broken selectors are reported in `passed`
+  return {
+    success: true,
+    runId: run.id,
+    passed: run.passed,
+    run
+  };
+});
+
+/**
+ * POST /diagnostics/selectors
+ * Queue a selector canary run: log in with the canary accounts, open the Quora homepage,
+ * post modal and (optionally) a question page and Medium's new story editor - nothing is
+ * submitted - and check every selector registry group against them
+ * Returns 202 with a job ID - the job result holds the per-selector report (`run`)
+ *
+ * Body:
+ * {
+ *   platforms?: Array<'quora' | 'medium'> (default: every platform with a canary account),
+ *   questionUrl?: string (Quora question page to check; default CANARY_QUORA_QUESTION_URL)
+ * }
+ */
+router.post('/selectors', (req: Request, res: Response) => {
+  try {
+    const input = parseCanaryInput(req.body || {});
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input
+      });
+    }
+
+    const job = enqueueJob<SelectorCanaryInput>('diagnostics.selectors', input, { client: req.apiClient?.name });
+
+    return res.status(202).json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      platforms: input.platforms,
+      statusUrl: `/jobs/${job.id}`
+    });
+  } catch (error: any) {
+    console.error('❌ Selector canary error:', error.message);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+/**
+ * GET /diagnostics/selectors/history
+ * Past canary runs, newest first
+ *
+ * Query:
+ *   platform?: 'quora' | 'medium'
+ *   passed?: 'true' | 'false'
+ *   limit?: number (default 20)
+ */
+router.get('/selectors/history', (req: Request, res: Response) => {
+  try {
+    const platform = req.query.platform as AccountPlatform | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    if (platform && !ACCOUNT_PLATFORMS.includes(platform)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid platform. Expected one of: ${ACCOUNT_PLATFORMS.join(', ')}`
+      });
+    }
+
+    if (req.query.passed !== undefined && req.query.passed !== 'true' && req.query.passed !== 'false') {
+      return res.status(400).json({
+        success: false,
+        error: 'passed must be "true" or "false"'
+      });
+    }
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'limit must be a positive integer'
+      });
+    }
+
+    const passed = req.query.passed === undefined ? undefined : req.query.passed === 'true';
+
+    return res.json({
+      success: true,
+      runs: listCanaryRuns({ platform, passed, limit })
+    });
+  } catch (error: any) {
+    console.error('❌ Selector canary history error:', error.message);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+/**
+ * GET /diagnostics/selectors/runs/:id
+ */
+router.get('/selectors/runs/:id', (req: Request, res: Response) => {
+  const run = getCanaryRun(req.params.id);
+  if (!run) {
+    return res.status(404).json({
+      success: false,
+      error: `Selector canary run not found: ${req.params.id}`
+    });
+  }
+
+  return res.json({
+    success: true,
+    run
+  });
+});
+
+export default router;
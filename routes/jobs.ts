@@ -0,0 +1,174 @@
+import express, { Request, Response } from 'express';
+import { cancelJob, getJob, listJobs, rescheduleJob, toPublicJob, Job, JobStateError, JobStatus } from '../services/job-queue';
+import { parsePublishAt } from '../services/publish-schedule';
+
+const router = express.Router();
+
+const JOB_STATUSES: JobStatus[] = ['scheduled', 'queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+/**
+ * Get a job owned by the calling client (undefined for unknown or foreign jobs)
+ */
+function getOwnedJob(req: Request): Job | undefined {
+  const job = getJob(req.params.id);
+  if (!job || (req.apiClient && job.client !== req.apiClient.name)) {
+    return undefined;
+  }
+  return job;
+}
+
+/**
+ * GET /jobs
+ * List publish jobs created by the calling API client, newest first
+ * 
+ * Query:
+ *   status?: 'scheduled' | 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+ *   type?: string (e.g. 'medium.publish', 'quora.publish')
+ *   limit?: number (default 50)
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as JobStatus | undefined;
+    const type = req.query.type as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Expected one of: ${JOB_STATUSES.join(', ')}`
+      });
+    }
+
+    if (!Number.isFinite(limit) || limit <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'limit must be a positive number'
+      });
+    }
+
+    // Clients only see their own jobs
+    const jobs = listJobs({ status, type, client: req.apiClient?.name, limit }).map(toPublicJob);
+
+    return res.json({
+      success: true,
+      jobs
+    });
+  } catch (error: any) {
+    console.error('❌ List jobs error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+/**
+ * GET /jobs/:id
+ * Get the state of a publish job and, once finished, its result
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  try {
+    const job = getOwnedJob(req);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      job: toPublicJob(job)
+    });
+  } catch (error: any) {
+    console.error('❌ Get job error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+/**
+ * POST /jobs/:id/cancel
+ * Cancel a scheduled (or queued, not yet started) publish job
+ * A job with a callbackUrl sends its webhook with event `<type>.cancelled`
+ */
+router.post('/:id/cancel', (req: Request, res: Response) => {
+  try {
+    if (!getOwnedJob(req)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      job: toPublicJob(cancelJob(req.params.id))
+    });
+  } catch (error: any) {
+    if (error instanceof JobStateError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('❌ Cancel job error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+/**
+ * POST /jobs/:id/reschedule
+ * Move a scheduled (or queued, not yet started) publish job to a new time
+ * 
+ * Body:
+ * {
+ *   publishAt: string (ISO 8601 with offset, or local time together with timeZone),
+ *   timeZone?: string (IANA zone, e.g. "Europe/Berlin")
+ * }
+ */
+router.post('/:id/reschedule', (req: Request, res: Response) => {
+  try {
+    if (!getOwnedJob(req)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    let runAt: Date;
+    try {
+      runAt = parsePublishAt(req.body.publishAt, req.body.timeZone);
+    } catch (scheduleError: any) {
+      return res.status(400).json({
+        success: false,
+        error: scheduleError.message
+      });
+    }
+
+    return res.json({
+      success: true,
+      job: toPublicJob(rescheduleJob(req.params.id, runAt))
+    });
+  } catch (error: any) {
+    if (error instanceof JobStateError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('❌ Reschedule job error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+export default router;
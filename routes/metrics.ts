@@ -0,0 +1,85 @@
+import express, { Request, Response } from 'express';
+import { getMetricsHistory } from '../services/metrics-history';
+import { ACCOUNT_PLATFORMS, AccountPlatform } from '../services/account-vault';
+
+const router = express.Router();
+
+function parseDateParam(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /metrics/history
+ * Tracking snapshots for a post with per-interval deltas and a growth summary
+ * 
+ * Query:
+ *   url: string (post/story URL as passed to /quora/track or /medium/track)
+ *   platform?: 'quora' | 'medium'
+ *   from?: ISO date/time (inclusive)
+ *   to?: ISO date/time (inclusive)
+ * 
+ * Response:
+ * {
+ *   success: true,
+ *   url, platform,
+ *   snapshots: [{ recordedAt, metrics: { upvotes, views, ... } }],  (oldest first)
+ *   deltas: [{ from, to, days, changes: { upvotes: 3 }, perDay: { upvotes: 1.5 } }],
+ *   summary: { from, to, days, metrics: { views: { start, end, change, perDay, growthPercent } } }
+ * }
+ */
+router.get('/history', (req: Request, res: Response) => {
+  try {
+    const url = req.query.url as string | undefined;
+    const platform = req.query.platform as AccountPlatform | undefined;
+    const from = parseDateParam(req.query.from);
+    const to = parseDateParam(req.query.to);
+
+    if (!url || typeof url !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required query parameter: url'
+      });
+    }
+
+    if (platform && !ACCOUNT_PLATFORMS.includes(platform)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid platform. Expected one of: ${ACCOUNT_PLATFORMS.join(', ')}`
+      });
+    }
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be valid ISO dates'
+      });
+    }
+
+    if (from && to && from > to) {
+      return res.status(400).json({
+        success: false,
+        error: 'from must be before to'
+      });
+    }
+
+    // Clients only see snapshots from their own tracking
+    const history = getMetricsHistory({ url, platform, client: req.apiClient?.name, from, to });
+
+    return res.json({
+      success: true,
+      ...history
+    });
+  } catch (error: any) {
+    console.error('❌ Metrics history error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+export default router;
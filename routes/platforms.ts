@@ -0,0 +1,726 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { findPublishedPostUrl, listPlatformAdapters, getPlatformAdapter } from '../services/platforms';
+import { PlatformAdapter, PlatformOperation } from '../services/platform-adapter';
+import { deleteOnPlatform, editOnPlatform, formatMetrics, publishToPlatform, trackPlatformPost, verifyPlatformAccount } from '../services/platform-runner';
+import { registerJobHandler, reportJobStep } from '../services/job-queue';
+import { streamJob, wantsEventStream } from '../services/job-stream';
+import { IdempotentEnqueueResult, enqueueIdempotentJob, getIdempotencyKey } from '../services/idempotency';
+import { PublishContent, PublishResult, LoginCredentials } from '../services/selenium-base';
+import { AccountNotFoundError, resolveCredentials } from '../services/account-vault';
+import { recordMetricsSnapshot } from '../services/metrics-history';
+import { validateContentFormat } from '../services/content-format';
+import { parsePublishAt } from '../services/publish-schedule';
+import { sendWebhook, validateCallbackUrl } from '../services/webhooks';
+import { describeError, getErrorHttpStatus } from '../services/errors';
+
+// Mounted at /:platform - the platform comes from the mount path
+const router = express.Router({ mergeParams: true });
+
+interface PlatformPublishJobPayload {
+  // Either a stored account or inline credentials
+  accountId?: string;
+  email?: string;
+  cookies?: LoginCredentials['cookies'];
+  content: PublishContent;
+  // Plus the adapter's publishOptions fields (e.g. questionUrl)
+  [option: string]: any;
+}
+
+for (const adapter of listPlatformAdapters()) {
+  registerJobHandler<PlatformPublishJobPayload, PublishResult>(`${adapter.platform}.publish`, async (payload, job) => {
+    // Stored account credentials are decrypted only when the job runs
+    const credentials = resolveCredentials(payload, adapter.platform, job.client);
+    const result = await publishToPlatform(
+      adapter,
+      credentials,
+      payload.content,
+      pickOptions(adapter.publishOptions, payload),
+      step => reportJobStep(job.id, step)
+    );
+
+    if (result.success) {
+      console.log('✅ Published successfully:', result.url);
+    } else {
+      console.error('❌ Publish failed:', result.error);
+    }
+
+    return result;
+  });
+}
+
+interface PlatformEditJobPayload {
+  accountId?: string;
+  email?: string;
+  cookies?: LoginCredentials['cookies'];
+  url: string;
+  content: PublishContent;
+}
+
+for (const adapter of listPlatformAdapters().filter(adapter => adapter.capabilities.edit)) {
+  registerJobHandler<PlatformEditJobPayload, PublishResult>(`${adapter.platform}.edit`, async (payload, job) => {
+    const credentials = resolveCredentials(payload, adapter.platform, job.client);
+    const result = await editOnPlatform(
+      adapter,
+      credentials,
+      payload.url,
+      payload.content,
+      step => reportJobStep(job.id, step)
+    );
+
+    if (result.success) {
+      console.log('✅ Edited successfully:', result.url);
+    } else {
+      console.error('❌ Edit failed:', result.error);
+    }
+
+    return result;
+  });
+}
+
+interface PlatformDeleteJobPayload {
+  accountId?: string;
+  email?: string;
+  cookies?: LoginCredentials['cookies'];
+  url: string;
+  // Plus the adapter's deleteOptions fields (e.g. mode)
+  [option: string]: any;
+}
+
+for (const adapter of listPlatformAdapters().filter(adapter => adapter.capabilities.delete)) {
+  registerJobHandler<PlatformDeleteJobPayload, PublishResult>(`${adapter.platform}.delete`, async (payload, job) => {
+    const credentials = resolveCredentials(payload, adapter.platform, job.client);
+    const result = await deleteOnPlatform(
+      adapter,
+      credentials,
+      payload.url,
+      pickOptions(adapter.deleteOptions, payload),
+      step => reportJobStep(job.id, step)
+    );
+
+    if (result.success) {
+      console.log('✅ Removed successfully:', payload.url);
+    } else {
+      console.error('❌ Removal failed:', result.error);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * The request fields an operation passes through to the adapter (publishOptions, deleteOptions)
+ */
+function pickOptions(fields: string[], source: Record<string, any>): Record<string, any> {
+  const options: Record<string, any> = {};
+  for (const field of fields) {
+    if (source[field] !== undefined) {
+      options[field] = source[field];
+    }
+  }
+  return options;
+}
+
+/**
+ * Resolve the platform's adapter into res.locals.adapter and reject operations
+ * it does not support
+ */
+function requireCapability(operation: PlatformOperation) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const adapter = getPlatformAdapter(req.params.platform);
+    if (!adapter) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown platform: ${req.params.platform}`
+      });
+    }
+
+    if (!adapter.capabilities[operation]) {
+      return res.status(501).json({
+        success: false,
+        error: `${adapter.displayName} does not support ${operation}`
+      });
+    }
+
+    res.locals.adapter = adapter;
+    next();
+  };
+}
+
+function validateContent(content: any): string | null {
+  if (!content.title || !content.content) {
+    return 'Content must include title and content';
+  }
+  return validateContentFormat(content);
+}
+
+/**
+ * The post ID field a request sends instead of a URL (one of the adapter's postIdFields)
+ */
+function getPostIdField(adapter: PlatformAdapter, body: any): string | undefined {
+  return adapter.postIdFields.find(field => body[field]);
+}
+
+/**
+ * URL of the post a request targets - the adapter's post URL field, or the URL for a
+ * post ID (from the adapter, else the client's earlier publish results)
+ */
+function getPostUrl(adapter: PlatformAdapter, body: any, client?: string): string | undefined {
+  if (body[adapter.postUrlField]) {
+    return String(body[adapter.postUrlField]);
+  }
+
+  const idField = getPostIdField(adapter, body);
+  if (!idField) {
+    return undefined;
+  }
+
+  const id = String(body[idField]);
+  return adapter.postUrlFromId?.(id) || findPublishedPostUrl(adapter, idField, id, client);
+}
+
+/**
+ * Checks every queued operation (publish, edit, delete) makes before queueing: the
+ * callback URL, that a stored account exists (fail fast instead of when the job runs)
+ * and the idempotency key
+ * Responds with the error and returns null when one fails
+ */
+function checkJobRequest(
+  req: Request,
+  res: Response,
+  adapter: PlatformAdapter
+): { callbackUrl?: string; idempotencyKey?: string } | null {
+  const { accountId, callbackUrl } = req.body;
+
+  if (callbackUrl !== undefined) {
+    const callbackError = validateCallbackUrl(callbackUrl);
+    if (callbackError) {
+      res.status(400).json({
+        success: false,
+        error: callbackError
+      });
+      return null;
+    }
+  }
+
+  if (accountId) {
+    try {
+      resolveCredentials({ accountId }, adapter.platform, req.apiClient?.name);
+    } catch (accountError: any) {
+      res.status(accountError instanceof AccountNotFoundError ? 404 : 400).json({
+        success: false,
+        error: accountError.message
+      });
+      return null;
+    }
+  }
+
+  try {
+    return { callbackUrl, idempotencyKey: getIdempotencyKey(req) };
+  } catch (keyError: any) {
+    res.status(400).json({
+      success: false,
+      error: keyError.message
+    });
+    return null;
+  }
+}
+
+/**
+ * Respond to a queued job: 202 (200 when replayed) with the job, or a Server-Sent
+ * Events stream when the client asked for one
+ */
+function sendEnqueuedJob(req: Request, res: Response, enqueued: IdempotentEnqueueResult<Record<string, any>>) {
+  if (enqueued.status === 'conflict') {
+    return res.status(422).json({
+      success: false,
+      error: enqueued.error
+    });
+  }
+
+  const { job } = enqueued;
+  const replayed = enqueued.status === 'replayed';
+  const response = {
+    success: true,
+    jobId: job.id,
+    status: job.status,
+    runAt: job.runAt,
+    statusUrl: `/jobs/${job.id}`,
+    replayed,
+    result: job.result,
+    error: job.error,
+    errorCode: job.errorCode,
+    retryable: job.retryable
+  };
+
+  if (wantsEventStream(req)) {
+    return streamJob(req, res, job, response);
+  }
+
+  return res.status(replayed ? 200 : 202).json(response);
+}
+
+/**
+ * POST /:platform/publish
+ * Queue content for publishing (e.g. POST /quora/publish, POST /medium/publish)
+ * Returns 202 with a job ID right away - poll GET /jobs/:id for the result
+ * The result includes a step `timeline` (timings, lookup attempts, matched selectors)
+ * and, on failure, an `artifactId` for GET /artifacts/:id
+ * With `Accept: text/event-stream` the response is instead a Server-Sent Events stream of
+ * step progress that ends with a `result` event (see services/job-stream.ts)
+ * With publishAt the job is scheduled instead (status 'scheduled') - manage it with
+ * GET /jobs?status=scheduled, POST /jobs/:id/cancel and POST /jobs/:id/reschedule
+ *
+ * Headers:
+ *   Idempotency-Key?: string - retries with the same key return the original job
+ *                              instead of publishing again
+ *
+ * Body:
+ * {
+ *   accountId?: string (stored account - replaces email and cookies),
+ *   email?: string,
+ *   cookies?: Array<Cookie>,
+ *   content: {
+ *     title: string,
+ *     content: string,
+ *     format?: 'markdown' | 'html' | 'plain' (default 'plain'; markdown/html are rendered
+ *              to the headings, quotes, code, lists and links the platform supports),
+ *     tags?: string[],
+ *     metadata?: { imageUrl?: string, ... }
+ *   },
+ *   questionUrl?: string (Quora only - answer this question instead of creating a post),
+ *   mode?: 'publish' | 'draft' (Medium only, default 'publish' - 'draft' stops once the
+ *          draft is saved; the result then has the draft's editUrl, postId and state 'draft'),
+ *   publication?: string (Medium only - slug or ID of a publication to publish in; without
+ *                 editor rights the story is submitted for review instead - the result's
+ *                 state is 'published' or 'submitted'),
+ *   publishAt?: string (ISO 8601 with offset, e.g. "2026-03-01T09:00:00+01:00",
+ *                       or local time such as "2026-03-01T09:00" together with timeZone),
+ *   timeZone?: string (IANA zone for a local publishAt, e.g. "Europe/Berlin"),
+ *   callbackUrl?: string (receives a signed POST with the result when the job finishes -
+ *                         see services/webhooks.ts),
+ *   idempotencyKey?: string (alternative to the Idempotency-Key header)
+ * }
+ */
+router.post('/publish', requireCapability('publish'), async (req: Request, res: Response) => {
+  const adapter: PlatformAdapter = res.locals.adapter;
+
+  try {
+    const { accountId, email, cookies, content } = req.body;
+
+    // Validate required fields
+    if ((!accountId && (!email || !cookies)) || !content) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: accountId (or email and cookies) and content are required'
+      });
+    }
+
+    const contentError = validateContent(content);
+    if (contentError) {
+      return res.status(400).json({
+        success: false,
+        error: contentError
+      });
+    }
+
+    const options = pickOptions(adapter.publishOptions, req.body);
+    const optionsError = adapter.validateOptions?.('publish', options);
+    if (optionsError) {
+      return res.status(400).json({
+        success: false,
+        error: optionsError
+      });
+    }
+
+    let runAt: Date | undefined;
+    if (req.body.publishAt !== undefined) {
+      try {
+        runAt = parsePublishAt(req.body.publishAt, req.body.timeZone);
+      } catch (scheduleError: any) {
+        return res.status(400).json({
+          success: false,
+          error: scheduleError.message
+        });
+      }
+    }
+
+    const checked = checkJobRequest(req, res, adapter);
+    if (!checked) {
+      return;
+    }
+    const { callbackUrl, idempotencyKey } = checked;
+
+    console.log(`📝 Queueing ${adapter.displayName} publish...`);
+    console.log('  - Account:', accountId || email);
+    console.log('  - Title:', content.title);
+    console.log('  - Format:', content.format || 'plain');
+    if (runAt) {
+      console.log('  - Publish at:', runAt.toISOString());
+    }
+    for (const [field, value] of Object.entries(options)) {
+      console.log(`  - ${field}:`, value);
+    }
+
+    const enqueued = enqueueIdempotentJob<PlatformPublishJobPayload>(
+      `${adapter.platform}.publish`,
+      idempotencyKey,
+      accountId ? { accountId, content, ...options } : { email, cookies, content, ...options },
+      { client: req.apiClient?.name, runAt, callbackUrl }
+    );
+
+    return sendEnqueuedJob(req, res, enqueued);
+  } catch (error: any) {
+    console.error(`❌ ${adapter.displayName} publish error:`, error);
+    const failure = describeError(error);
+    return res.status(getErrorHttpStatus(failure.errorCode)).json({
+      success: false,
+      ...failure
+    });
+  }
+});
+
+/**
+ * POST /:platform/edit
+ * Queue an edit of a published post (e.g. POST /medium/edit, POST /quora/edit): its
+ * content is replaced, it is saved or republished and the live post is checked for the change
+ * - if it does not show up in time the job fails with EDIT_NOT_LIVE (retryable)
+ * (Quora answers keep their question, so only the body of `content` is used)
+ * Responds like publish - 202 with a job ID, an event stream with `Accept: text/event-stream`
+ * and Idempotency-Key support; the job result has the live `url`, `verifiedLive` and the
+ * step `timeline`
+ *
+ * Body:
+ * {
+ *   accountId?: string (stored account - replaces email and cookies),
+ *   email?: string,
+ *   cookies?: Array<Cookie>,
+ *   storyUrl?: string (Medium) | postUrl?: string (Quora),
+ *   postId?: string (instead of the URL - the postId a publish returned),
+ *   answerId?: string (Quora only - instead of the URL, the answerId a publish returned),
+ *   content: { title, content, format?, tags? } (as for publish),
+ *   callbackUrl?: string (receives a signed POST with the result when the job finishes),
+ *   idempotencyKey?: string (alternative to the Idempotency-Key header)
+ * }
+ */
+router.post('/edit', requireCapability('edit'), async (req: Request, res: Response) => {
+  const adapter: PlatformAdapter = res.locals.adapter;
+
+  try {
+    const { accountId, email, cookies, content, callbackUrl } = req.body;
+    const idField = getPostIdField(adapter, req.body);
+
+    if ((!accountId && (!email || !cookies)) || !content || (!req.body[adapter.postUrlField] && !idField)) {
+      return res.status(400).json({
+        success: false,
+        error: `Missing required fields: accountId (or email and cookies), ${adapter.postUrlField} (or ${adapter.postIdFields.join(' or ')}) and content are required`
+      });
+    }
+
+    const url = getPostUrl(adapter, req.body, req.apiClient?.name);
+    if (!url) {
+      return res.status(404).json({
+        success: false,
+        error: `No published ${adapter.displayName} post found with ${idField} ${req.body[idField!]} - send its ${adapter.postUrlField} instead`
+      });
+    }
+
+    const urlError = adapter.validatePostUrl?.(url);
+    if (urlError) {
+      return res.status(400).json({
+        success: false,
+        error: urlError
+      });
+    }
+
+    const contentError = validateContent(content);
+    if (contentError) {
+      return res.status(400).json({
+        success: false,
+        error: contentError
+      });
+    }
+
+    const checked = checkJobRequest(req, res, adapter);
+    if (!checked) {
+      return;
+    }
+    const { idempotencyKey } = checked;
+
+    console.log(`✏️ Queueing ${adapter.displayName} edit...`);
+    console.log('  - Account:', accountId || email);
+    console.log('  - URL:', url);
+    console.log('  - Title:', content.title);
+
+    const enqueued = enqueueIdempotentJob<PlatformEditJobPayload>(
+      `${adapter.platform}.edit`,
+      idempotencyKey,
+      accountId ? { accountId, url, content } : { email, cookies, url, content },
+      { client: req.apiClient?.name, callbackUrl }
+    );
+
+    return sendEnqueuedJob(req, res, enqueued);
+  } catch (error: any) {
+    console.error(`❌ ${adapter.displayName} edit error:`, error);
+    const failure = describeError(error);
+    return res.status(getErrorHttpStatus(failure.errorCode)).json({
+      success: false,
+      ...failure
+    });
+  }
+});
+
+/**
+ * POST /:platform/delete (or /:platform/unpublish)
+ * Queue taking a published post down (e.g. POST /quora/delete, POST /medium/unpublish):
+ * Quora answers and posts are deleted; Medium stories go back to draft (mode 'draft')
+ * or are deleted (mode 'delete'). Afterwards the post URL is opened signed out to check
+ * it no longer serves the content - if it still does the job fails with STILL_PUBLIC
+ * Responds like publish - 202 with a job ID, an event stream with `Accept: text/event-stream`
+ * and Idempotency-Key support; the job result has `verifiedRemoved` and the step `timeline`
+ *
+ * Body:
+ * {
+ *   accountId?: string (stored account - replaces email and cookies),
+ *   email?: string,
+ *   cookies?: Array<Cookie>,
+ *   storyUrl?: string (Medium) | postUrl?: string (Quora),
+ *   postId?: string (instead of the URL - the postId a publish returned),
+ *   answerId?: string (Quora only - instead of the URL, the answerId a publish returned),
+ *   confirm: true (required - guards against removing content by accident),
+ *   mode?: 'draft' | 'delete' (Medium only, default 'draft'),
+ *   callbackUrl?: string (receives a signed POST with the result when the job finishes),
+ *   idempotencyKey?: string (alternative to the Idempotency-Key header)
+ * }
+ */
+router.post(['/delete', '/unpublish'], requireCapability('delete'), async (req: Request, res: Response) => {
+  const adapter: PlatformAdapter = res.locals.adapter;
+
+  try {
+    const { accountId, email, cookies, confirm, callbackUrl } = req.body;
+    const idField = getPostIdField(adapter, req.body);
+
+    if ((!accountId && (!email || !cookies)) || (!req.body[adapter.postUrlField] && !idField)) {
+      return res.status(400).json({
+        success: false,
+        error: `Missing required fields: accountId (or email and cookies) and ${adapter.postUrlField} (or ${adapter.postIdFields.join(' or ')}) are required`
+      });
+    }
+
+    if (confirm !== true) {
+      return res.status(400).json({
+        success: false,
+        error: 'Removing a post takes it off the platform for everyone - set confirm: true to proceed'
+      });
+    }
+
+    const url = getPostUrl(adapter, req.body, req.apiClient?.name);
+    if (!url) {
+      return res.status(404).json({
+        success: false,
+        error: `No published ${adapter.displayName} post found with ${idField} ${req.body[idField!]} - send its ${adapter.postUrlField} instead`
+      });
+    }
+
+    const urlError = adapter.validatePostUrl?.(url);
+    if (urlError) {
+      return res.status(400).json({
+        success: false,
+        error: urlError
+      });
+    }
+
+    const options = pickOptions(adapter.deleteOptions, req.body);
+    const optionsError = adapter.validateOptions?.('delete', options);
+    if (optionsError) {
+      return res.status(400).json({
+        success: false,
+        error: optionsError
+      });
+    }
+
+    const checked = checkJobRequest(req, res, adapter);
+    if (!checked) {
+      return;
+    }
+    const { idempotencyKey } = checked;
+
+    console.log(`🗑️ Queueing ${adapter.displayName} removal...`);
+    console.log('  - Account:', accountId || email);
+    console.log('  - URL:', url);
+    for (const [field, value] of Object.entries(options)) {
+      console.log(`  - ${field}:`, value);
+    }
+
+    const enqueued = enqueueIdempotentJob<PlatformDeleteJobPayload>(
+      `${adapter.platform}.delete`,
+      idempotencyKey,
+      accountId ? { accountId, url, ...options } : { email, cookies, url, ...options },
+      { client: req.apiClient?.name, callbackUrl }
+    );
+
+    return sendEnqueuedJob(req, res, enqueued);
+  } catch (error: any) {
+    console.error(`❌ ${adapter.displayName} removal error:`, error);
+    const failure = describeError(error);
+    return res.status(getErrorHttpStatus(failure.errorCode)).json({
+      success: false,
+      ...failure
+    });
+  }
+});
+
+/**
+ * POST /:platform/track
+ * Track performance metrics for a post (Quora: upvotes, comments, views, shares;
+ * Medium: claps, responses, views, reads, readRatio, fans)
+ * Successful results are saved to the metrics history (GET /metrics/history)
+ *
+ * Body:
+ * {
+ *   accountId?: string (stored account - replaces email and cookies),
+ *   email?: string,
+ *   cookies?: Array<Cookie>,
+ *   postUrl: string (Quora) | storyUrl: string (Medium),
+ *   callbackUrl?: string (also receives the metrics as a signed POST - see services/webhooks.ts)
+ * }
+ */
+router.post('/track', requireCapability('track'), async (req: Request, res: Response) => {
+  const adapter: PlatformAdapter = res.locals.adapter;
+
+  try {
+    const { accountId, callbackUrl } = req.body;
+    const url: string | undefined = req.body[adapter.postUrlField];
+
+    let credentials: LoginCredentials | null;
+    try {
+      credentials = resolveCredentials(req.body, adapter.platform, req.apiClient?.name);
+    } catch (accountError: any) {
+      return res.status(accountError instanceof AccountNotFoundError ? 404 : 400).json({
+        success: false,
+        error: accountError.message
+      });
+    }
+
+    // Validate required fields
+    if (!credentials || !url) {
+      return res.status(400).json({
+        success: false,
+        error: `Missing required fields: accountId (or email and cookies) and ${adapter.postUrlField} are required`
+      });
+    }
+
+    const urlError = adapter.validatePostUrl?.(url);
+    if (urlError) {
+      return res.status(400).json({
+        success: false,
+        error: urlError
+      });
+    }
+
+    if (callbackUrl !== undefined) {
+      const callbackError = validateCallbackUrl(callbackUrl);
+      if (callbackError) {
+        return res.status(400).json({
+          success: false,
+          error: callbackError
+        });
+      }
+    }
+
+    console.log(`📊 Tracking ${adapter.displayName} performance...`);
+    console.log('  - Account:', accountId || credentials.email);
+    console.log('  - URL:', url);
+
+    const metrics = await trackPlatformPost(adapter, credentials, url);
+
+    if (callbackUrl) {
+      sendWebhook(
+        callbackUrl,
+        metrics.error ? `${adapter.platform}.track.failed` : `${adapter.platform}.track.completed`,
+        { [adapter.postUrlField]: url, metrics, error: metrics.error },
+        { client: req.apiClient?.name }
+      );
+    }
+
+    if (metrics.error) {
+      console.error('❌ Tracking failed:', metrics.error);
+      return res.status(getErrorHttpStatus(metrics.errorCode)).json({
+        success: false,
+        error: metrics.error,
+        errorCode: metrics.errorCode,
+        retryable: metrics.retryable,
+        metrics: formatMetrics(adapter, metrics)
+      });
+    }
+
+    console.log('✅ Metrics retrieved:', metrics);
+    recordMetricsSnapshot(adapter.platform, url, metrics, req.apiClient?.name);
+    return res.json({
+      success: true,
+      metrics: formatMetrics(adapter, metrics)
+    });
+  } catch (error: any) {
+    console.error(`❌ ${adapter.displayName} tracking error:`, error);
+    const failure = describeError(error);
+    return res.status(getErrorHttpStatus(failure.errorCode)).json({
+      success: false,
+      ...failure,
+      metrics: formatMetrics(adapter)
+    });
+  }
+});
+
+/**
+ * POST /:platform/verify
+ * Verify credentials/cookies by signing in with a browser - cookies that do not
+ * give a signed-in session fail with AUTH_EXPIRED
+ *
+ * Body:
+ * {
+ *   accountId?: string (stored account - replaces email and cookies),
+ *   email?: string,
+ *   cookies?: Array<Cookie>
+ * }
+ */
+router.post('/verify', requireCapability('verify'), async (req: Request, res: Response) => {
+  const adapter: PlatformAdapter = res.locals.adapter;
+
+  try {
+    let credentials: LoginCredentials | null;
+    try {
+      credentials = resolveCredentials(req.body, adapter.platform, req.apiClient?.name);
+    } catch (accountError: any) {
+      return res.status(accountError instanceof AccountNotFoundError ? 404 : 400).json({
+        success: false,
+        error: accountError.message
+      });
+    }
+
+    if (!credentials) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: accountId, or email and cookies, are required'
+      });
+    }
+
+    console.log(`🔍 Verifying ${adapter.displayName} config...`);
+    console.log('  - Account:', req.body.accountId || credentials.email);
+
+    const result = await verifyPlatformAccount(adapter, credentials);
+
+    if (!result.success) {
+      return res.status(getErrorHttpStatus(result.errorCode)).json(result);
+    }
+
+    return res.json(result);
+  } catch (error: any) {
+    console.error(`❌ ${adapter.displayName} verify error:`, error);
+    const failure = describeError(error);
+    return res.status(getErrorHttpStatus(failure.errorCode)).json({
+      success: false,
+      ...failure
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,188 @@
+import express, { Request, Response } from 'express';
+import {
+  findTrackedPost,
+  getTrackedPost,
+  listTrackedPosts,
+  pauseTrackedPost,
+  registerTrackedPost,
+  removeTrackedPost,
+  resumeTrackedPost,
+  TrackedPostNotFoundError,
+  TrackedPostStatus,
+  validateTrackedPostInput
+} from '../services/tracking-scheduler';
+import { ACCOUNT_PLATFORMS, AccountNotFoundError, AccountPlatform, resolveCredentials } from '../services/account-vault';
+
+const router = express.Router();
+
+const TRACKED_POST_STATUSES: TrackedPostStatus[] = ['active', 'paused'];
+
+/**
+ * Map scheduler errors to responses (404 for unknown posts, 500 otherwise)
+ */
+function sendTrackingError(res: Response, error: any, context: string) {
+  if (error instanceof TrackedPostNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`❌ ${context} error:`, error.message);
+  return res.status(500).json({
+    success: false,
+    error: error.message || 'Internal server error'
+  });
+}
+
+/**
+ * POST /tracking/posts
+ * Register a published post for scheduled tracking
+ * Each run's metrics are saved to the metrics history (GET /metrics/history)
+ * 
+ * Body:
+ * {
+ *   platform: 'quora' | 'medium',
+ *   url: string,
+ *   accountId: string (stored account used to log in),
+ *   schedule?: Array<{ everyMinutes: number, forHours?: number }>
+ *     (default: hourly for 24 hours, then daily)
+ * }
+ */
+router.post('/posts', (req: Request, res: Response) => {
+  try {
+    const validationError = validateTrackedPostInput(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const { platform, url, accountId, schedule } = req.body;
+
+    try {
+      resolveCredentials({ accountId }, platform, req.apiClient?.name);
+    } catch (accountError: any) {
+      return res.status(accountError instanceof AccountNotFoundError ? 404 : 400).json({
+        success: false,
+        error: accountError.message
+      });
+    }
+
+    const existing = findTrackedPost(platform, url, req.apiClient?.name);
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: 'This post is already tracked',
+        trackedPost: existing
+      });
+    }
+
+    const trackedPost = registerTrackedPost({ platform, url, accountId, schedule }, req.apiClient?.name);
+
+    return res.status(201).json({
+      success: true,
+      trackedPost
+    });
+  } catch (error: any) {
+    return sendTrackingError(res, error, 'Register tracked post');
+  }
+});
+
+/**
+ * GET /tracking/posts
+ * List tracked posts for the calling client
+ * 
+ * Query:
+ *   platform?: 'quora' | 'medium'
+ *   status?: 'active' | 'paused'
+ */
+router.get('/posts', (req: Request, res: Response) => {
+  try {
+    const platform = req.query.platform as AccountPlatform | undefined;
+    const status = req.query.status as TrackedPostStatus | undefined;
+
+    if (platform && !ACCOUNT_PLATFORMS.includes(platform)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid platform. Expected one of: ${ACCOUNT_PLATFORMS.join(', ')}`
+      });
+    }
+
+    if (status && !TRACKED_POST_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Expected one of: ${TRACKED_POST_STATUSES.join(', ')}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      trackedPosts: listTrackedPosts({ client: req.apiClient?.name, platform, status })
+    });
+  } catch (error: any) {
+    return sendTrackingError(res, error, 'List tracked posts');
+  }
+});
+
+/**
+ * GET /tracking/posts/:id
+ */
+router.get('/posts/:id', (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      trackedPost: getTrackedPost(req.params.id, req.apiClient?.name)
+    });
+  } catch (error: any) {
+    return sendTrackingError(res, error, 'Get tracked post');
+  }
+});
+
+/**
+ * POST /tracking/posts/:id/pause
+ * Stop scheduling runs until resumed
+ */
+router.post('/posts/:id/pause', (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      trackedPost: pauseTrackedPost(req.params.id, req.apiClient?.name)
+    });
+  } catch (error: any) {
+    return sendTrackingError(res, error, 'Pause tracked post');
+  }
+});
+
+/**
+ * POST /tracking/posts/:id/resume
+ * Resume a paused post - it is tracked again on the next scheduler tick
+ */
+router.post('/posts/:id/resume', (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      trackedPost: resumeTrackedPost(req.params.id, req.apiClient?.name)
+    });
+  } catch (error: any) {
+    return sendTrackingError(res, error, 'Resume tracked post');
+  }
+});
+
+/**
+ * DELETE /tracking/posts/:id
+ * Stop tracking a post (saved metrics history is kept)
+ */
+router.delete('/posts/:id', (req: Request, res: Response) => {
+  try {
+    removeTrackedPost(req.params.id, req.apiClient?.name);
+    return res.json({
+      success: true
+    });
+  } catch (error: any) {
+    return sendTrackingError(res, error, 'Remove tracked post');
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import express, { Request, Response } from 'express';
+import { getWebhookDelivery, listWebhookDeliveries, WebhookDeliveryStatus } from '../services/webhooks';
+
+const router = express.Router();
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+/**
+ * GET /webhooks/deliveries
+ * Webhook delivery log for the calling API client, newest first
+ * 
+ * Query:
+ *   status?: 'pending' | 'delivered' | 'failed'
+ *   jobId?: string
+ *   limit?: number (default 50)
+ */
+router.get('/deliveries', (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as WebhookDeliveryStatus | undefined;
+    const jobId = req.query.jobId as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Expected one of: ${DELIVERY_STATUSES.join(', ')}`
+      });
+    }
+
+    if (!Number.isFinite(limit) || limit <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'limit must be a positive number'
+      });
+    }
+
+    return res.json({
+      success: true,
+      deliveries: listWebhookDeliveries({ client: req.apiClient?.name, status, jobId, limit })
+    });
+  } catch (error: any) {
+    console.error('❌ List webhook deliveries error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+/**
+ * GET /webhooks/deliveries/:id
+ */
+router.get('/deliveries/:id', (req: Request, res: Response) => {
+  try {
+    const delivery = getWebhookDelivery(req.params.id);
+
+    if (!delivery || (req.apiClient && delivery.client !== req.apiClient.name)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook delivery not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      delivery
+    });
+  } catch (error: any) {
+    console.error('❌ Get webhook delivery error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -1,8 +1,23 @@
 import dotenv from 'dotenv';
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-import quoraRoutes from './routes/quora';
-import mediumRoutes from './routes/medium';
+import platformRoutes from './routes/platforms';
+import jobsRoutes from './routes/jobs';
+import accountsRoutes from './routes/accounts';
+import metricsRoutes from './routes/metrics';
+import trackingRoutes from './routes/tracking';
+import webhooksRoutes from './routes/webhooks';
+import artifactsRoutes from './routes/artifacts';
+import diagnosticsRoutes from './routes/diagnostics';
+import { startJobQueue } from './services/job-queue';
+import { listPlatformAdapters } from './services/platforms';
+import { startTrackingScheduler, stopTrackingScheduler } from './services/tracking-scheduler';
+import { startWebhookRetries } from './services/webhooks';
+import { startArtifactCleanup } from './services/artifacts';
+import { getSelectorRegistryInfo, watchSelectorRegistry } from './services/selector-registry';
+import { startSessionPool, drainSessionPool, getSessionPoolStats } from './services/session-pool';
+import { requireApiKey } from './middleware/auth';
+import { isAuthDisabled, loadApiKeys } from './services/api-keys';
 
 dotenv.config();
 
@@ -18,13 +33,23 @@ app.get('/health', (req: Request, res: Response) => {
   res.json({ 
     status: 'ok', 
     service: 'Quora & Medium Crawler Service',
+    sessionPool: getSessionPoolStats(),
+    selectors: getSelectorRegistryInfo().versions,
     timestamp: new Date().toISOString()
   });
 });
 
-// Routes (no authentication needed - URL is private)
-app.use('/quora', quoraRoutes);
-app.use('/medium', mediumRoutes);
+// Routes (API key required - see services/api-keys.ts for configuration)
+// One set of routes per platform adapter: /quora/publish, /medium/track, ...
+const platformPath = `/:platform(${listPlatformAdapters().map(adapter => adapter.platform).join('|')})`;
+app.use(platformPath, requireApiKey(), platformRoutes);
+app.use('/jobs', requireApiKey({ checkRoutes: false }), jobsRoutes);
+app.use('/accounts', requireApiKey(), accountsRoutes);
+app.use('/metrics', requireApiKey(), metricsRoutes);
+app.use('/tracking', requireApiKey(), trackingRoutes);
+app.use('/webhooks', requireApiKey({ checkRoutes: false }), webhooksRoutes);
+app.use('/artifacts', requireApiKey({ checkRoutes: false }), artifactsRoutes);
+app.use('/diagnostics', requireApiKey(), diagnosticsRoutes);
 
 // Error handling middleware
 app.use((err: any, req: Request, res: Response, next: NextFunction) => {
@@ -43,11 +68,29 @@ app.use((req: Request, res: Response) => {
   });
 });
 
+// Load platform selectors before any flow runs (reloaded when the file changes)
+watchSelectorRegistry();
+
 // Start server
 const server = app.listen(PORT, () => {
   console.log(`🚀 Crawler service running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
-  console.log(`🔐 API Key required for protected endpoints`);
+  if (isAuthDisabled()) {
+    console.warn('⚠️ AUTH_DISABLED=true - protected endpoints are open to anyone');
+  } else {
+    const clients = loadApiKeys();
+    console.log(`🔐 API Key required for protected endpoints (${clients.length} key(s) configured)`);
+    if (clients.length === 0) {
+      console.warn('⚠️ No API keys configured (API_KEYS_FILE, API_KEYS or API_KEY) - all protected requests will be rejected');
+    }
+  }
+
+  // Warm up browser sessions, then resume queued publish jobs, scheduled tracking and webhook retries from the persistent store
+  startSessionPool();
+  startJobQueue();
+  startTrackingScheduler();
+  startWebhookRetries();
+  startArtifactCleanup();
 });
 
 // Graceful shutdown
@@ -56,5 +99,9 @@ process.on('SIGTERM', () => {
   server.close(() => {
     console.log('HTTP server closed');
   });
+  stopTrackingScheduler();
+  drainSessionPool().then(() => {
+    console.log('Selenium session pool drained');
+  });
 });
 
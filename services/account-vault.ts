@@ -0,0 +1,289 @@
+/**
+ * Account Vault Service
+ * Stores platform login credentials (cookies/password) encrypted at rest so
+ * callers can reference an accountId instead of sending cookies every request
+ *
+ * Encryption: AES-256-GCM with the key from ACCOUNT_VAULT_KEY
+ * (64 hex chars or base64 for a raw 32-byte key; any other value is hashed to 32 bytes)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+import { JsonCollection } from './json-store';
+import { LoginCredentials } from './selenium-base';
+
+export type AccountPlatform = 'quora' | 'medium';
+
+export const ACCOUNT_PLATFORMS: AccountPlatform[] = ['quora', 'medium'];
+
+export interface EncryptedBlob {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface StoredAccount {
+  id: string;
+  client?: string; // API client that owns the account
+  platform: AccountPlatform;
+  label?: string;
+  email: string;
+  secrets: EncryptedBlob; // Encrypted { password?, cookies? }
+  cookieNames: string[];
+  hasPassword: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Account as returned to clients - never includes cookie values or passwords
+ */
+export interface PublicAccount {
+  id: string;
+  platform: AccountPlatform;
+  label?: string;
+  email: string;
+  cookieCount: number;
+  cookieNames: string[];
+  hasPassword: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccountInput {
+  platform: AccountPlatform;
+  email: string;
+  label?: string;
+  password?: string;
+  cookies?: LoginCredentials['cookies'];
+}
+
+export class AccountNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Account not found: ${id}`);
+    this.name = 'AccountNotFoundError';
+  }
+}
+
+const accounts = new JsonCollection<StoredAccount>('accounts');
+
+function getVaultKey(): Buffer {
+  const raw = process.env.ACCOUNT_VAULT_KEY;
+  if (!raw) {
+    throw new Error('ACCOUNT_VAULT_KEY is not configured - account storage is unavailable');
+  }
+  if (/^[0-9a-fA-F]{64}$/.test(raw)) {
+    return Buffer.from(raw, 'hex');
+  }
+  const decoded = Buffer.from(raw, 'base64');
+  if (decoded.length === 32) {
+    return decoded;
+  }
+  return createHash('sha256').update(raw).digest();
+}
+
+function encrypt(value: object): EncryptedBlob {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getVaultKey(), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt<T>(blob: EncryptedBlob): T {
+  const decipher = createDecipheriv('aes-256-gcm', getVaultKey(), Buffer.from(blob.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(blob.tag, 'base64'));
+  const data = Buffer.concat([decipher.update(Buffer.from(blob.data, 'base64')), decipher.final()]);
+  return JSON.parse(data.toString('utf-8'));
+}
+
+/**
+ * Whether ACCOUNT_VAULT_KEY is configured
+ */
+export function isVaultConfigured(): boolean {
+  return !!process.env.ACCOUNT_VAULT_KEY;
+}
+
+/**
+ * Encrypt secrets kept outside the account store (e.g. inline job credentials) with the vault key
+ */
+export function sealSecrets(value: object): EncryptedBlob {
+  return encrypt(value);
+}
+
+/**
+ * Decrypt secrets sealed with sealSecrets()
+ */
+export function openSecrets<T>(blob: EncryptedBlob): T {
+  return decrypt<T>(blob);
+}
+
+function toPublicAccount(account: StoredAccount): PublicAccount {
+  return {
+    id: account.id,
+    platform: account.platform,
+    label: account.label,
+    email: account.email,
+    cookieCount: account.cookieNames.length,
+    cookieNames: account.cookieNames,
+    hasPassword: account.hasPassword,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+  };
+}
+
+function getOwnedAccount(id: string, client?: string): StoredAccount {
+  const account = accounts.get(id);
+  if (!account || (client && account.client !== client)) {
+    throw new AccountNotFoundError(id);
+  }
+  return account;
+}
+
+/**
+ * Store a new account
+ */
+export function createAccount(input: AccountInput, client?: string): PublicAccount {
+  const now = new Date().toISOString();
+  const account: StoredAccount = {
+    id: randomUUID(),
+    client,
+    platform: input.platform,
+    label: input.label,
+    email: input.email,
+    secrets: encrypt({ password: input.password, cookies: input.cookies }),
+    cookieNames: (input.cookies || []).map(cookie => cookie.name),
+    hasPassword: !!input.password,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  accounts.upsert(account);
+  console.log(`🔐 Account stored: ${account.id} (${account.platform}, ${account.cookieNames.length} cookies)`);
+
+  return toPublicAccount(account);
+}
+
+/**
+ * List accounts owned by a client
+ */
+export function listAccounts(client?: string, platform?: AccountPlatform): PublicAccount[] {
+  return accounts
+    .list()
+    .filter(account => !client || account.client === client)
+    .filter(account => !platform || account.platform === platform)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toPublicAccount);
+}
+
+/**
+ * Get one account (without secrets)
+ */
+export function getAccount(id: string, client?: string): PublicAccount {
+  return toPublicAccount(getOwnedAccount(id, client));
+}
+
+/**
+ * Update label, email or secrets - omitted fields keep their stored values
+ */
+export function updateAccount(
+  id: string,
+  changes: Partial<Omit<AccountInput, 'platform'>>,
+  client?: string
+): PublicAccount {
+  const account = getOwnedAccount(id, client);
+  const secrets = decrypt<{ password?: string; cookies?: LoginCredentials['cookies'] }>(account.secrets);
+
+  const password = changes.password !== undefined ? changes.password : secrets.password;
+  const cookies = changes.cookies !== undefined ? changes.cookies : secrets.cookies;
+
+  const updated: StoredAccount = {
+    ...account,
+    label: changes.label !== undefined ? changes.label : account.label,
+    email: changes.email !== undefined ? changes.email : account.email,
+    secrets: encrypt({ password, cookies }),
+    cookieNames: (cookies || []).map(cookie => cookie.name),
+    hasPassword: !!password,
+    updatedAt: new Date().toISOString(),
+  };
+
+  accounts.upsert(updated);
+  console.log(`🔐 Account updated: ${id}`);
+
+  return toPublicAccount(updated);
+}
+
+/**
+ * Delete an account and its stored secrets
+ */
+export function deleteAccount(id: string, client?: string): void {
+  getOwnedAccount(id, client);
+  accounts.remove(id);
+  console.log(`🔐 Account deleted: ${id}`);
+}
+
+/**
+ * Decrypt the login credentials for an account
+ * Throws if the account does not exist, belongs to another client or is for another platform
+ */
+export function getAccountCredentials(id: string, platform: AccountPlatform, client?: string): LoginCredentials {
+  const account = getOwnedAccount(id, client);
+  if (account.platform !== platform) {
+    throw new Error(`Account ${id} is a ${account.platform} account, not ${platform}`);
+  }
+
+  const secrets = decrypt<{ password?: string; cookies?: LoginCredentials['cookies'] }>(account.secrets);
+  return {
+    email: account.email,
+    password: secrets.password,
+    cookies: secrets.cookies,
+  };
+}
+
+/**
+ * Validate the shape of account input from a request body
+ * Returns an error message, or null when valid
+ */
+export function validateAccountInput(body: any, partial: boolean = false): string | null {
+  if (!partial) {
+    if (!ACCOUNT_PLATFORMS.includes(body.platform)) {
+      return `platform must be one of: ${ACCOUNT_PLATFORMS.join(', ')}`;
+    }
+    if (!body.email) {
+      return 'email is required';
+    }
+    if (!body.cookies && !body.password) {
+      return 'Either cookies or password is required';
+    }
+  }
+  if (body.cookies !== undefined) {
+    if (!Array.isArray(body.cookies) || body.cookies.some((cookie: any) => !cookie || !cookie.name || typeof cookie.value !== 'string')) {
+      return 'cookies must be an array of { name, value } objects';
+    }
+  }
+  if (body.password !== undefined && typeof body.password !== 'string') {
+    return 'password must be a string';
+  }
+  return null;
+}
+
+/**
+ * Resolve login credentials from a request body or job payload:
+ * a stored account (`accountId`) or inline `email` + `cookies`
+ * Returns null when neither is present
+ */
+export function resolveCredentials(
+  source: { accountId?: string; email?: string; cookies?: LoginCredentials['cookies'] },
+  platform: AccountPlatform,
+  client?: string
+): LoginCredentials | null {
+  if (source.accountId) {
+    return getAccountCredentials(source.accountId, platform, client);
+  }
+  if (source.email && source.cookies) {
+    return { email: source.email, cookies: source.cookies };
+  }
+  return null;
+}
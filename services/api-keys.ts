@@ -0,0 +1,162 @@
+/**
+ * API Key Service
+ * Loads client API keys from config and checks route access and rate limits
+ *
+ * Keys are read from (first match wins):
+ *   API_KEYS_FILE - path to a JSON file with an array of ApiKeyConfig
+ *   API_KEYS      - the same JSON array inline
+ *   API_KEY       - a single key with access to every route (name "default")
+ */
+
+import * as fs from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  // Allowed route patterns relative to the root, e.g. "quora/*", "medium/publish", "*"
+  // Omit to allow every protected route
+  routes?: string[];
+  // Optional per-key fixed-window rate limit
+  rateLimit?: { max: number; windowMs: number };
+}
+
+export interface ApiClient {
+  name: string;
+  routes: string[];
+  rateLimit?: { max: number; windowMs: number };
+}
+
+interface LoadedKey {
+  client: ApiClient;
+  keyHash: Buffer;
+}
+
+let loadedKeys: LoadedKey[] | null = null;
+const rateWindows = new Map<string, { windowStart: number; count: number }>();
+
+function hashKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+function readKeyConfigs(): ApiKeyConfig[] {
+  if (process.env.API_KEYS_FILE) {
+    return JSON.parse(fs.readFileSync(process.env.API_KEYS_FILE, 'utf-8'));
+  }
+  if (process.env.API_KEYS) {
+    return JSON.parse(process.env.API_KEYS);
+  }
+  if (process.env.API_KEY) {
+    return [{ name: 'default', key: process.env.API_KEY, routes: ['*'] }];
+  }
+  return [];
+}
+
+/**
+ * Load and validate configured keys (cached after first call)
+ */
+export function loadApiKeys(): ApiClient[] {
+  if (!loadedKeys) {
+    const configs = readKeyConfigs();
+    const names = new Set<string>();
+
+    loadedKeys = configs.map((config, index) => {
+      if (!config || typeof config.name !== 'string' || !config.name) {
+        throw new Error(`API key #${index + 1} is missing a name`);
+      }
+      if (typeof config.key !== 'string' || config.key.length < 16) {
+        throw new Error(`API key "${config.name}" must be a string of at least 16 characters`);
+      }
+      if (names.has(config.name)) {
+        throw new Error(`Duplicate API key name: ${config.name}`);
+      }
+      if (config.rateLimit && (!(config.rateLimit.max > 0) || !(config.rateLimit.windowMs > 0))) {
+        throw new Error(`API key "${config.name}" has an invalid rateLimit (max and windowMs must be positive)`);
+      }
+      names.add(config.name);
+
+      return {
+        client: {
+          name: config.name,
+          routes: config.routes && config.routes.length > 0 ? config.routes : ['*'],
+          rateLimit: config.rateLimit,
+        },
+        keyHash: hashKey(config.key),
+      };
+    });
+  }
+
+  return loadedKeys.map(entry => entry.client);
+}
+
+/**
+ * Whether authentication is explicitly switched off (local development only)
+ */
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true';
+}
+
+/**
+ * Find the client that owns the presented key (constant-time comparison)
+ */
+export function findClientByKey(key: string): ApiClient | undefined {
+  loadApiKeys();
+  const presented = hashKey(key);
+  let match: ApiClient | undefined;
+
+  for (const entry of loadedKeys!) {
+    if (timingSafeEqual(entry.keyHash, presented)) {
+      match = entry.client;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Check a route path (e.g. "/quora/publish") against the client's allowed patterns
+ */
+export function isRouteAllowed(client: ApiClient, routePath: string): boolean {
+  const normalized = routePath.replace(/^\/+|\/+$/g, '');
+
+  return client.routes.some(pattern => {
+    const p = pattern.replace(/^\/+|\/+$/g, '');
+    if (p === '*') {
+      return true;
+    }
+    if (p.endsWith('/*')) {
+      const prefix = p.slice(0, -2);
+      return normalized === prefix || normalized.startsWith(`${prefix}/`);
+    }
+    return normalized === p;
+  });
+}
+
+/**
+ * Count a request against the client's rate limit
+ * Returns the seconds until the window resets when the limit is exceeded
+ */
+export function consumeRateLimit(client: ApiClient): { allowed: boolean; retryAfterSeconds?: number } {
+  if (!client.rateLimit) {
+    return { allowed: true };
+  }
+
+  const now = Date.now();
+  const { max, windowMs } = client.rateLimit;
+  let window = rateWindows.get(client.name);
+
+  if (!window || now - window.windowStart >= windowMs) {
+    window = { windowStart: now, count: 0 };
+    rateWindows.set(client.name, window);
+  }
+
+  if (window.count >= max) {
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.ceil((window.windowStart + windowMs - now) / 1000),
+    };
+  }
+
+  window.count++;
+  return { allowed: true };
+}
@@ -0,0 +1,291 @@
+/**
+ * Failure Artifact Store
+ * Saves debugging material from failed Selenium flows to local disk so it can be
+ * fetched later instead of being returned inline:
+ *   - screenshot (PNG)
+ *   - page source (HTML)
+ *   - browser console log (JSON)
+ *   - element dump from findAllElementsWithTimeout (JSON)
+ *
+ * A flow creates an ArtifactRecorder, captures named steps as it goes (kept in memory)
+ * and calls save() only when it fails. Files live in <DATA_DIR>/artifacts/<id>/ and are
+ * deleted after ARTIFACT_RETENTION_HOURS (default 72)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { JsonCollection, getDataDir } from './json-store';
+import { SeleniumBaseService } from './selenium-base';
+
+export type ArtifactKind = 'screenshot' | 'page-source' | 'console-log' | 'elements';
+
+export interface ArtifactFile {
+  name: string; // File name within the artifact, e.g. '02-failure.png'
+  step: string; // Step it was captured at, e.g. 'editor-not-found', 'failure'
+  kind: ArtifactKind;
+  contentType: string;
+  size: number;
+  capturedAt: string;
+}
+
+export interface Artifact {
+  id: string;
+  client?: string; // API client that ran the flow (set once the job is known)
+  jobId?: string;
+  platform: string;
+  operation: string; // e.g. 'publish'
+  error?: string;
+  files: ArtifactFile[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Thrown when an artifact or one of its files does not exist (or has expired)
+ */
+export class ArtifactNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArtifactNotFoundError';
+  }
+}
+
+interface PendingFile {
+  step: string;
+  kind: ArtifactKind;
+  extension: string;
+  contentType: string;
+  data: Buffer;
+  capturedAt: string;
+}
+
+const CONTENT_TYPES: Record<ArtifactKind, { extension: string; contentType: string }> = {
+  'screenshot': { extension: '.png', contentType: 'image/png' },
+  'page-source': { extension: '.html', contentType: 'text/html; charset=utf-8' },
+  'console-log': { extension: '-console.json', contentType: 'application/json' },
+  'elements': { extension: '-elements.json', contentType: 'application/json' },
+};
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const ELEMENT_DUMP_TIMEOUT_MS = 3000;
+
+const artifacts = new JsonCollection<Artifact>('artifacts');
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+function getRetentionMs(): number {
+  const value = parseFloat(process.env.ARTIFACT_RETENTION_HOURS || '72');
+  return (Number.isFinite(value) && value > 0 ? value : 72) * 60 * 60 * 1000;
+}
+
+function getArtifactsDir(): string {
+  return path.join(getDataDir(), 'artifacts');
+}
+
+/**
+ * Turn a step label into a safe file name part
+ */
+function slugifyStep(step: string): string {
+  return step.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'step';
+}
+
+/**
+ * Collects debugging material for one flow run
+ * Capturing never throws - whatever cannot be collected is skipped
+ */
+export class ArtifactRecorder {
+  private pending: PendingFile[] = [];
+
+  constructor(private platform: string, private operation: string) {}
+
+  /**
+   * Whether anything has been captured
+   */
+  get isEmpty(): boolean {
+    return this.pending.length === 0;
+  }
+
+  private add(step: string, kind: ArtifactKind, data: Buffer): void {
+    this.pending.push({
+      step,
+      kind,
+      ...CONTENT_TYPES[kind],
+      data,
+      capturedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Keep an element dump produced by findAllElementsWithTimeout
+   */
+  addElementDump(step: string, dump: object): void {
+    this.add(step, 'elements', Buffer.from(JSON.stringify(dump, null, 2)));
+  }
+
+  /**
+   * Capture the screenshot, page source and console log of the current page
+   * With `elements: true` an element dump is taken as well (adds a few seconds)
+   */
+  async capture(service: SeleniumBaseService | null, step: string, options: { elements?: boolean } = {}): Promise<void> {
+    if (!service) {
+      return;
+    }
+
+    try {
+      this.add(step, 'screenshot', Buffer.from(await service.takeScreenshot(), 'base64'));
+    } catch (error: any) {
+      console.error(`Failed to take screenshot (${step}):`, error.message);
+    }
+
+    try {
+      this.add(step, 'page-source', Buffer.from(await service.getPageSource()));
+    } catch (error: any) {
+      console.error(`Failed to get page source (${step}):`, error.message);
+    }
+
+    try {
+      this.add(step, 'console-log', Buffer.from(JSON.stringify(await service.getBrowserLogs(), null, 2)));
+    } catch (error: any) {
+      console.error(`Failed to get browser console log (${step}):`, error.message);
+    }
+
+    if (options.elements) {
+      try {
+        this.addElementDump(step, await service.findAllElementsWithTimeout({ timeout: ELEMENT_DUMP_TIMEOUT_MS }));
+      } catch (error: any) {
+        console.error(`Failed to dump page elements (${step}):`, error.message);
+      }
+    }
+
+    console.log(`📸 Captured debugging artifacts: ${step}`);
+  }
+
+  /**
+   * Write everything captured so far to disk
+   * Returns the artifact ID, or undefined when nothing was captured or writing failed
+   */
+  save(error?: string): string | undefined {
+    if (this.isEmpty) {
+      return undefined;
+    }
+
+    const id = randomUUID();
+    const dir = path.join(getArtifactsDir(), id);
+
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+
+      const files: ArtifactFile[] = this.pending.map((file, index) => {
+        const name = `${String(index + 1).padStart(2, '0')}-${slugifyStep(file.step)}${file.extension}`;
+        fs.writeFileSync(path.join(dir, name), file.data);
+        return {
+          name,
+          step: file.step,
+          kind: file.kind,
+          contentType: file.contentType,
+          size: file.data.length,
+          capturedAt: file.capturedAt,
+        };
+      });
+
+      const now = Date.now();
+      artifacts.upsert({
+        id,
+        platform: this.platform,
+        operation: this.operation,
+        error,
+        files,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + getRetentionMs()).toISOString(),
+      });
+      this.pending = [];
+
+      console.log(`🗂️ Failure artifacts saved: ${id} (${files.length} file(s))`);
+      return id;
+    } catch (saveError: any) {
+      console.error('❌ Failed to save failure artifacts:', saveError.message);
+      fs.rmSync(dir, { recursive: true, force: true });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Record which client and job an artifact belongs to (used for access checks)
+ */
+export function assignArtifact(id: string, owner: { client?: string; jobId?: string }): void {
+  const artifact = artifacts.get(id);
+  if (artifact) {
+    artifacts.upsert({ ...artifact, ...owner });
+  }
+}
+
+function isExpired(artifact: Artifact, now: number = Date.now()): boolean {
+  return new Date(artifact.expiresAt).getTime() <= now;
+}
+
+/**
+ * Get an artifact's metadata (clients only see their own artifacts)
+ */
+export function getArtifact(id: string, client?: string): Artifact {
+  const artifact = artifacts.get(id);
+  if (!artifact || isExpired(artifact) || (client && artifact.client !== client)) {
+    throw new ArtifactNotFoundError(`Artifact not found: ${id}`);
+  }
+  return artifact;
+}
+
+/**
+ * Resolve one file of an artifact to its path on disk
+ */
+export function getArtifactFile(id: string, name: string, client?: string): { file: ArtifactFile; filePath: string } {
+  const artifact = getArtifact(id, client);
+  // Only names listed in the record are served, so `name` can never escape the artifact directory
+  const file = artifact.files.find(candidate => candidate.name === name);
+  const filePath = file ? path.join(getArtifactsDir(), artifact.id, file.name) : '';
+
+  if (!file || !fs.existsSync(filePath)) {
+    throw new ArtifactNotFoundError(`Artifact file not found: ${id}/${name}`);
+  }
+  return { file, filePath };
+}
+
+/**
+ * Delete expired artifacts and their files
+ */
+export function removeExpiredArtifacts(): number {
+  const now = Date.now();
+  let removed = 0;
+
+  for (const artifact of artifacts.list()) {
+    if (!isExpired(artifact, now)) {
+      continue;
+    }
+    try {
+      fs.rmSync(path.join(getArtifactsDir(), artifact.id), { recursive: true, force: true });
+      artifacts.remove(artifact.id);
+      removed++;
+    } catch (error: any) {
+      console.error(`⚠️ Failed to remove artifact ${artifact.id}:`, error.message);
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`🧹 Removed ${removed} expired artifact(s)`);
+  }
+  return removed;
+}
+
+/**
+ * Start the hourly retention cleanup (also runs once right away)
+ */
+export function startArtifactCleanup(): void {
+  if (cleanupTimer) {
+    return;
+  }
+
+  cleanupTimer = setInterval(removeExpiredArtifacts, CLEANUP_INTERVAL_MS);
+  cleanupTimer.unref();
+  removeExpiredArtifacts();
+}
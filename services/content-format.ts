@@ -0,0 +1,142 @@
+/**
+ * Content Format Service
+ * Converts publish content (Markdown, HTML or plain text) into HTML that the
+ * platform editor flows can turn into native formatting
+ */
+
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import { ContentFormat, PublishContent } from './selenium-base';
+
+export const CONTENT_FORMATS: ContentFormat[] = ['markdown', 'html', 'plain'];
+
+/**
+ * Format of the content, defaulting to plain text for older callers
+ */
+export function getContentFormat(content: PublishContent): ContentFormat {
+  return content.format || 'plain';
+}
+
+/**
+ * Validate `content.format` from a request body
+ * Returns an error message, or null when valid
+ */
+export function validateContentFormat(content: any): string | null {
+  if (content.format !== undefined && !CONTENT_FORMATS.includes(content.format)) {
+    return `content.format must be one of: ${CONTENT_FORMATS.join(', ')}`;
+  }
+  return null;
+}
+
+// Dropped entirely, including their text
+const NON_TEXT_TAGS = ['script', 'style', 'textarea', 'option', 'noscript', 'iframe', 'object', 'embed', 'svg', 'math', 'title', 'head'];
+
+// Subset of HTML that Quora's editor keeps; everything else is unwrapped or dropped
+const QUORA_SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ['p', 'br', 'strong', 'em', 'ul', 'ol', 'li', 'a', 'code', 'pre', 'blockquote'],
+  allowedAttributes: {
+    a: ['href', 'rel', 'target'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowProtocolRelative: false,
+  nonTextTags: NON_TEXT_TAGS,
+  transformTags: {
+    b: 'strong',
+    i: 'em',
+    // Quora answers have no headings - keep them as bold paragraphs
+    h1: 'p',
+    h2: 'p',
+    h3: 'p',
+    h4: 'p',
+    h5: 'p',
+    h6: 'p',
+    div: 'p',
+    a: (tagName, attribs) => ({
+      tagName: 'a',
+      attribs: { href: (attribs.href || '').trim(), rel: 'noopener nofollow', target: '_blank' },
+    }),
+  },
+  // allowedSchemes strips unsupported hrefs - those links keep their text but lose the link
+  exclusiveFilter: frame => (frame.tag === 'a' && !frame.attribs.href ? 'excludeTag' : false),
+};
+
+// Blocks and inline markup that Medium's story editor has grafs/markups for
+const MEDIUM_SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ['h3', 'h4', 'p', 'br', 'hr', 'strong', 'em', 'ul', 'ol', 'li', 'a', 'code', 'pre', 'blockquote'],
+  allowedAttributes: {
+    a: ['href'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowProtocolRelative: false,
+  nonTextTags: NON_TEXT_TAGS,
+  transformTags: {
+    b: 'strong',
+    i: 'em',
+    // Medium stories have two heading sizes
+    h1: 'h3',
+    h2: 'h3',
+    h5: 'h4',
+    h6: 'h4',
+    div: 'p',
+    a: (tagName, attribs) => ({
+      tagName: 'a',
+      attribs: { href: (attribs.href || '').trim() },
+    }),
+  },
+  exclusiveFilter: frame => (frame.tag === 'a' && !frame.attribs.href ? 'excludeTag' : false),
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render content as HTML
+ * - markdown: converted with GitHub-flavored Markdown rules
+ * - html: returned as-is - use renderQuoraHtml/renderMediumHtml before filling an editor
+ * - plain: blank-line separated paragraphs, single newlines become <br>
+ */
+export function renderContentHtml(content: PublishContent): string {
+  switch (getContentFormat(content)) {
+    case 'markdown':
+      return marked.parse(content.content, { async: false, gfm: true, breaks: false }) as string;
+    case 'html':
+      return content.content;
+    case 'plain':
+    default:
+      return content.content
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(paragraph => paragraph.length > 0)
+        .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+        .join('\n');
+  }
+}
+
+/**
+ * Render content as sanitized HTML for Quora's answer and post editors
+ * Only paragraphs, line breaks, bold, italics, lists, links (http/https/mailto),
+ * inline code, code blocks and quotes survive; other tags are unwrapped and
+ * scripts, styles, event handlers and inline styles are removed
+ */
+export function renderQuoraHtml(content: PublishContent): string {
+  const html = renderContentHtml(content)
+    // Headings become paragraphs, so keep them visually distinct
+    .replace(/<h([1-6])(\s[^>]*)?>([\s\S]*?)<\/h\1>/gi, '<h$1$2><strong>$3</strong></h$1>');
+
+  return sanitizeHtml(html, QUORA_SANITIZE_OPTIONS).trim();
+}
+
+/**
+ * Render content as sanitized HTML for Medium's story editor
+ * h1/h2 become large and h3-h6 small headings; paragraphs, line breaks, bold,
+ * italics, lists, links (http/https/mailto), inline code, code blocks and quotes
+ * are kept, other tags are unwrapped and scripts and styles are removed with their text
+ */
+export function renderMediumHtml(content: PublishContent): string {
+  return sanitizeHtml(renderContentHtml(content), MEDIUM_SANITIZE_OPTIONS).trim();
+}
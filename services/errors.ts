@@ -0,0 +1,184 @@
+/**
+ * Crawler Error Taxonomy
+ * Typed errors with stable codes, an HTTP status and a `retryable` hint, thrown by
+ * SeleniumBaseService and the platform services so clients can react without
+ * parsing free-text messages
+ * Platform credential problems never use 401, which is reserved for the service's own
+ * API key (middleware/auth.ts)
+ */
+
+export type CrawlerErrorCode =
+  | 'AUTH_EXPIRED' // Cookies/password rejected or expired - refresh credentials
+  | 'INVALID_CREDENTIALS' // Cookies/password malformed (e.g. no usable cookie) - fix the request
+  | 'CAPTCHA_REQUIRED' // Platform asked for a CAPTCHA or 2FA - needs a human
+  | 'SELECTOR_NOT_FOUND' // Expected page element missing - page layout may have changed
+  | 'PUBLISHED_AS_DRAFT' // Content was saved but not published
+  | 'DRIVER_UNAVAILABLE' // Browser/WebDriver could not be started or reached
+  | 'NAVIGATION_TIMEOUT' // Page or redirect did not load in time
+  | 'CONTENT_REJECTED' // Platform refused the content (invalid, disabled post button, ...)
+  | 'STILL_PUBLIC' // Content was removed but its public URL still serves it
+  | 'EDIT_NOT_LIVE' // Edit was saved but the public page does not show it yet
+  | 'INTERNAL_ERROR'; // Anything unclassified
+
+interface ErrorCodeInfo {
+  httpStatus: number;
+  retryable: boolean;
+}
+
+export const ERROR_CODES: Record<CrawlerErrorCode, ErrorCodeInfo> = {
+  AUTH_EXPIRED: { httpStatus: 422, retryable: false },
+  INVALID_CREDENTIALS: { httpStatus: 422, retryable: false },
+  CAPTCHA_REQUIRED: { httpStatus: 403, retryable: false },
+  SELECTOR_NOT_FOUND: { httpStatus: 502, retryable: true },
+  PUBLISHED_AS_DRAFT: { httpStatus: 409, retryable: false },
+  DRIVER_UNAVAILABLE: { httpStatus: 503, retryable: true },
+  NAVIGATION_TIMEOUT: { httpStatus: 504, retryable: true },
+  CONTENT_REJECTED: { httpStatus: 422, retryable: false },
+  STILL_PUBLIC: { httpStatus: 409, retryable: true },
+  EDIT_NOT_LIVE: { httpStatus: 409, retryable: true },
+  INTERNAL_ERROR: { httpStatus: 500, retryable: false },
+};
+
+/**
+ * Base class for all typed crawler errors
+ */
+export class CrawlerError extends Error {
+  readonly httpStatus: number;
+  readonly retryable: boolean;
+
+  constructor(readonly code: CrawlerErrorCode, message: string) {
+    super(message);
+    this.name = 'CrawlerError';
+    this.httpStatus = ERROR_CODES[code].httpStatus;
+    this.retryable = ERROR_CODES[code].retryable;
+  }
+}
+
+export class AuthExpiredError extends CrawlerError {
+  constructor(message: string) {
+    super('AUTH_EXPIRED', message);
+    this.name = 'AuthExpiredError';
+  }
+}
+
+export class InvalidCredentialsError extends CrawlerError {
+  constructor(message: string) {
+    super('INVALID_CREDENTIALS', message);
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+export class CaptchaRequiredError extends CrawlerError {
+  constructor(message: string) {
+    super('CAPTCHA_REQUIRED', message);
+    this.name = 'CaptchaRequiredError';
+  }
+}
+
+export class SelectorNotFoundError extends CrawlerError {
+  constructor(message: string) {
+    super('SELECTOR_NOT_FOUND', message);
+    this.name = 'SelectorNotFoundError';
+  }
+}
+
+export class PublishedAsDraftError extends CrawlerError {
+  constructor(message: string) {
+    super('PUBLISHED_AS_DRAFT', message);
+    this.name = 'PublishedAsDraftError';
+  }
+}
+
+export class DriverUnavailableError extends CrawlerError {
+  constructor(message: string) {
+    super('DRIVER_UNAVAILABLE', message);
+    this.name = 'DriverUnavailableError';
+  }
+}
+
+export class NavigationTimeoutError extends CrawlerError {
+  constructor(message: string) {
+    super('NAVIGATION_TIMEOUT', message);
+    this.name = 'NavigationTimeoutError';
+  }
+}
+
+export class ContentRejectedError extends CrawlerError {
+  constructor(message: string) {
+    super('CONTENT_REJECTED', message);
+    this.name = 'ContentRejectedError';
+  }
+}
+
+export class StillPublicError extends CrawlerError {
+  constructor(message: string) {
+    super('STILL_PUBLIC', message);
+    this.name = 'StillPublicError';
+  }
+}
+
+export class EditNotLiveError extends CrawlerError {
+  constructor(message: string) {
+    super('EDIT_NOT_LIVE', message);
+    this.name = 'EditNotLiveError';
+  }
+}
+
+/**
+ * Error fields included in results and responses
+ */
+export interface ErrorInfo {
+  error: string;
+  errorCode: CrawlerErrorCode;
+  retryable: boolean;
+}
+
+/**
+ * Whether a raw Selenium error is a wait/page-load timeout
+ */
+export function isSeleniumTimeout(error: any): boolean {
+  return error?.name === 'TimeoutError' || error?.name === 'ScriptTimeoutError';
+}
+
+/**
+ * Classify any thrown value into a code (typed errors keep theirs; raw WebDriver
+ * errors are mapped by name), falling back to INTERNAL_ERROR
+ */
+export function getErrorCode(error: any): CrawlerErrorCode {
+  if (error instanceof CrawlerError) {
+    return error.code;
+  }
+  switch (error?.name) {
+    case 'NoSuchElementError':
+    case 'StaleElementReferenceError':
+    case 'ElementNotInteractableError':
+      return 'SELECTOR_NOT_FOUND';
+    case 'TimeoutError':
+      return 'NAVIGATION_TIMEOUT';
+    case 'NoSuchSessionError':
+    case 'SessionNotCreatedError':
+    case 'WebDriverError':
+      return 'DRIVER_UNAVAILABLE';
+    default:
+      return 'INTERNAL_ERROR';
+  }
+}
+
+/**
+ * Error fields for a result object ({ success: false, ...describeError(error) })
+ */
+export function describeError(error: any, fallbackMessage: string = 'Internal server error'): ErrorInfo {
+  const errorCode = getErrorCode(error);
+  return {
+    error: error?.message || fallbackMessage,
+    errorCode,
+    retryable: ERROR_CODES[errorCode].retryable,
+  };
+}
+
+/**
+ * HTTP status for an error code (500 when unknown or missing)
+ */
+export function getErrorHttpStatus(code?: CrawlerErrorCode): number {
+  return code && ERROR_CODES[code] ? ERROR_CODES[code].httpStatus : 500;
+}
@@ -0,0 +1,143 @@
+/**
+ * Idempotency Service
+ * Maps client-supplied idempotency keys to publish jobs so retried requests
+ * return the original job instead of publishing the same content twice
+ */
+
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { JsonCollection } from './json-store';
+import { enqueueJob, getJob, Job } from './job-queue';
+
+export interface IdempotencyRecord {
+  id: string; // `${client}:${scope}:${key}`
+  client?: string;
+  scope: string;
+  key: string;
+  fingerprint: string;
+  jobId: string;
+  createdAt: string;
+}
+
+export type IdempotentEnqueueResult<TPayload> =
+  | { status: 'created'; job: Job<TPayload> }
+  | { status: 'replayed'; job: Job<TPayload> }
+  | { status: 'conflict'; error: string };
+
+// Fields left out of the fingerprint: credentials may be refreshed between retries
+const FINGERPRINT_EXCLUDED_FIELDS = ['cookies', 'password'];
+
+const MAX_KEY_LENGTH = 255;
+
+const records = new JsonCollection<IdempotencyRecord>('idempotency-keys');
+
+function getTtlMs(): number {
+  const hours = parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '168', 10);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 168) * 60 * 60 * 1000;
+}
+
+/**
+ * Read the idempotency key from the `Idempotency-Key` header or `idempotencyKey` body field
+ * Throws if the key is not a usable string
+ */
+export function getIdempotencyKey(req: Request): string | undefined {
+  const key = req.get('Idempotency-Key') ?? req.body?.idempotencyKey;
+
+  if (key === undefined || key === null || key === '') {
+    return undefined;
+  }
+  if (typeof key !== 'string' || key.length > MAX_KEY_LENGTH) {
+    throw new Error(`Idempotency key must be a string of at most ${MAX_KEY_LENGTH} characters`);
+  }
+
+  return key;
+}
+
+/**
+ * Stable hash of the request payload (object keys sorted, credentials excluded)
+ */
+export function fingerprintPayload(payload: Record<string, any>): string {
+  const filtered: Record<string, any> = {};
+  for (const [field, value] of Object.entries(payload)) {
+    if (!FINGERPRINT_EXCLUDED_FIELDS.includes(field)) {
+      filtered[field] = value;
+    }
+  }
+  return createHash('sha256').update(stableStringify(filtered)).digest('hex');
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Enqueue a job unless the same idempotency key was already used in this scope
+ * - Same key + same payload: returns the existing job (queued, running or finished)
+ * - Same key + different payload: returns a conflict, nothing is enqueued
+ * - No key: always enqueues
+ * Keys are scoped per API client, so two clients can use the same key independently
+ * The scheduled run time (`runAt`) and `callbackUrl` are part of the fingerprint
+ */
+export function enqueueIdempotentJob<TPayload extends Record<string, any>>(
+  scope: string,
+  key: string | undefined,
+  payload: TPayload,
+  options: { client?: string; runAt?: Date; callbackUrl?: string } = {}
+): IdempotentEnqueueResult<TPayload> {
+  const { client, runAt, callbackUrl } = options;
+
+  if (!key) {
+    return { status: 'created', job: enqueueJob(scope, payload, { client, runAt, callbackUrl }) };
+  }
+
+  pruneExpiredRecords();
+
+  const id = `${client || ''}:${scope}:${key}`;
+  const fingerprint = fingerprintPayload({ ...payload, runAt: runAt?.toISOString(), callbackUrl });
+  const existing = records.get(id);
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      console.warn(`⚠️ Idempotency key reused with a different payload: ${key} (${scope})`);
+      return {
+        status: 'conflict',
+        error: 'Idempotency key was already used with a different request payload',
+      };
+    }
+
+    const job = getJob(existing.jobId);
+    if (job) {
+      console.log(`🔁 Idempotent replay: ${key} -> job ${job.id} (${job.status})`);
+      return { status: 'replayed', job };
+    }
+  }
+
+  const job = enqueueJob(scope, payload, { client, runAt, callbackUrl });
+  records.upsert({
+    id,
+    client,
+    scope,
+    key,
+    fingerprint,
+    jobId: job.id,
+    createdAt: new Date().toISOString(),
+  });
+
+  return { status: 'created', job };
+}
+
+function pruneExpiredRecords(): void {
+  const cutoff = Date.now() - getTtlMs();
+  for (const record of records.list()) {
+    if (new Date(record.createdAt).getTime() < cutoff) {
+      records.remove(record.id);
+    }
+  }
+}
@@ -0,0 +1,519 @@
+/**
+ * Job Queue Service
+ * Runs long Selenium publish flows in the background so HTTP requests return immediately
+ * Jobs are persisted to disk and resumed after a process restart
+ *
+ * Jobs with a future `runAt` wait in the "scheduled" state until due. Scheduled jobs
+ * missed while the service was down still run after a restart if they are less than
+ * SCHEDULE_MISSED_GRACE_MINUTES (default 60) late; older ones are failed
+ *
+ * Inline credentials (cookies, password) are never stored in plaintext: they are kept
+ * encrypted with the account vault key (ACCOUNT_VAULT_KEY) until the job finishes and
+ * only decrypted to run it. Without a vault key they are only kept in memory, so jobs
+ * that carry them fail if the service restarts before they run
+ *
+ * Finished jobs are deleted JOB_RETENTION_DAYS (default 30) after they finish
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { JsonCollection } from './json-store';
+import { sendWebhook } from './webhooks';
+import { CrawlerErrorCode, describeError } from './errors';
+import { assignArtifact } from './artifacts';
+import { TimelineStep } from './selenium-base';
+import { EncryptedBlob, isVaultConfigured, openSecrets, sealSecrets } from './account-vault';
+
+export type JobStatus = 'scheduled' | 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<TPayload = any, TResult = any> {
+  id: string;
+  type: string;
+  client?: string; // Name of the API client that created the job
+  status: JobStatus;
+  payload: TPayload;
+  result?: TResult;
+  error?: string;
+  errorCode?: CrawlerErrorCode; // Set on failure (see services/errors.ts)
+  retryable?: boolean;
+  runAt?: string; // When a scheduled job becomes due
+  callbackUrl?: string; // Webhook notified when the job succeeds, fails or is cancelled
+  secretFields?: string[]; // Sensitive payload fields held back until the job runs
+  secrets?: EncryptedBlob; // Those fields, encrypted with the vault key
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Live job progress: status changes and step starts/ends reported by the handler
+ * Only delivered to subscribers in this process - not persisted
+ */
+export type JobEvent =
+  | { type: 'status'; job: Job }
+  | { type: 'step'; jobId: string; step: TimelineStep };
+
+/**
+ * Handler for a job type - resolves with the job result
+ * A result with `success: false` marks the job as failed
+ */
+export type JobHandler<TPayload = any, TResult = any> = (payload: TPayload, job: Job<TPayload, TResult>) => Promise<TResult>;
+
+// Payload fields that are only needed while the job runs and must not be kept or returned
+const SENSITIVE_PAYLOAD_FIELDS = ['cookies', 'password'];
+
+const SCHEDULE_CHECK_INTERVAL_MS = 15000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when an operation is not allowed in the job's current state
+ */
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+const jobs = new JsonCollection<Job>('jobs');
+const handlers = new Map<string, JobHandler>();
+const jobEvents = new EventEmitter();
+// One listener per open stream - no fixed limit
+jobEvents.setMaxListeners(0);
+
+// Sensitive fields of jobs queued without a vault key - lost when the process exits
+const memorySecrets = new Map<string, Record<string, any>>();
+
+let started = false;
+let runningCount = 0;
+let scheduleTimer: NodeJS.Timeout | null = null;
+let pruneTimer: NodeJS.Timeout | null = null;
+
+function getConcurrency(): number {
+  const value = parseInt(process.env.JOB_CONCURRENCY || '1', 10);
+  return Number.isFinite(value) && value > 0 ? value : 1;
+}
+
+function getMissedGraceMs(): number {
+  const value = parseInt(process.env.SCHEDULE_MISSED_GRACE_MINUTES || '60', 10);
+  return (Number.isFinite(value) && value >= 0 ? value : 60) * 60 * 1000;
+}
+
+function getRetentionDays(): number {
+  const value = parseInt(process.env.JOB_RETENTION_DAYS || '30', 10);
+  return Number.isFinite(value) && value > 0 ? value : 30;
+}
+
+/**
+ * Register the handler that executes jobs of the given type
+ */
+export function registerJobHandler<TPayload, TResult>(type: string, handler: JobHandler<TPayload, TResult>): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Add a job to the queue and return it immediately
+ * With a future `runAt` the job is scheduled and only queued once due
+ */
+export function enqueueJob<TPayload>(
+  type: string,
+  payload: TPayload,
+  options: { client?: string; runAt?: Date; callbackUrl?: string } = {}
+): Job<TPayload> {
+  if (!handlers.has(type)) {
+    throw new Error(`No job handler registered for type: ${type}`);
+  }
+
+  const scheduled = !!options.runAt && options.runAt.getTime() > Date.now();
+  const job = sealSensitiveFields<TPayload>({
+    id: randomUUID(),
+    type,
+    client: options.client,
+    status: scheduled ? 'scheduled' : 'queued',
+    payload,
+    runAt: options.runAt?.toISOString(),
+    callbackUrl: options.callbackUrl,
+    createdAt: new Date().toISOString(),
+  });
+
+  jobs.upsert(job);
+  if (scheduled) {
+    console.log(`🗓️ Job scheduled: ${job.id} (${type}) at ${job.runAt}`);
+  } else {
+    console.log(`📥 Job queued: ${job.id} (${type})`);
+  }
+  processQueue();
+
+  return job;
+}
+
+/**
+ * Whether a job has reached a final state
+ */
+export function isJobFinished(job: Job): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Report a step of a running job to its subscribers (called from job handlers)
+ */
+export function reportJobStep(jobId: string, step: TimelineStep): void {
+  jobEvents.emit(jobId, { type: 'step', jobId, step } as JobEvent);
+}
+
+/**
+ * Listen for a job's progress events - returns a function that unsubscribes
+ */
+export function subscribeToJob(jobId: string, listener: (event: JobEvent) => void): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+function emitStatus(job: Job): void {
+  jobEvents.emit(job.id, { type: 'status', job } as JobEvent);
+}
+
+/**
+ * Get a job by ID
+ */
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Cancel a job that has not started yet (scheduled or queued)
+ * Its callback webhook is sent with status 'cancelled'
+ */
+export function cancelJob(id: string): Job {
+  const job = jobs.get(id);
+  if (!job) {
+    throw new Error(`Job not found: ${id}`);
+  }
+  if (job.status !== 'scheduled' && job.status !== 'queued') {
+    throw new JobStateError(`Only scheduled or queued jobs can be cancelled (job is ${job.status})`);
+  }
+
+  const cancelled: Job = {
+    ...job,
+    status: 'cancelled',
+    ...discardSecrets(job),
+    finishedAt: new Date().toISOString(),
+  };
+  notifyFinished(jobs.upsert(cancelled));
+  console.log(`🚫 Job cancelled: ${job.id} (${job.type})`);
+
+  return cancelled;
+}
+
+/**
+ * Move a scheduled (or still queued) job to a new run time
+ */
+export function rescheduleJob(id: string, runAt: Date): Job {
+  const job = jobs.get(id);
+  if (!job) {
+    throw new Error(`Job not found: ${id}`);
+  }
+  if (job.status !== 'scheduled' && job.status !== 'queued') {
+    throw new JobStateError(`Only scheduled or queued jobs can be rescheduled (job is ${job.status})`);
+  }
+
+  const rescheduled: Job = {
+    ...job,
+    status: runAt.getTime() > Date.now() ? 'scheduled' : 'queued',
+    runAt: runAt.toISOString(),
+  };
+  jobs.upsert(rescheduled);
+  console.log(`🗓️ Job rescheduled: ${job.id} (${job.type}) to ${rescheduled.runAt}`);
+  processQueue();
+
+  return rescheduled;
+}
+
+/**
+ * List jobs, newest first
+ */
+export function listJobs(filter: { status?: JobStatus; type?: string; client?: string; limit?: number } = {}): Job[] {
+  let result = jobs.list();
+
+  if (filter.status) {
+    result = result.filter(job => job.status === filter.status);
+  }
+  if (filter.type) {
+    result = result.filter(job => job.type === filter.type);
+  }
+  if (filter.client) {
+    result = result.filter(job => job.client === filter.client);
+  }
+
+  result.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return filter.limit ? result.slice(0, filter.limit) : result;
+}
+
+/**
+ * Strip sensitive payload fields so a job can be returned to clients
+ */
+export function toPublicJob(job: Job): Job {
+  const { secretFields, secrets, ...publicJob } = job;
+  return {
+    ...publicJob,
+    payload: stripSensitiveFields(job.payload),
+  };
+}
+
+function stripSensitiveFields(payload: any): any {
+  if (!payload || typeof payload !== 'object') {
+    return payload;
+  }
+  const copy = { ...payload };
+  for (const field of SENSITIVE_PAYLOAD_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
+
+/**
+ * Move sensitive payload fields out of the payload: encrypted into `secrets` with the
+ * vault key, or into memory when no key is configured
+ */
+function sealSensitiveFields<TPayload>(job: Job<TPayload>): Job<TPayload> {
+  const payload: any = job.payload;
+  const secretFields = SENSITIVE_PAYLOAD_FIELDS.filter(field => payload?.[field] !== undefined);
+  if (secretFields.length === 0) {
+    return job;
+  }
+
+  const values: Record<string, any> = {};
+  for (const field of secretFields) {
+    values[field] = payload[field];
+  }
+
+  const sealed: Job<TPayload> = { ...job, payload: stripSensitiveFields(payload), secretFields };
+  if (isVaultConfigured()) {
+    sealed.secrets = sealSecrets(values);
+  } else {
+    memorySecrets.set(job.id, values);
+  }
+  return sealed;
+}
+
+/**
+ * The payload to run the job with, sensitive fields restored
+ */
+function openPayload(job: Job): any {
+  if (!job.secretFields?.length) {
+    return job.payload;
+  }
+
+  const values = job.secrets ? openSecrets<Record<string, any>>(job.secrets) : memorySecrets.get(job.id);
+  if (!values) {
+    throw new Error('Job credentials were only kept in memory and were lost in a service restart - send the request again (set ACCOUNT_VAULT_KEY or use an accountId to keep them across restarts)');
+  }
+  return { ...job.payload, ...values };
+}
+
+/**
+ * Fields that drop a finished job's sensitive payload fields and their encrypted copy
+ */
+function discardSecrets(job: Job): Pick<Job, 'payload' | 'secretFields' | 'secrets'> {
+  memorySecrets.delete(job.id);
+  return {
+    payload: stripSensitiveFields(job.payload),
+    secretFields: undefined,
+    secrets: undefined,
+  };
+}
+
+/**
+ * Start processing jobs
+ * Jobs left "running" by a previous process are failed rather than re-run,
+ * since the publish may already have gone through before the restart
+ */
+export function startJobQueue(): void {
+  if (started) {
+    return;
+  }
+  started = true;
+
+  for (const job of jobs.list()) {
+    // Jobs queued before credentials were kept encrypted
+    if (!isJobFinished(job) && SENSITIVE_PAYLOAD_FIELDS.some(field => job.payload?.[field] !== undefined)) {
+      jobs.upsert(sealSensitiveFields(job));
+    }
+
+    if (job.status === 'running') {
+      console.warn(`⚠️ Job ${job.id} was interrupted by a restart - marking as failed`);
+      notifyFinished(jobs.upsert({
+        ...job,
+        status: 'failed',
+        ...discardSecrets(job),
+        error: 'Job was interrupted by a service restart. Check the platform before retrying.',
+        finishedAt: new Date().toISOString(),
+      }));
+    }
+  }
+
+  // Scheduled jobs whose time passed while the service was down
+  const graceMs = getMissedGraceMs();
+  for (const job of listJobs({ status: 'scheduled' })) {
+    const lateMs = Date.now() - new Date(job.runAt!).getTime();
+    if (lateMs > graceMs) {
+      console.warn(`⚠️ Scheduled job ${job.id} missed its run time (${job.runAt}) - marking as failed`);
+      notifyFinished(jobs.upsert({
+        ...job,
+        status: 'failed',
+        ...discardSecrets(job),
+        error: `Missed scheduled time ${job.runAt} while the service was down. Reschedule by publishing again.`,
+        finishedAt: new Date().toISOString(),
+      }));
+    } else if (lateMs > 0) {
+      console.log(`🗓️ Scheduled job ${job.id} is ${Math.round(lateMs / 1000)}s late - running now`);
+    }
+  }
+
+  const queued = listJobs({ status: 'queued' }).length;
+  if (queued > 0) {
+    console.log(`📥 Resuming ${queued} queued job(s)`);
+  }
+
+  scheduleTimer = setInterval(processQueue, SCHEDULE_CHECK_INTERVAL_MS);
+  scheduleTimer.unref();
+  pruneTimer = setInterval(pruneFinishedJobs, PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+  pruneFinishedJobs();
+  processQueue();
+}
+
+/**
+ * Delete finished jobs past the retention window
+ */
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - getRetentionDays() * DAY_MS;
+  const expired = jobs
+    .list()
+    .filter(job => isJobFinished(job))
+    .filter(job => new Date(job.finishedAt || job.createdAt).getTime() < cutoff)
+    .map(job => job.id);
+
+  const removed = jobs.removeMany(expired);
+  if (removed > 0) {
+    console.log(`🧹 Pruned ${removed} finished job(s)`);
+  }
+}
+
+/**
+ * Move scheduled jobs that are due into the queue
+ */
+function promoteDueJobs(): void {
+  const now = Date.now();
+  for (const job of listJobs({ status: 'scheduled' })) {
+    if (new Date(job.runAt!).getTime() <= now) {
+      jobs.upsert({ ...job, status: 'queued' });
+      console.log(`⏰ Scheduled job due: ${job.id} (${job.type})`);
+    }
+  }
+}
+
+/**
+ * Pick up queued jobs (oldest first) while below the concurrency limit
+ */
+function processQueue(): void {
+  if (!started) {
+    return;
+  }
+
+  promoteDueJobs();
+
+  // Oldest first; jobs promoted from the schedule count from their run time
+  const queued = listJobs({ status: 'queued' })
+    .sort((a, b) => (a.runAt || a.createdAt).localeCompare(b.runAt || b.createdAt));
+  while (runningCount < getConcurrency() && queued.length > 0) {
+    const job = queued.shift()!;
+    runningCount++;
+    runJob(job).finally(() => {
+      runningCount--;
+      processQueue();
+    });
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers.get(job.type);
+  const running: Job = { ...job, status: 'running', startedAt: new Date().toISOString() };
+  jobs.upsert(running);
+  emitStatus(running);
+  console.log(`🏃 Job started: ${job.id} (${job.type})`);
+
+  try {
+    if (!handler) {
+      throw new Error(`No job handler registered for type: ${job.type}`);
+    }
+
+    const result = await handler(openPayload(job), running);
+    const succeeded = !(result && result.success === false);
+
+    // Failure artifacts are only served to the client that owns the job
+    if (result?.artifactId) {
+      assignArtifact(result.artifactId, { client: job.client, jobId: job.id });
+    }
+
+    notifyFinished(jobs.upsert({
+      ...running,
+      status: succeeded ? 'succeeded' : 'failed',
+      ...discardSecrets(job),
+      result,
+      error: succeeded ? undefined : result?.error || 'Job failed',
+      errorCode: succeeded ? undefined : result?.errorCode || 'INTERNAL_ERROR',
+      retryable: succeeded ? undefined : result?.retryable ?? false,
+      finishedAt: new Date().toISOString(),
+    }));
+    console.log(`${succeeded ? '✅' : '❌'} Job finished: ${job.id} (${job.type})`);
+  } catch (error: any) {
+    console.error(`❌ Job ${job.id} threw:`, error);
+    notifyFinished(jobs.upsert({
+      ...running,
+      status: 'failed',
+      ...discardSecrets(job),
+      ...describeError(error, 'Job failed'),
+      finishedAt: new Date().toISOString(),
+    }));
+  }
+}
+
+/**
+ * Tell stream subscribers the job finished and send its callback webhook
+ * (event `<type>.<status>`, e.g. 'medium.publish.succeeded')
+ */
+function notifyFinished(job: Job): void {
+  emitStatus(job);
+
+  if (!job.callbackUrl) {
+    return;
+  }
+
+  try {
+    sendWebhook(
+      job.callbackUrl,
+      `${job.type}.${job.status}`,
+      {
+        jobId: job.id,
+        type: job.type,
+        status: job.status,
+        result: job.result,
+        error: job.error,
+        errorCode: job.errorCode,
+        retryable: job.retryable,
+        runAt: job.runAt,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+      },
+      { client: job.client, jobId: job.id }
+    );
+  } catch (error: any) {
+    console.error(`❌ Failed to queue webhook for job ${job.id}:`, error.message);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Job Progress Streaming
+ * Streams a job's progress as Server-Sent Events for clients that send
+ * `Accept: text/event-stream` to a publish endpoint
+ *
+ * Events:
+ *   job     - the enqueue response ({ jobId, status, statusUrl, ... })
+ *   status  - the job changed state (e.g. queued -> running)
+ *   step    - a flow step started or ended ({ jobId, step: TimelineStep })
+ *   result  - the finished job including its result; the stream then ends
+ *
+ * Disconnecting only stops the stream - the job keeps running. Scheduled jobs
+ * are not followed: the stream ends after the `job` event
+ */
+
+import { Request, Response } from 'express';
+import { Job, JobEvent, getJob, isJobFinished, subscribeToJob, toPublicJob } from './job-queue';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Whether the client asked for an event stream
+ */
+export function wantsEventStream(req: Request): boolean {
+  return (req.get('Accept') || '').toLowerCase().includes('text/event-stream');
+}
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function writeResult(res: Response, job: Job): void {
+  writeEvent(res, 'result', { success: job.status === 'succeeded', job: toPublicJob(job) });
+  res.end();
+}
+
+/**
+ * Send `initial` as the first event, then follow the job until it finishes
+ */
+export function streamJob(req: Request, res: Response, job: Job, initial: Record<string, any>): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies (e.g. nginx) from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  writeEvent(res, 'job', initial);
+
+  if (job.status === 'scheduled') {
+    res.end();
+    return;
+  }
+
+  const unsubscribe = subscribeToJob(job.id, (event: JobEvent) => {
+    if (event.type === 'step') {
+      writeEvent(res, 'step', { jobId: event.jobId, step: event.step });
+      return;
+    }
+    if (isJobFinished(event.job)) {
+      stop();
+      writeResult(res, event.job);
+      return;
+    }
+    writeEvent(res, 'status', { jobId: event.job.id, status: event.job.status });
+  });
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  function stop(): void {
+    unsubscribe();
+    clearInterval(heartbeat);
+  }
+
+  // res (not req) - on a POST, req closes as soon as the body has been read
+  res.on('close', stop);
+
+  // The job may have moved on (or finished) before we subscribed
+  const current = getJob(job.id) || job;
+  if (isJobFinished(current)) {
+    stop();
+    writeResult(res, current);
+  } else if (current.status !== job.status) {
+    writeEvent(res, 'status', { jobId: current.id, status: current.status });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * JSON File Store
+ * Small persistent record store backed by a JSON file in the data directory
+ * Used for state that must survive a process restart (jobs, etc.)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Resolve the directory where persistent service data is kept
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * Collection of records keyed by `id`, persisted to `<DATA_DIR>/<name>.json`
+ * Every write rewrites the whole file (records are small and few)
+ */
+export class JsonCollection<T extends { id: string }> {
+  private records: Map<string, T> | null = null;
+  private filePath: string | null = null;
+
+  constructor(private name: string) {}
+
+  /**
+   * Load records from disk on first use (missing or unreadable file starts empty)
+   * Deferred so DATA_DIR from .env is picked up even for module-level collections
+   */
+  private load(): Map<string, T> {
+    if (this.records) {
+      return this.records;
+    }
+
+    this.filePath = path.join(getDataDir(), `${this.name}.json`);
+    this.records = new Map<string, T>();
+
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.records;
+      }
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const items: T[] = JSON.parse(raw);
+      for (const item of items) {
+        this.records.set(item.id, item);
+      }
+    } catch (error: any) {
+      console.error(`⚠️ Failed to load ${this.filePath}, starting empty:`, error.message);
+    }
+
+    return this.records;
+  }
+
+  /**
+   * Write all records to disk (write to temp file then rename to avoid torn files)
+   */
+  private persist(): void {
+    const records = this.load();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Array.from(records.values()), null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  get(id: string): T | undefined {
+    return this.load().get(id);
+  }
+
+  list(): T[] {
+    return Array.from(this.load().values());
+  }
+
+  upsert(record: T): T {
+    this.load().set(record.id, record);
+    this.persist();
+    return record;
+  }
+
+  remove(id: string): boolean {
+    const existed = this.load().delete(id);
+    if (existed) {
+      this.persist();
+    }
+    return existed;
+  }
+
+  /**
+   * Remove several records with a single write - returns how many existed
+   */
+  removeMany(ids: string[]): number {
+    const records = this.load();
+    const removed = ids.filter(id => records.delete(id)).length;
+    if (removed > 0) {
+      this.persist();
+    }
+    return removed;
+  }
+}
@@ -1,924 +1,1624 @@
 /**
  * Medium Integration Service
- * Uses Selenium to publish content to Medium
+ * Uses Selenium to publish content to Medium and track story performance
  */
 
-import { SeleniumBaseService, LoginCredentials, PublishContent, PublishResult } from './selenium-base';
+import {
+  SeleniumBaseService,
+  LoginCredentials,
+  PublishContent,
+  PublishResult,
+  SelectorPageCheck,
+  StepListener
+} from './selenium-base';
+import {
+  AuthExpiredError,
+  CaptchaRequiredError,
+  ContentRejectedError,
+  CrawlerError,
+  CrawlerErrorCode,
+  EditNotLiveError,
+  InvalidCredentialsError,
+  NavigationTimeoutError,
+  PublishedAsDraftError,
+  SelectorNotFoundError
+} from './errors';
+import { getContentFormat, renderMediumHtml } from './content-format';
+import { ArtifactRecorder } from './artifacts';
+import { getBaseUrl, getHostPattern, isBaseUrlOverridden, platformUrl } from './platform-urls';
+import { PlatformAdapter, VerifyResult } from './platform-adapter';
+import { publishToPlatform, trackPlatformPost, verifyPlatformAccount, withPlatformSession } from './platform-runner';
 
 export interface MediumConfig {
   email: string;
   password?: string;
-  cookies?: Array<{ name: string; value: string; domain: string }>;
+  cookies?: LoginCredentials['cookies'];
 }
 
 export interface MediumPublishResult extends PublishResult {
   postId?: string;
+  // Where the story ended up - 'submitted' means awaiting review by the publication's editors
+  state?: 'published' | 'submitted' | 'draft' | 'deleted';
+  publication?: string; // The publication it was published in or submitted to
+  editUrl?: string; // Drafts and submissions: the story editor
 }
 
+export type MediumPublishMode = 'publish' | 'draft';
+
+export interface MediumPublishOptions {
+  mode?: MediumPublishMode;
+  publication?: string; // Publication slug or ID
+}
+export type MediumUnpublishMode = 'draft' | 'delete';
+
+const PUBLISH_MODES: MediumPublishMode[] = ['publish', 'draft'];
+
+// Path of a published story - /@user/ or /publication-slug/, then the slug ending in the story ID
+const STORY_PATH_PATTERN = '(?:@[\\w-]+|[\\w-]+)\\/([\\w-]+-[0-9a-f]{8,16})(?=\\/?(?:[?#]|$))';
+const UNPUBLISH_MODES: MediumUnpublishMode[] = ['draft', 'delete'];
+
 /**
- * Publish content to Medium using Selenium
+ * Write and publish a new story on a signed-in session
+ * With mode 'draft' it stops once the draft is saved, for a human to review and publish
+ * in Medium - the result has the draft's editor URL and story ID (tags are only set
+ * when publishing)
+ * With a publication it is published there, or submitted for review when the account
+ * cannot publish in it (see publishMediumEditor)
  */
-export async function publishToMedium(
-  config: MediumConfig,
-  content: PublishContent
+async function createMediumStory(
+  service: SeleniumBaseService,
+  content: PublishContent,
+  options: MediumPublishOptions,
+  artifacts: ArtifactRecorder
 ): Promise<MediumPublishResult> {
-  const service = new SeleniumBaseService({
-    headless: true,
-    browser: 'chrome',
-    timeout: 60000, // Increased to 60 seconds for Medium's slow loading
-  });
+  await openMediumEditor(service, platformUrl('medium', '/new-story'), 'Open new story editor', artifacts);
+  await fillMediumStory(service, content);
 
-  try {
-    await service.initialize();
+  if (options.mode !== 'draft') {
+    return publishMediumEditor(service, content, artifacts, options.publication);
+  }
 
-    const credentials: LoginCredentials = {
-      email: config.email,
-      password: config.password,
-      cookies: config.cookies,
-    };
+  await saveMediumDraft(service, true);
 
-    // Login to Medium
-    await loginToMedium(service, credentials);
+  const editUrl = await service.getCurrentUrl();
+  const postId = getMediumStoryId(editUrl);
+  if (!postId) {
+    await artifacts.capture(service, 'draft-id-not-found');
+    throw new SelectorNotFoundError(`Draft was saved but the editor URL has no story ID: ${editUrl}`);
+  }
 
-    // Navigate to new story page
-    console.log("📝 Navigating to Medium new story page...");
-    try {
-      await service.navigateTo('https://medium.com/new-story');
-    } catch (navError: any) {
-      // If navigation times out, try refreshing or continuing
-      console.warn("⚠️ Navigation timeout, trying to continue...", navError.message);
-      const currentUrl = await service.getCurrentUrl();
-      if (!currentUrl.includes('medium.com')) {
-        throw new Error(`Failed to navigate to Medium. Current URL: ${currentUrl}`);
-      }
-      console.log("📍 Continuing with current URL:", currentUrl);
+  console.log(`✅ Saved Medium draft for review: ${editUrl}`);
+  return {
+    success: true,
+    url: editUrl,
+    postId,
+    state: 'draft',
+    editUrl,
+  };
+}
+
+/**
+ * Replace the title and body of a published story, republish it and check that the
+ * live story shows the new content
+ */
+async function editMediumStory(
+  service: SeleniumBaseService,
+  storyUrl: string,
+  content: PublishContent,
+  artifacts: ArtifactRecorder
+): Promise<MediumPublishResult> {
+  const storyId = getMediumStoryId(storyUrl);
+  if (!storyId) {
+    throw new ContentRejectedError(`Not a Medium story URL: ${storyUrl}`);
+  }
+
+  await openMediumEditor(service, platformUrl('medium', `/p/${storyId}/edit`), 'Open story editor', artifacts);
+  await clearMediumStoryBody(service);
+  await fillMediumStory(service, content);
+  const result = await publishMediumEditor(service, content, artifacts);
+  await confirmLiveMediumStory(service, result.url!, content);
+
+  return {
+    ...result,
+    verifiedLive: true,
+  };
+}
+
+/**
+ * Take a published story down - back to a draft (mode 'draft', the default) or deleted
+ * (mode 'delete') - and check, signed out, that the story URL no longer serves it
+ * Flow: Open story → story options menu → "Unpublish story"/"Delete story" → Confirm
+ */
+async function unpublishMediumStory(
+  service: SeleniumBaseService,
+  storyUrl: string,
+  options: Record<string, any>,
+  artifacts: ArtifactRecorder
+): Promise<MediumPublishResult> {
+  const mode: MediumUnpublishMode = options.mode || 'draft';
+  const action = mode === 'delete' ? 'delete' : 'unpublish';
+  const storyId = getMediumStoryId(storyUrl);
+  if (!storyId) {
+    throw new ContentRejectedError(`Not a Medium story URL: ${storyUrl}`);
+  }
+
+  service.beginStep('Open story');
+  console.log(`🗑️ Opening Medium story to ${action}: ${storyUrl}`);
+  await service.navigateTo(storyUrl);
+  await service.humanDelay(3000, 5000);
+
+  // Remember what the story showed, to check it is gone afterwards
+  const bodySelector = await service.findFirstSelector('medium', 'storyBody');
+  const removedText = bodySelector ? (await service.getElementText(bodySelector)).trim().substring(0, 80) : '';
+  if (!removedText) {
+    await artifacts.capture(service, 'story-body-not-found');
+    throw new SelectorNotFoundError(`Could not read the story text from ${storyUrl}`);
+  }
+
+  service.beginStep(mode === 'delete' ? 'Delete story' : 'Unpublish story');
+  const optionsButton = await service.findFirstSelector('medium', 'storyOptionsButton');
+  if (!optionsButton) {
+    await artifacts.capture(service, 'story-options-not-found');
+    throw new SelectorNotFoundError('Could not find the story options menu - is this account the author?');
+  }
+  await service.clickElement(optionsButton, { by: 'css' });
+  await service.humanDelay(1000, 2000);
+
+  const menuClicked = await service.executeScript(`
+    const items = Array.from(document.querySelectorAll('[role="menuitem"], [role="menu"] button, [role="menu"] a'));
+    const menuItem = items.find(item => {
+      const text = (item.textContent || '').toLowerCase().trim();
+      return text === arguments[0] || text === arguments[0] + ' story';
+    });
+    if (!menuItem) return false;
+    menuItem.click();
+    return true;
+  `, action);
+
+  if (!menuClicked) {
+    await artifacts.capture(service, `${action}-menu-item-not-found`);
+    throw new SelectorNotFoundError(`No "${mode === 'delete' ? 'Delete' : 'Unpublish'} story" item in the story options menu`);
+  }
+  await service.humanDelay(1000, 2000);
+
+  // Medium asks for confirmation in a dialog
+  await service.findElementsWithRetry(
+    async () => {
+      return await service.executeScript(`
+        const dialog = document.querySelector('[role="dialog"]:not([style*="display: none"])') || document;
+        const buttons = Array.from(dialog.querySelectorAll('button, [role="button"]'));
+        const confirmButton = buttons.find(btn => {
+          const text = (btn.textContent || '').toLowerCase().trim();
+          return (text === arguments[0] || text === arguments[0] + ' story' || text === arguments[0] + ' permanently') &&
+                 !btn.disabled;
+        });
+        if (!confirmButton) return false;
+        confirmButton.click();
+        return true;
+      `, action);
+    },
+    {
+      timeout: 15000,
+      interval: 1500,
+      maxRetries: 10,
+      description: `${action} confirmation`
     }
-    await service.humanDelay(5000, 8000); // Give page more time to load
-
-    // Wait for editor to load - try multiple selectors
-    console.log("🔍 Waiting for Medium editor to load...");
-    let editorFound = false;
-    const editorSelectors = [
-      '[data-testid="editor"]',
-      '[contenteditable="true"]',
-      'div[contenteditable="true"]',
-      '.graf--title',
-      'h2[contenteditable="true"]',
-      'article',
-    ];
-    
-    for (const selector of editorSelectors) {
-      try {
-        const exists = await service.elementExists(selector);
-        if (exists) {
-          console.log(`✅ Found editor with selector: ${selector}`);
-          editorFound = true;
-          await service.humanDelay(1000, 2000);
-          break;
+  );
+
+  await service.humanDelay(3000, 5000);
+
+  service.beginStep('Confirm removed');
+  console.log(`🔍 Checking the story is gone for signed-out visitors: ${storyUrl}`);
+  await service.confirmContentRemoved(storyUrl, removedText);
+
+  console.log(`✅ Medium story ${mode === 'delete' ? 'deleted' : 'unpublished'}: ${storyUrl}`);
+  return {
+    success: true,
+    url: storyUrl,
+    postId: storyId,
+    state: mode === 'delete' ? 'deleted' : 'draft',
+    editUrl: mode === 'draft' ? platformUrl('medium', `/p/${storyId}/edit`) : undefined,
+    verifiedRemoved: true,
+  };
+}
+
+/**
+ * Open the story editor at `editorUrl` and wait for it to load
+ */
+async function openMediumEditor(
+  service: SeleniumBaseService,
+  editorUrl: string,
+  stepName: string,
+  artifacts: ArtifactRecorder
+): Promise<void> {
+  service.beginStep(stepName);
+  console.log(`📝 Navigating to Medium editor: ${editorUrl}`);
+  try {
+    await service.navigateTo(editorUrl);
+  } catch (navError: any) {
+    // If navigation times out, try refreshing or continuing
+    console.warn("⚠️ Navigation timeout, trying to continue...", navError.message);
+    const currentUrl = await service.getCurrentUrl();
+    if (!new RegExp(getHostPattern('medium')).test(currentUrl)) {
+      throw new NavigationTimeoutError(`Failed to navigate to Medium. Current URL: ${currentUrl}`);
+    }
+    console.log("📍 Continuing with current URL:", currentUrl);
+  }
+
+  // Medium sends signed-out visitors to the sign-in page instead of the editor
+  const openedUrl = await service.getCurrentUrl();
+  if (openedUrl.includes('/m/signin') || openedUrl.includes('/m/callback')) {
+    throw new AuthExpiredError(`Medium session is not signed in (redirected to ${openedUrl}) - refresh the account cookies`);
+  }
+  await service.humanDelay(5000, 8000); // Give page more time to load
+
+  // Wait for editor to load - try multiple selectors
+  console.log("🔍 Waiting for Medium editor to load...");
+  const editorSelector = await service.findFirstSelector('medium', 'editor');
+  const editorFound = !!editorSelector;
+  if (editorFound) {
+    console.log(`✅ Found editor with selector: ${editorSelector}`);
+    await service.humanDelay(1000, 2000);
+  }
+  
+  if (!editorFound) {
+    console.warn("⚠️ Could not find editor with standard selectors, trying alternative approach...");
+    await artifacts.capture(service, 'editor-not-found', { elements: true });
+  }
+}
+
+/**
+ * Story editor selectors from the registry, passed to the editor scripts as an argument
+ */
+function getStorySelectors(service: SeleniumBaseService): { editor: string; title: string; paragraph: string } {
+  return {
+    editor: service.getSelector('medium', 'storyEditor'),
+    title: service.getSelector('medium', 'storyTitle'),
+    paragraph: service.getSelector('medium', 'storyParagraph'),
+  };
+}
+
+/**
+ * Whether the URL is the story editor - /new-story until the draft is first saved,
+ * /p/:id/edit afterwards
+ */
+function isMediumEditorUrl(url: string): boolean {
+  return url.includes('/edit') || url.includes('/new-story');
+}
+
+/**
+ * After the header "Publish" click: wait for the prepublish modal ("Publish now") to show,
+ * or for the browser to leave the editor (a live story saved directly)
+ * Resolves 'not-found' when neither happens in time
+ */
+async function waitForMediumPublishModal(service: SeleniumBaseService): Promise<'modal' | 'left-editor' | 'not-found'> {
+  try {
+    return await service.findElementsWithRetry(
+      async () => {
+        const modalOpen = await service.executeScript(`
+          const modals = Array.from(document.querySelectorAll('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]'));
+          return modals.some(modal => {
+            const style = window.getComputedStyle(modal);
+            if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') return false;
+            return Array.from(modal.querySelectorAll('button')).some(btn => {
+              const text = (btn.textContent || '').toLowerCase();
+              const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
+              return text.includes('publish now') || ariaLabel.includes('publish now');
+            });
+          });
+        `);
+        if (modalOpen) {
+          return 'modal';
         }
-      } catch (e) {
-        // Continue to next selector
+        return isMediumEditorUrl(await service.getCurrentUrl()) ? false : 'left-editor';
+      },
+      {
+        timeout: 10000,
+        interval: 1000,
+        maxRetries: 10,
+        description: 'prepublish modal'
       }
+    );
+  } catch (e: any) {
+    if (e instanceof SelectorNotFoundError) {
+      return 'not-found';
     }
-    
-    if (!editorFound) {
-      console.warn("⚠️ Could not find editor with standard selectors, trying alternative approach...");
-      // Take a screenshot for debugging
-      try {
-        const screenshot = await service.takeScreenshot();
-        console.log("📸 Screenshot taken for debugging");
-      } catch (e) {
-        // Ignore screenshot errors
+    throw e;
+  }
+}
+
+/**
+ * Fill the editor's title and body and check both took
+ */
+async function fillMediumStory(service: SeleniumBaseService, content: PublishContent): Promise<void> {
+  // Fill title - using actual Medium HTML structure
+  service.beginStep('Fill title');
+  console.log("✍️ Filling title...");
+  let titleFilled = false;
+  
+  try {
+    await service.findElementsWithRetry(
+      async () => {
+        const result = await service.executeScript(`
+          const title = arguments[0];
+          const selectors = arguments[1];
+          
+          // Find main editor container (contenteditable div)
+          const mainEditor = document.querySelector(selectors.editor);
+          if (!mainEditor) {
+            console.log('❌ Main editor not found');
+            return false;
+          }
+          
+          // Find section container
+          let section = mainEditor.querySelector('section.section--body');
+          if (!section) {
+            // Create section if it doesn't exist
+            section = document.createElement('section');
+            section.className = 'section section--body section--first section--last';
+            section.setAttribute('name', 'section-' + Date.now());
+            mainEditor.appendChild(section);
+          }
+          
+          // Find section-inner div
+          let sectionInner = section.querySelector('.section-inner.sectionLayout--insetColumn');
+          if (!sectionInner) {
+            // Create section structure if it doesn't exist
+            const sectionContent = document.createElement('div');
+            sectionContent.className = 'section-content';
+            sectionInner = document.createElement('div');
+            sectionInner.className = 'section-inner sectionLayout--insetColumn';
+            sectionContent.appendChild(sectionInner);
+            section.appendChild(sectionContent);
+          }
+          
+          // Find title element within section-inner
+          let titleElement = sectionInner.querySelector(selectors.title + ', .graf--title');
+          
+          // If not found, create it
+          if (!titleElement) {
+            titleElement = document.createElement('h3');
+            titleElement.className = 'graf graf--h3 graf--leading graf--title';
+            titleElement.setAttribute('data-testid', 'editorTitleParagraph');
+            titleElement.setAttribute('data-scroll', 'native');
+            titleElement.setAttribute('name', 'title-' + Date.now());
+            sectionInner.insertBefore(titleElement, sectionInner.firstChild);
+          }
+          
+          if (!titleElement) {
+            console.log('❌ Could not find or create title element');
+            return false;
+          }
+          
+          // Focus and fill title by simulating typing to trigger Medium's React state
+          titleElement.focus();
+          titleElement.textContent = '';
+          
+          // Simulate typing character by character (Medium's React needs this)
+          // Use synchronous approach with immediate execution
+          for (let i = 0; i < title.length; i++) {
+            const char = title[i];
+            titleElement.textContent = title.substring(0, i + 1);
+            
+            // Trigger InputEvent for each character
+            const inputEvent = new InputEvent('input', {
+              bubbles: true,
+              cancelable: true,
+              inputType: 'insertText',
+              data: char
+            });
+            titleElement.dispatchEvent(inputEvent);
+          }
+          
+          // Also trigger change and keyboard events
+          titleElement.dispatchEvent(new Event('change', { bubbles: true }));
+          titleElement.dispatchEvent(new KeyboardEvent('keyup', { bubbles: true, key: 'Enter' }));
+          titleElement.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, key: 'Enter' }));
+          
+          // Trigger on main editor
+          mainEditor.dispatchEvent(new InputEvent('input', { bubbles: true, cancelable: true }));
+          
+          // Force Medium to recognize by blurring and refocusing
+          titleElement.blur();
+          titleElement.focus();
+          
+          // Verify it was set
+          const actualText = (titleElement.textContent || '').trim();
+          const wasSet = actualText.length > 0 && actualText.includes(title.substring(0, Math.min(10, title.length)));
+          
+          console.log('Title fill result:', {
+            expected: title.substring(0, 30),
+            actual: actualText.substring(0, 30),
+            wasSet: wasSet
+          });
+          
+          return wasSet;
+        `, content.title, getStorySelectors(service));
+        
+        return result === true;
+      },
+      {
+        timeout: 20000,
+        interval: 1000,
+        maxRetries: 20,
+        description: 'title field'
       }
+    );
+    
+    titleFilled = true;
+    console.log(`✅ Title filled and verified`);
+  } catch (e: any) {
+    console.error("❌ Failed to fill title:", e.message);
+    // Keep definitive errors (login wall, CAPTCHA); anything else means the editor wasn't found
+    if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+      throw e;
     }
+    throw new SelectorNotFoundError(`Failed to fill title: ${e.message}`);
+  }
+  
+  await service.humanDelay(2000, 3000);
 
-    // Fill title - using actual Medium HTML structure
-    console.log("✍️ Filling title...");
-    let titleFilled = false;
-    
-    try {
-      await service.findElementsWithRetry(
-        async () => {
-          const result = await service.executeScript(`
-            const title = arguments[0];
-            
-            // Find main editor container (contenteditable div)
-            const mainEditor = document.querySelector('.postArticle-content.js-postField, .postArticle-content, [id^="editor_"], [class*="js-postField"]');
-            if (!mainEditor) {
-              console.log('❌ Main editor not found');
-              return false;
-            }
-            
-            // Find section container
-            let section = mainEditor.querySelector('section.section--body');
-            if (!section) {
-              // Create section if it doesn't exist
-              section = document.createElement('section');
-              section.className = 'section section--body section--first section--last';
-              section.setAttribute('name', 'section-' + Date.now());
-              mainEditor.appendChild(section);
-            }
-            
-            // Find section-inner div
-            let sectionInner = section.querySelector('.section-inner.sectionLayout--insetColumn');
-            if (!sectionInner) {
-              // Create section structure if it doesn't exist
-              const sectionContent = document.createElement('div');
-              sectionContent.className = 'section-content';
-              sectionInner = document.createElement('div');
-              sectionInner.className = 'section-inner sectionLayout--insetColumn';
-              sectionContent.appendChild(sectionInner);
-              section.appendChild(sectionContent);
-            }
-            
-            // Find title element within section-inner
-            let titleElement = sectionInner.querySelector('h3[data-testid="editorTitleParagraph"], h3.graf--title, h2.graf--title, h1.graf--title, .graf--title');
-            
-            // If not found, create it
-            if (!titleElement) {
-              titleElement = document.createElement('h3');
-              titleElement.className = 'graf graf--h3 graf--leading graf--title';
-              titleElement.setAttribute('data-testid', 'editorTitleParagraph');
-              titleElement.setAttribute('data-scroll', 'native');
-              titleElement.setAttribute('name', 'title-' + Date.now());
-              sectionInner.insertBefore(titleElement, sectionInner.firstChild);
-            }
-            
-            if (!titleElement) {
-              console.log('❌ Could not find or create title element');
-              return false;
-            }
-            
-            // Focus and fill title by simulating typing to trigger Medium's React state
-            titleElement.focus();
-            titleElement.textContent = '';
+  // Fill content - using actual Medium HTML structure
+  service.beginStep('Fill content');
+  const contentFormat = getContentFormat(content);
+  console.log(`✍️ Filling content (format: ${contentFormat})...`);
+  let contentFilled = false;
+  const contentHtml = contentFormat === 'plain' ? null : renderMediumHtml(content);
+  
+  try {
+    await service.findElementsWithRetry(
+      async () => {
+        // Markdown/HTML is rebuilt as Medium grafs; plain text keeps the single-paragraph typing flow
+        if (contentHtml !== null) {
+          return (await fillMediumRichContent(service, contentHtml)) === true;
+        }
+
+        const result = await service.executeScript(`
+          const contentText = arguments[0];
+          const selectors = arguments[1];
+          
+          // Find main editor container
+          const mainEditor = document.querySelector(selectors.editor);
+          if (!mainEditor) {
+            console.log('❌ Main editor not found');
+            return false;
+          }
+          
+          // Find section container
+          let section = mainEditor.querySelector('section.section--body');
+          if (!section) {
+            section = document.createElement('section');
+            section.className = 'section section--body section--first section--last';
+            section.setAttribute('name', 'section-' + Date.now());
+            mainEditor.appendChild(section);
+          }
+          
+          // Find section-inner div (where title and content go)
+          let sectionInner = section.querySelector('.section-inner.sectionLayout--insetColumn');
+          if (!sectionInner) {
+            const sectionContent = document.createElement('div');
+            sectionContent.className = 'section-content';
+            sectionInner = document.createElement('div');
+            sectionInner.className = 'section-inner sectionLayout--insetColumn';
+            sectionContent.appendChild(sectionInner);
+            section.appendChild(sectionContent);
+          }
+          
+          // Find title to know where to place content
+          const titleElement = sectionInner.querySelector(selectors.title);
+          
+          // Find content paragraph within section-inner
+          let contentElement = sectionInner.querySelector(selectors.paragraph);
+          
+          // If not found, create it
+          if (!contentElement) {
+            contentElement = document.createElement('p');
+            contentElement.className = 'graf graf--p graf-after--h3 graf--trailing';
+            contentElement.setAttribute('data-testid', 'editorParagraphText');
+            contentElement.setAttribute('data-scroll', 'native');
+            contentElement.setAttribute('name', 'content-' + Date.now());
             
-            // Simulate typing character by character (Medium's React needs this)
-            // Use synchronous approach with immediate execution
-            for (let i = 0; i < title.length; i++) {
-              const char = title[i];
-              titleElement.textContent = title.substring(0, i + 1);
-              
-              // Trigger InputEvent for each character
-              const inputEvent = new InputEvent('input', {
-                bubbles: true,
-                cancelable: true,
-                inputType: 'insertText',
-                data: char
-              });
-              titleElement.dispatchEvent(inputEvent);
+            // Insert after title or at end of section-inner
+            if (titleElement && titleElement.nextSibling) {
+              sectionInner.insertBefore(contentElement, titleElement.nextSibling);
+            } else if (titleElement) {
+              sectionInner.appendChild(contentElement);
+            } else {
+              sectionInner.appendChild(contentElement);
             }
+          }
+          
+          if (!contentElement) {
+            console.log('❌ Could not find or create content element');
+            return false;
+          }
+          
+          // Focus and fill content by simulating typing to trigger Medium's React state
+          mainEditor.focus();
+          contentElement.focus();
+          contentElement.textContent = '';
+          
+          // Simulate typing in chunks (faster than character-by-character but still triggers React)
+          // Use synchronous approach - Medium's React will process the events
+          const chunkSize = 100; // Type 100 characters at a time
+          for (let i = 0; i < contentText.length; i += chunkSize) {
+            const chunk = contentText.substring(i, Math.min(i + chunkSize, contentText.length));
+            const currentText = contentText.substring(0, Math.min(i + chunkSize, contentText.length));
             
-            // Also trigger change and keyboard events
-            titleElement.dispatchEvent(new Event('change', { bubbles: true }));
-            titleElement.dispatchEvent(new KeyboardEvent('keyup', { bubbles: true, key: 'Enter' }));
-            titleElement.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, key: 'Enter' }));
-            
-            // Trigger on main editor
-            mainEditor.dispatchEvent(new InputEvent('input', { bubbles: true, cancelable: true }));
-            
-            // Force Medium to recognize by blurring and refocusing
-            titleElement.blur();
-            titleElement.focus();
-            
-            // Verify it was set
-            const actualText = (titleElement.textContent || '').trim();
-            const wasSet = actualText.length > 0 && actualText.includes(title.substring(0, Math.min(10, title.length)));
+            // Set text incrementally
+            contentElement.textContent = currentText;
             
-            console.log('Title fill result:', {
-              expected: title.substring(0, 30),
-              actual: actualText.substring(0, 30),
-              wasSet: wasSet
+            // Trigger InputEvent for each chunk
+            const inputEvent = new InputEvent('input', {
+              bubbles: true,
+              cancelable: true,
+              inputType: 'insertText',
+              data: chunk
             });
-            
-            return wasSet;
-          `, content.title);
+            contentElement.dispatchEvent(inputEvent);
+          }
           
-          return result === true;
-        },
-        {
-          timeout: 20000,
-          interval: 1000,
-          maxRetries: 20,
-          description: 'title field'
-        }
-      );
-      
-      titleFilled = true;
-      console.log(`✅ Title filled and verified`);
-    } catch (e: any) {
-      console.error("❌ Failed to fill title:", e.message);
-      throw new Error(`Failed to fill title: ${e.message}`);
-    }
+          // Also trigger change and keyboard events
+          contentElement.dispatchEvent(new Event('change', { bubbles: true }));
+          contentElement.dispatchEvent(new KeyboardEvent('keyup', { bubbles: true }));
+          contentElement.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true }));
+          
+          // Trigger on main editor multiple times to ensure React catches it
+          mainEditor.dispatchEvent(new InputEvent('input', { bubbles: true, cancelable: true }));
+          mainEditor.dispatchEvent(new Event('change', { bubbles: true }));
+          
+          // Force Medium to recognize by blurring and refocusing
+          contentElement.blur();
+          contentElement.focus();
+          mainEditor.focus();
+          
+          // Verify it was set
+          const actualText = (contentElement.textContent || '').trim();
+          const expectedStart = contentText.substring(0, Math.min(50, contentText.length));
+          const wasSet = actualText.length > 0 && actualText.includes(expectedStart);
+          
+          console.log('Content fill result:', {
+            expectedLength: contentText.length,
+            actualLength: actualText.length,
+            wasSet: wasSet,
+            preview: actualText.substring(0, 50)
+          });
+          
+          return wasSet;
+        `, content.content, getStorySelectors(service));
+        
+        return result === true;
+      },
+      {
+        timeout: 25000,
+        interval: 1000,
+        maxRetries: 25,
+        description: 'content field'
+      }
+    );
     
-    await service.humanDelay(2000, 3000);
+    contentFilled = true;
+    console.log(`✅ Content filled and verified`);
+  } catch (e: any) {
+    console.error("❌ Failed to fill content:", e.message);
+    // Keep definitive errors (login wall, CAPTCHA); anything else means the editor wasn't found
+    if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+      throw e;
+    }
+    throw new SelectorNotFoundError(`Failed to fill content: ${e.message}`);
+  }
+  
+  // Wait longer for Medium to process content and update React state
+  // Medium needs time to:
+  // 1. Process the input events
+  // 2. Update React state
+  // 3. Create post ID (if needed)
+  // 4. Remove js-buttonDisabledPrimary class
+  console.log("⏳ Waiting for Medium to process content and enable publish button...");
+  await service.humanDelay(8000, 12000); // Longer wait for React state to update and post ID creation
 
-    // Fill content - using actual Medium HTML structure
-    console.log("✍️ Filling content...");
-    let contentFilled = false;
+  // Final verification: Ensure both title and content are filled
+  service.beginStep('Verify title and content');
+  console.log("🔍 Verifying title and content were filled...");
+  const verification = await service.executeScript(`
+    const selectors = arguments[0];
+    const mainEditor = document.querySelector(selectors.editor);
+    if (!mainEditor) return { hasEditor: false };
+    
+    // Find section-inner div (where title and content are)
+    const section = mainEditor.querySelector('section.section--body');
+    const sectionInner = section ? section.querySelector('.section-inner.sectionLayout--insetColumn') : null;
     
+    const titleElement = sectionInner ? sectionInner.querySelector(selectors.title) : null;
+    const titleText = titleElement ? (titleElement.textContent || '').trim() : '';
+    
+    // Body grafs (paragraphs, headings, quotes, code, list items) - everything except the title
+    const bodyGrafs = sectionInner
+      ? Array.from(sectionInner.querySelectorAll('.graf, p[data-testid="editorParagraphText"]')).filter(el => el !== titleElement && !el.classList.contains('graf--title'))
+      : [];
+    const contentText = bodyGrafs.map(el => (el.textContent || '').trim()).join(' ').trim();
+    
+    return {
+      hasEditor: true,
+      hasSection: !!section,
+      hasSectionInner: !!sectionInner,
+      hasTitle: titleText.length > 0,
+      titleLength: titleText.length,
+      titlePreview: titleText.substring(0, 30),
+      hasContent: contentText.length > 0,
+      contentLength: contentText.length,
+      contentPreview: contentText.substring(0, 50)
+    };
+  `, getStorySelectors(service));
+  
+  console.log("📋 Content verification:", JSON.stringify(verification, null, 2));
+  
+  if (!verification.hasTitle || !verification.hasContent) {
+    // Try to save draft before throwing error
     try {
-      await service.findElementsWithRetry(
-        async () => {
-          const result = await service.executeScript(`
-            const contentText = arguments[0];
-            
-            // Find main editor container
-            const mainEditor = document.querySelector('.postArticle-content.js-postField, .postArticle-content, [id^="editor_"], [class*="js-postField"]');
-            if (!mainEditor) {
-              console.log('❌ Main editor not found');
-              return false;
-            }
+      await service.executeScript(`
+        const editors = document.querySelectorAll('[contenteditable="true"]');
+        editors.forEach(editor => {
+          editor.blur();
+          editor.dispatchEvent(new Event('blur', { bubbles: true }));
+        });
+      `);
+      await service.humanDelay(2000, 3000);
+    } catch (e) {
+      // Ignore save errors
+    }
+    throw new SelectorNotFoundError(`Content not filled properly. Title: ${verification.hasTitle ? 'Yes' : 'No'} (${verification.titleLength} chars), Content: ${verification.hasContent ? 'Yes' : 'No'} (${verification.contentLength} chars)`);
+  }
+  
+  console.log(`✅ Verified: Title (${verification.titleLength} chars) and Content (${verification.contentLength} chars) are filled`);
+}
+
+/**
+ * Remove an existing story's body (extra sections and every graf but the title) so
+ * fillMediumStory replaces it instead of adding to it
+ */
+async function clearMediumStoryBody(service: SeleniumBaseService): Promise<void> {
+  service.beginStep('Clear existing content');
+  console.log("🧹 Clearing the story's current body...");
+  const removed = await service.executeScript(`
+    const selectors = arguments[0];
+    const mainEditor = document.querySelector(selectors.editor);
+    if (!mainEditor) return 0;
+
+    const sections = Array.from(mainEditor.querySelectorAll('section.section--body'));
+    sections.slice(1).forEach(section => section.remove());
+
+    const sectionInner = sections[0] ? sections[0].querySelector('.section-inner.sectionLayout--insetColumn') : null;
+    if (!sectionInner) return sections.length - 1;
+
+    const titleElement = sectionInner.querySelector(selectors.title + ', .graf--title');
+    const grafs = Array.from(sectionInner.children).filter(el => el !== titleElement);
+    grafs.forEach(el => el.remove());
+    mainEditor.dispatchEvent(new InputEvent('input', { bubbles: true, cancelable: true }));
+
+    return sections.length - 1 + grafs.length;
+  `, getStorySelectors(service));
+  console.log(`✅ Removed ${removed || 0} element(s) from the old body`);
+}
+
+/**
+ * Publish what is in the editor: header "Publish" button, then "Publish now" in the
+ * prepublish modal, then wait for the story URL
+ * For a story that is already live the header button ("Save and publish") saves the
+ * changes directly, without the modal
+ * With a publication it is picked in the modal first; when the account may only submit
+ * to it the story is submitted for review instead (state 'submitted')
+ */
+async function publishMediumEditor(
+  service: SeleniumBaseService,
+  content: PublishContent,
+  artifacts: ArtifactRecorder,
+  publication?: string
+): Promise<MediumPublishResult> {
+  // Wait for the green "Publish" button to appear and be enabled
+  // This button only appears after both title and content are filled AND Medium's React state is updated
+  console.log("⏳ Waiting for 'Publish' button to appear and be enabled...");
+  let publishButtonEnabled = false;
+  try {
+    await service.findElementsWithRetry(
+      async () => {
+        const result = await service.executeScript(`
+          // Try multiple selectors for publish button
+          const buttons = Array.from(document.querySelectorAll('button'));
+          const publishButton = buttons.find(btn => {
+            const text = (btn.textContent || '').toLowerCase().trim();
+            const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
             
-            // Find section container
-            let section = mainEditor.querySelector('section.section--body');
-            if (!section) {
-              section = document.createElement('section');
-              section.className = 'section section--body section--first section--last';
-              section.setAttribute('name', 'section-' + Date.now());
-              mainEditor.appendChild(section);
-            }
+            // Look for "Publish" text (not "Publish now" or "Schedule")
+            const isPublish = text === 'publish' || 
+                             (text.includes('publish') && !text.includes('now') && !text.includes('schedule'));
             
-            // Find section-inner div (where title and content go)
-            let sectionInner = section.querySelector('.section-inner.sectionLayout--insetColumn');
-            if (!sectionInner) {
-              const sectionContent = document.createElement('div');
-              sectionContent.className = 'section-content';
-              sectionInner = document.createElement('div');
-              sectionInner.className = 'section-inner sectionLayout--insetColumn';
-              sectionContent.appendChild(sectionInner);
-              section.appendChild(sectionContent);
-            }
+            // Check if in header (top right area)
+            const rect = btn.getBoundingClientRect();
+            const isInHeader = rect.top < 150 && rect.right > window.innerWidth - 200;
             
-            // Find title to know where to place content
-            const titleElement = sectionInner.querySelector('h3[data-testid="editorTitleParagraph"], h3.graf--title, h2.graf--title, h1.graf--title');
+            if (!isPublish || !isInHeader) return false;
             
-            // Find content paragraph within section-inner
-            let contentElement = sectionInner.querySelector('p[data-testid="editorParagraphText"], p.graf--p:not(.graf--title), p.graf-after--h3');
+            // Check if it's enabled (not disabled)
+            const isDisabled = btn.disabled || 
+                              btn.classList.contains('js-buttonDisabledPrimary') ||
+                              btn.classList.contains('button--disabled') ||
+                              btn.classList.contains('disabled');
             
-            // If not found, create it
-            if (!contentElement) {
-              contentElement = document.createElement('p');
-              contentElement.className = 'graf graf--p graf-after--h3 graf--trailing';
-              contentElement.setAttribute('data-testid', 'editorParagraphText');
-              contentElement.setAttribute('data-scroll', 'native');
-              contentElement.setAttribute('name', 'content-' + Date.now());
-              
-              // Insert after title or at end of section-inner
-              if (titleElement && titleElement.nextSibling) {
-                sectionInner.insertBefore(contentElement, titleElement.nextSibling);
-              } else if (titleElement) {
-                sectionInner.appendChild(contentElement);
-              } else {
-                sectionInner.appendChild(contentElement);
-              }
-            }
+            // Check if visible
+            const isVisible = btn.offsetParent !== null &&
+                             window.getComputedStyle(btn).display !== 'none' &&
+                             window.getComputedStyle(btn).visibility !== 'hidden';
             
-            if (!contentElement) {
-              console.log('❌ Could not find or create content element');
-              return false;
-            }
+            return !isDisabled && isVisible;
+          });
+          
+          if (publishButton) {
+            const hasDisabledClass = publishButton.classList.contains('js-buttonDisabledPrimary');
+            const hasPostIdClass = publishButton.classList.contains('js-buttonRequiresPostId');
             
-            // Focus and fill content by simulating typing to trigger Medium's React state
-            mainEditor.focus();
-            contentElement.focus();
-            contentElement.textContent = '';
+            console.log('Publish button found:', {
+              text: publishButton.textContent,
+              disabled: publishButton.disabled,
+              hasDisabledClass: hasDisabledClass,
+              hasPostIdClass: hasPostIdClass,
+              classes: publishButton.className,
+              visible: publishButton.offsetParent !== null,
+              dataAction: publishButton.getAttribute('data-action')
+            });
             
-            // Simulate typing in chunks (faster than character-by-character but still triggers React)
-            // Use synchronous approach - Medium's React will process the events
-            const chunkSize = 100; // Type 100 characters at a time
-            for (let i = 0; i < contentText.length; i += chunkSize) {
-              const chunk = contentText.substring(i, Math.min(i + chunkSize, contentText.length));
-              const currentText = contentText.substring(0, Math.min(i + chunkSize, contentText.length));
-              
-              // Set text incrementally
-              contentElement.textContent = currentText;
-              
-              // Trigger InputEvent for each chunk
-              const inputEvent = new InputEvent('input', {
-                bubbles: true,
-                cancelable: true,
-                inputType: 'insertText',
-                data: chunk
-              });
-              contentElement.dispatchEvent(inputEvent);
+            // Button must not have js-buttonDisabledPrimary class to be enabled
+            if (hasDisabledClass) {
+              console.log('Button still has js-buttonDisabledPrimary class - Medium has not recognized content yet');
+              return false;
             }
             
-            // Also trigger change and keyboard events
-            contentElement.dispatchEvent(new Event('change', { bubbles: true }));
-            contentElement.dispatchEvent(new KeyboardEvent('keyup', { bubbles: true }));
-            contentElement.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true }));
-            
-            // Trigger on main editor multiple times to ensure React catches it
-            mainEditor.dispatchEvent(new InputEvent('input', { bubbles: true, cancelable: true }));
-            mainEditor.dispatchEvent(new Event('change', { bubbles: true }));
-            
-            // Force Medium to recognize by blurring and refocusing
-            contentElement.blur();
-            contentElement.focus();
-            mainEditor.focus();
-            
-            // Verify it was set
-            const actualText = (contentElement.textContent || '').trim();
-            const expectedStart = contentText.substring(0, Math.min(50, contentText.length));
-            const wasSet = actualText.length > 0 && actualText.includes(expectedStart);
-            
-            console.log('Content fill result:', {
-              expectedLength: contentText.length,
-              actualLength: actualText.length,
-              wasSet: wasSet,
-              preview: actualText.substring(0, 50)
-            });
-            
-            return wasSet;
-          `, content.content);
-          
-          return result === true;
-        },
-        {
-          timeout: 25000,
-          interval: 1000,
-          maxRetries: 25,
-          description: 'content field'
-        }
-      );
-      
-      contentFilled = true;
-      console.log(`✅ Content filled and verified`);
-    } catch (e: any) {
-      console.error("❌ Failed to fill content:", e.message);
-      throw new Error(`Failed to fill content: ${e.message}`);
-    }
+            return true;
+          }
+          return false;
+        `);
+        return result === true;
+      },
+      {
+        timeout: 20000, // Increased timeout
+        interval: 1000,
+        maxRetries: 20, // More retries
+        description: 'enabled Publish button in header'
+      }
+    );
+    publishButtonEnabled = true;
+    console.log("✅ 'Publish' button is visible and enabled");
+  } catch (e) {
+    console.warn("⚠️ 'Publish' button not found or not enabled after waiting");
+    console.warn("⚠️ This might mean Medium hasn't recognized the content yet");
+    console.warn("⚠️ Proceeding anyway, but publish may fail...");
+  }
+
+  // Explicitly save the draft before publishing
+  await saveMediumDraft(service, false);
+
+  // Add tags if provided
+  if (content.tags && content.tags.length > 0) {
+    service.beginStep('Add tags');
+    // Look for tags input (usually appears after typing)
+    const tagsInputSelector = service.getSelector('medium', 'tagsInput');
+    const tagsExist = await service.elementExists(tagsInputSelector);
     
-    // Wait longer for Medium to process content and update React state
-    // Medium needs time to:
-    // 1. Process the input events
-    // 2. Update React state
-    // 3. Create post ID (if needed)
-    // 4. Remove js-buttonDisabledPrimary class
-    console.log("⏳ Waiting for Medium to process content and enable publish button...");
-    await service.humanDelay(8000, 12000); // Longer wait for React state to update and post ID creation
-
-    // Final verification: Ensure both title and content are filled
-    console.log("🔍 Verifying title and content were filled...");
-    const verification = await service.executeScript(`
-      const mainEditor = document.querySelector('.postArticle-content.js-postField, .postArticle-content, [id^="editor_"], [class*="js-postField"]');
-      if (!mainEditor) return { hasEditor: false };
-      
-      // Find section-inner div (where title and content are)
-      const section = mainEditor.querySelector('section.section--body');
-      const sectionInner = section ? section.querySelector('.section-inner.sectionLayout--insetColumn') : null;
-      
-      const titleElement = sectionInner ? sectionInner.querySelector('h3[data-testid="editorTitleParagraph"], h3.graf--title, h2.graf--title, h1.graf--title') : null;
-      const titleText = titleElement ? (titleElement.textContent || '').trim() : '';
-      
-      const contentElement = sectionInner ? sectionInner.querySelector('p[data-testid="editorParagraphText"], p.graf--p:not(.graf--title), p.graf-after--h3') : null;
-      const contentText = contentElement ? (contentElement.textContent || '').trim() : '';
+    if (tagsExist) {
+      for (const tag of content.tags.slice(0, 5)) { // Medium allows max 5 tags
+        await service.fillInput(tagsInputSelector, tag, { by: 'css' });
+        await service.humanDelay(500, 1000);
+        // Press Enter to add tag
+        await service.executeScript(`
+          const input = document.querySelector(arguments[0]);
+          if (input) {
+            const event = new KeyboardEvent('keydown', { key: 'Enter', bubbles: true });
+            input.dispatchEvent(event);
+          }
+        `, tagsInputSelector);
+        await service.humanDelay(500, 1000);
+      }
+    }
+  }
+
+  // Step 1: Click the "Publish" button in the header (top right)
+  service.beginStep("Click 'Publish' in header");
+  console.log("🚀 Step 1: Looking for 'Publish' button in header...");
+  let publishButtonClicked = false;
+  
+  // First, try to find the green "Publish" button in the header using JavaScript
+  // This is more reliable since it's in the header and might have dynamic classes
+  try {
+    const clicked = await service.executeScript(`
+      // Look for button with "Publish" text, typically in the header
+      const buttons = Array.from(document.querySelectorAll('button'));
+      const publishButton = buttons.find(btn => {
+        const text = (btn.textContent || '').toLowerCase().trim();
+        const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
+        
+        // Look for exact "Publish" text (not "Publish now" or "Schedule")
+        const isPublish = text === 'publish' || 
+                         (text.includes('publish') && !text.includes('now') && !text.includes('schedule'));
+        
+        // Also check if it's in the header area (top of page)
+        const rect = btn.getBoundingClientRect();
+        const isInHeader = rect.top < 100; // Header is typically in top 100px
+        
+        return isPublish && isInHeader;
+      });
       
-      return {
-        hasEditor: true,
-        hasSection: !!section,
-        hasSectionInner: !!sectionInner,
-        hasTitle: titleText.length > 0,
-        titleLength: titleText.length,
-        titlePreview: titleText.substring(0, 30),
-        hasContent: contentText.length > 0,
-        contentLength: contentText.length,
-        contentPreview: contentText.substring(0, 50)
-      };
+      if (publishButton) {
+        publishButton.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        publishButton.click();
+        return true;
+      }
+      return false;
     `);
+    if (clicked) {
+      console.log("✅ Clicked 'Publish' button in header via JavaScript");
+      publishButtonClicked = true;
+      await service.humanDelay(3000, 5000); // Wait for modal/confirmation to appear
+    }
+  } catch (e) {
+    console.warn("⚠️ Could not click publish button via JavaScript:", e);
+  }
+  
+  // If JavaScript didn't work, try CSS selectors
+  if (!publishButtonClicked) {
+    const headerPublishSelectors = service.getSelectors('medium', 'headerPublishButton');
     
-    console.log("📋 Content verification:", JSON.stringify(verification, null, 2));
-    
-    if (!verification.hasTitle || !verification.hasContent) {
-      // Try to save draft before throwing error
+    for (const selector of headerPublishSelectors) {
       try {
-        await service.executeScript(`
-          const editors = document.querySelectorAll('[contenteditable="true"]');
-          editors.forEach(editor => {
-            editor.blur();
-            editor.dispatchEvent(new Event('blur', { bubbles: true }));
-          });
-        `);
-        await service.humanDelay(2000, 3000);
+        const exists = await service.elementExists(selector);
+        if (exists) {
+          // Verify it's in the header (top area)
+          const isInHeader = await service.executeScript(`
+            const btn = document.querySelector(arguments[0]);
+            if (!btn) return false;
+            const rect = btn.getBoundingClientRect();
+            return rect.top < 100;
+          `, selector);
+          
+          if (isInHeader) {
+            console.log(`✅ Found publish button in header: ${selector}`);
+            await service.clickElement(selector, { by: 'css' });
+            publishButtonClicked = true;
+            await service.humanDelay(3000, 5000);
+            break;
+          }
+        }
       } catch (e) {
-        // Ignore save errors
+        // Continue
       }
-      throw new Error(`Content not filled properly. Title: ${verification.hasTitle ? 'Yes' : 'No'} (${verification.titleLength} chars), Content: ${verification.hasContent ? 'Yes' : 'No'} (${verification.contentLength} chars)`);
     }
-    
-    console.log(`✅ Verified: Title (${verification.titleLength} chars) and Content (${verification.contentLength} chars) are filled`);
+  }
+  
+  if (!publishButtonClicked) {
+    throw new SelectorNotFoundError("Could not find or click the 'Publish' button in the header");
+  }
 
-    // Wait for the green "Publish" button to appear and be enabled
-    // This button only appears after both title and content are filled AND Medium's React state is updated
-    console.log("⏳ Waiting for 'Publish' button to appear and be enabled...");
-    let publishButtonEnabled = false;
-    try {
-      await service.findElementsWithRetry(
-        async () => {
-          const result = await service.executeScript(`
-            // Try multiple selectors for publish button
-            const buttons = Array.from(document.querySelectorAll('button'));
-            const publishButton = buttons.find(btn => {
-              const text = (btn.textContent || '').toLowerCase().trim();
-              const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
-              
-              // Look for "Publish" text (not "Publish now" or "Schedule")
-              const isPublish = text === 'publish' || 
-                               (text.includes('publish') && !text.includes('now') && !text.includes('schedule'));
-              
-              // Check if in header (top right area)
-              const rect = btn.getBoundingClientRect();
-              const isInHeader = rect.top < 150 && rect.right > window.innerWidth - 200;
-              
-              if (!isPublish || !isInHeader) return false;
-              
-              // Check if it's enabled (not disabled)
-              const isDisabled = btn.disabled || 
-                                btn.classList.contains('js-buttonDisabledPrimary') ||
-                                btn.classList.contains('button--disabled') ||
-                                btn.classList.contains('disabled');
-              
-              // Check if visible
-              const isVisible = btn.offsetParent !== null &&
-                               window.getComputedStyle(btn).display !== 'none' &&
-                               window.getComputedStyle(btn).visibility !== 'hidden';
-              
-              return !isDisabled && isVisible;
-            });
-            
-            if (publishButton) {
-              const hasDisabledClass = publishButton.classList.contains('js-buttonDisabledPrimary');
-              const hasPostIdClass = publishButton.classList.contains('js-buttonRequiresPostId');
-              
-              console.log('Publish button found:', {
-                text: publishButton.textContent,
-                disabled: publishButton.disabled,
-                hasDisabledClass: hasDisabledClass,
-                hasPostIdClass: hasPostIdClass,
-                classes: publishButton.className,
-                visible: publishButton.offsetParent !== null,
-                dataAction: publishButton.getAttribute('data-action')
-              });
-              
-              // Button must not have js-buttonDisabledPrimary class to be enabled
-              if (hasDisabledClass) {
-                console.log('Button still has js-buttonDisabledPrimary class - Medium has not recognized content yet');
-                return false;
-              }
-              
-              return true;
-            }
-            return false;
-          `);
-          return result === true;
-        },
-        {
-          timeout: 20000, // Increased timeout
-          interval: 1000,
-          maxRetries: 20, // More retries
-          description: 'enabled Publish button in header'
-        }
-      );
-      publishButtonEnabled = true;
-      console.log("✅ 'Publish' button is visible and enabled");
-    } catch (e) {
-      console.warn("⚠️ 'Publish' button not found or not enabled after waiting");
-      console.warn("⚠️ This might mean Medium hasn't recognized the content yet");
-      console.warn("⚠️ Proceeding anyway, but publish may fail...");
+  // New stories get the prepublish modal; changes to a live story are saved directly and
+  // leave the editor. A new story can still be at /new-story here, so go by the page
+  if ((await waitForMediumPublishModal(service)) !== 'left-editor') {
+    if (publication) {
+      const access = await chooseMediumPublication(service, publication, artifacts);
+      if (access === 'submit') {
+        return submitMediumStory(service, publication, artifacts);
+      }
     }
+    await clickMediumPublishNow(service, artifacts);
+  } else {
+    console.log("✅ Left the editor without the publish modal (changes to a live story are saved directly)");
+  }
 
-    // Explicitly save the draft before publishing
-    console.log("💾 Saving draft before publishing...");
+  // Step 3: Wait for redirect to published post (not /edit)
+  service.beginStep('Wait for published story URL');
+  console.log("⏳ Step 3: Waiting for redirect to published post...");
+  
+  // Wait for modal to close first (indicates publish was triggered)
+  console.log("⏳ Waiting for modal to close...");
+  let modalClosed = false;
+  for (let i = 0; i < 10; i++) {
+    await service.humanDelay(2000, 3000);
+    const modalStillOpen = await service.executeScript(`
+      const modals = document.querySelectorAll('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
+      return Array.from(modals).some(modal => {
+        const style = window.getComputedStyle(modal);
+        return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
+      });
+    `);
+    
+    if (!modalStillOpen) {
+      console.log("✅ Modal closed, publish was triggered");
+      modalClosed = true;
+      break;
+    }
+    console.log(`⏳ Modal still open, waiting... (${i + 1}/10)`);
+  }
+  
+  if (!modalClosed) {
+    console.warn("⚠️ Modal didn't close, but continuing to check URL...");
+  }
+  
+  // Give Medium more time to process and redirect
+  await service.humanDelay(10000, 15000); // Longer wait for Medium to process
+  
+  let publishedUrl = await service.getCurrentUrl();
+  console.log(`📍 Current URL after publish: ${publishedUrl}`);
+  
+  // Check if still in edit mode
+  if (isMediumEditorUrl(publishedUrl)) {
+    console.warn("⚠️ Still in edit mode, waiting longer for redirect...");
+    // Wait up to 30 more seconds for redirect (Medium can be slow)
     try {
-      // Look for save indicator or trigger a save
-      await service.executeScript(`
-        // Try to trigger a save by blurring the editor
-        const editors = document.querySelectorAll('[contenteditable="true"]');
-        editors.forEach(editor => {
-          editor.blur();
-          editor.dispatchEvent(new Event('blur', { bubbles: true }));
-        });
-        
-        // Wait a moment for auto-save
-        return true;
-      `);
-      await service.humanDelay(3000, 5000); // Wait for auto-save to complete
-      console.log("✅ Draft saved");
+      await service.waitForUrl(new RegExp(`${getHostPattern('medium')}\\/${STORY_PATH_PATTERN}`), 30000);
+      publishedUrl = await service.getCurrentUrl();
+      console.log(`📍 URL after waiting: ${publishedUrl}`);
     } catch (e) {
-      console.warn("⚠️ Could not explicitly save draft, continuing...");
+      // Still in edit mode - this means it didn't publish
+      // Check if we can navigate to the post without /edit
+      try {
+        const postId = publishedUrl.match(/\/p\/([^\/]+)/)?.[1];
+        if (postId) {
+          const publishedUrlWithoutEdit = publishedUrl.replace('/edit', '');
+          console.log(`🔄 Trying to navigate to published URL: ${publishedUrlWithoutEdit}`);
+          await service.navigateTo(publishedUrlWithoutEdit);
+          await service.humanDelay(3000, 5000);
+          const newUrl = await service.getCurrentUrl();
+          if (!isMediumEditorUrl(newUrl)) {
+            publishedUrl = newUrl;
+            console.log(`✅ Successfully navigated to published URL: ${publishedUrl}`);
+          } else {
+            throw new PublishedAsDraftError(`Story was saved as draft but not published. URL still contains '/edit': ${publishedUrl}`);
+          }
+        } else {
+          throw new PublishedAsDraftError(`Story was saved as draft but not published. URL still contains '/edit': ${publishedUrl}`);
+        }
+      } catch (navError) {
+        throw new PublishedAsDraftError(`Story was saved as draft but not published. URL still contains '/edit': ${publishedUrl}`);
+      }
     }
+  }
+  
+  // Verify we're not in edit mode
+  if (isMediumEditorUrl(publishedUrl)) {
+    throw new PublishedAsDraftError(`Publish failed - story is still in draft/edit mode. URL: ${publishedUrl}`);
+  }
+  
+  // Extract post ID from URL
+  const urlMatch = publishedUrl.match(new RegExp(`${getHostPattern('medium')}\\/${STORY_PATH_PATTERN}`));
+  const postId = urlMatch ? urlMatch[1] : undefined;
+  
+  console.log(`✅ Successfully published to Medium! URL: ${publishedUrl}, Post ID: ${postId}`);
 
-    // Add tags if provided
-    if (content.tags && content.tags.length > 0) {
-      // Look for tags input (usually appears after typing)
-      const tagsInputSelector = 'input[placeholder*="tag"], input[placeholder*="Tag"]';
-      const tagsExist = await service.elementExists(tagsInputSelector);
-      
-      if (tagsExist) {
-        for (const tag of content.tags.slice(0, 5)) { // Medium allows max 5 tags
-          await service.fillInput(tagsInputSelector, tag, { by: 'css' });
-          await service.humanDelay(500, 1000);
-          // Press Enter to add tag
-          await service.executeScript(`
-            const input = document.querySelector('${tagsInputSelector}');
-            if (input) {
-              const event = new KeyboardEvent('keydown', { key: 'Enter', bubbles: true });
-              input.dispatchEvent(event);
-            }
-          `);
-          await service.humanDelay(500, 1000);
-        }
+  return {
+    success: true,
+    url: publishedUrl,
+    postId,
+    state: 'published',
+    publication,
+  };
+}
+
+/**
+ * Pick the publication (slug or ID) in the prepublish modal's publication list
+ * Returns whether the modal then offers "Publish now" ('publish') or, for writers
+ * without editor rights, "Submit to publication" ('submit')
+ */
+async function chooseMediumPublication(
+  service: SeleniumBaseService,
+  publication: string,
+  artifacts: ArtifactRecorder
+): Promise<'publish' | 'submit'> {
+  service.beginStep('Choose publication');
+  console.log(`📚 Choosing publication: ${publication}`);
+  await service.humanDelay(2000, 3000); // Let the modal finish opening
+
+  const pickerSelector = await service.findFirstSelector('medium', 'publicationPicker');
+  if (!pickerSelector) {
+    await artifacts.capture(service, 'publication-picker-not-found', { elements: true });
+    throw new SelectorNotFoundError('Could not find the publication picker in the publish modal');
+  }
+  await service.clickElement(pickerSelector, { by: 'css' });
+  await service.humanDelay(1000, 2000);
+
+  // Options are matched by slug, ID, link or name (as a slug)
+  const picked = await service.executeScript(`
+    const wanted = arguments[0].toLowerCase();
+    const options = Array.from(document.querySelectorAll(arguments[1]));
+    const toSlug = text => (text || '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const option = options.find(option => {
+      const link = option.matches('a[href]') ? option : option.querySelector('a[href]');
+      const href = link ? link.getAttribute('href').split(/[?#]/)[0].replace(/\\/+$/, '').toLowerCase() : '';
+      return (option.getAttribute('data-publication-slug') || '').toLowerCase() === wanted ||
+             (option.getAttribute('data-publication-id') || '').toLowerCase() === wanted ||
+             (href && href.endsWith('/' + wanted)) ||
+             toSlug(option.textContent) === wanted;
+    });
+    if (!option) {
+      return { found: false, available: options.map(option => (option.textContent || '').trim()) };
+    }
+    option.click();
+    return { found: true, name: (option.textContent || '').trim() };
+  `, publication, service.getSelector('medium', 'publicationOption'));
+
+  if (!picked?.found) {
+    await artifacts.capture(service, 'publication-not-found');
+    const available = picked?.available?.length ? picked.available.join(', ') : 'none';
+    throw new ContentRejectedError(`This account cannot publish or submit to the Medium publication "${publication}" (available: ${available})`);
+  }
+  console.log(`✅ Chose publication: ${picked.name}`);
+  await service.humanDelay(1000, 2000);
+
+  const canSubmitOnly = await service.executeScript(`
+    const buttons = Array.from(document.querySelectorAll('[role="dialog"] button, .overlay button'));
+    const visible = btn => btn.offsetParent !== null && window.getComputedStyle(btn).display !== 'none';
+    const hasSubmit = buttons.some(btn => visible(btn) && (btn.textContent || '').toLowerCase().trim().startsWith('submit'));
+    const hasPublishNow = buttons.some(btn => visible(btn) && (btn.textContent || '').toLowerCase().includes('publish now'));
+    return hasSubmit && !hasPublishNow;
+  `);
+
+  return canSubmitOnly ? 'submit' : 'publish';
+}
+
+/**
+ * Submit the story to a publication's editors ("Submit to publication" in the prepublish
+ * modal) - it stays a draft until an editor publishes it
+ */
+async function submitMediumStory(
+  service: SeleniumBaseService,
+  publication: string,
+  artifacts: ArtifactRecorder
+): Promise<MediumPublishResult> {
+  service.beginStep('Submit to publication');
+  console.log(`📨 No editor rights in ${publication} - submitting the story for review...`);
+
+  const clicked = await service.executeScript(`
+    const buttons = Array.from(document.querySelectorAll('[role="dialog"] button, .overlay button'));
+    const submitButton = buttons.find(btn => {
+      const text = (btn.textContent || '').toLowerCase().trim();
+      return text.startsWith('submit') && !btn.disabled && btn.offsetParent !== null;
+    });
+    if (!submitButton) return false;
+    submitButton.click();
+    return true;
+  `);
+
+  if (!clicked) {
+    await artifacts.capture(service, 'submit-button-not-found', { elements: true });
+    throw new SelectorNotFoundError("Could not find the 'Submit to publication' button in the publish modal");
+  }
+
+  // The modal closes once Medium has taken the submission
+  try {
+    await service.findElementsWithRetry(
+      async () => {
+        return await service.executeScript(`
+          const modals = document.querySelectorAll('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
+          return !Array.from(modals).some(modal => {
+            const style = window.getComputedStyle(modal);
+            return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
+          });
+        `);
+      },
+      {
+        timeout: 20000,
+        interval: 2000,
+        maxRetries: 10,
+        description: 'submission to be accepted'
       }
+    );
+  } catch (e: any) {
+    if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+      throw e;
     }
+    throw new PublishedAsDraftError(`Story was saved as a draft but the submission to ${publication} was not confirmed`);
+  }
 
-    // Step 1: Click the "Publish" button in the header (top right)
-    console.log("🚀 Step 1: Looking for 'Publish' button in header...");
-    let publishButtonClicked = false;
-    
-    // First, try to find the green "Publish" button in the header using JavaScript
-    // This is more reliable since it's in the header and might have dynamic classes
-    try {
-      const clicked = await service.executeScript(`
-        // Look for button with "Publish" text, typically in the header
-        const buttons = Array.from(document.querySelectorAll('button'));
-        const publishButton = buttons.find(btn => {
-          const text = (btn.textContent || '').toLowerCase().trim();
-          const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
-          
-          // Look for exact "Publish" text (not "Publish now" or "Schedule")
-          const isPublish = text === 'publish' || 
-                           (text.includes('publish') && !text.includes('now') && !text.includes('schedule'));
-          
-          // Also check if it's in the header area (top of page)
-          const rect = btn.getBoundingClientRect();
-          const isInHeader = rect.top < 100; // Header is typically in top 100px
-          
-          return isPublish && isInHeader;
-        });
-        
-        if (publishButton) {
-          publishButton.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          publishButton.click();
-          return true;
-        }
-        return false;
-      `);
-      if (clicked) {
-        console.log("✅ Clicked 'Publish' button in header via JavaScript");
-        publishButtonClicked = true;
-        await service.humanDelay(3000, 5000); // Wait for modal/confirmation to appear
+  const editUrl = await service.getCurrentUrl();
+  const postId = getMediumStoryId(editUrl);
+  console.log(`✅ Submitted to ${publication} for review: ${editUrl}`);
+
+  return {
+    success: true,
+    url: editUrl,
+    postId,
+    state: 'submitted',
+    publication,
+    editUrl,
+  };
+}
+
+/**
+ * Make Medium save the draft (blurring the editor triggers its autosave) and wait for
+ * the status in the header to read "Saved"
+ * With `required` an unconfirmed save throws; otherwise it is only logged, as publishing
+ * saves the story anyway
+ */
+async function saveMediumDraft(service: SeleniumBaseService, required: boolean): Promise<void> {
+  service.beginStep('Save draft');
+  console.log("💾 Saving draft...");
+  try {
+    await service.executeScript(`
+      // Try to trigger a save by blurring the editor
+      const editors = document.querySelectorAll('[contenteditable="true"]');
+      editors.forEach(editor => {
+        editor.blur();
+        editor.dispatchEvent(new Event('blur', { bubbles: true }));
+      });
+      return true;
+    `);
+    await service.humanDelay(3000, 5000); // Wait for auto-save to complete
+  } catch (e) {
+    console.warn("⚠️ Could not explicitly save draft, continuing...");
+  }
+
+  const statusSelector = await service.findFirstSelector('medium', 'draftStatus');
+  if (!statusSelector) {
+    if (required) {
+      throw new SelectorNotFoundError('Could not find the draft save status in the editor header - the draft may not be saved');
+    }
+    console.warn("⚠️ No draft save status found, continuing...");
+    return;
+  }
+
+  try {
+    await service.findElementsWithRetry(
+      async () => {
+        const status = (await service.getElementText(statusSelector)).toLowerCase();
+        return status.includes('saved') && !status.includes('saving');
+      },
+      {
+        timeout: 15000,
+        interval: 1000,
+        maxRetries: 15,
+        description: "'Saved' draft status"
       }
-    } catch (e) {
-      console.warn("⚠️ Could not click publish button via JavaScript:", e);
+    );
+    console.log("✅ Draft saved");
+  } catch (e: any) {
+    if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+      throw e;
     }
-    
-    // If JavaScript didn't work, try CSS selectors
-    if (!publishButtonClicked) {
-      const headerPublishSelectors = [
-        'button[data-testid="publish-button"]',
-        'button[aria-label*="Publish"]',
-        'button[aria-label*="publish"]',
-        'button:has-text("Publish")',
-      ];
+    if (required) {
+      throw new SelectorNotFoundError("Medium did not confirm the draft was saved (status never showed 'Saved')");
+    }
+    console.warn("⚠️ Draft save not confirmed, continuing...");
+  }
+}
+
+/**
+ * Click "Publish now" in the prepublish modal
+ */
+async function clickMediumPublishNow(service: SeleniumBaseService, artifacts: ArtifactRecorder): Promise<void> {
+  // Step 2: Wait for the publish modal to appear and click "Publish now" button
+  service.beginStep("Click 'Publish now' in modal");
+  console.log("🚀 Step 2: Waiting for publish modal and clicking 'Publish now' button...");
+  await service.humanDelay(4000, 6000); // Extra wait for modal animation to complete
+  
+  // First, verify the modal is actually visible
+  const modalVisible = await service.executeScript(`
+    const modals = document.querySelectorAll('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
+    return Array.from(modals).some(modal => {
+      const style = window.getComputedStyle(modal);
+      return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
+    });
+  `);
+  
+  if (!modalVisible) {
+    console.warn("⚠️ Modal not visible yet, waiting longer...");
+    await service.humanDelay(3000, 5000);
+  }
+  
+  let publishNowClicked = false;
+  
+  // Use JavaScript FIRST to find "Publish now" button by exact text match
+  // This is more reliable than CSS selectors
+  try {
+    const clicked = await service.executeScript(`
+      // Look for button with "Publish now" text in the modal
+      // There are two options: "Publish now" and "Schedule for later"
+      // We need to click "Publish now" specifically
+      const buttons = Array.from(document.querySelectorAll('button'));
+      const publishNowButton = buttons.find(btn => {
+        const text = (btn.textContent || '').toLowerCase().trim();
+        const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
+        
+        // Check if button is in a modal/overlay
+        const modal = btn.closest('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
+        if (!modal) return false;
+        
+        // Look for "Publish now" specifically - must contain both words
+        // Make sure it's NOT "Schedule for later"
+        const hasPublishNow = (text.includes('publish now') || text === 'publish now' || ariaLabel.includes('publish now')) &&
+                             !text.includes('schedule') && 
+                             !text.includes('later') &&
+                             !ariaLabel.includes('schedule');
+        
+        // Make sure it's not disabled
+        if (btn.disabled) return false;
+        
+        return hasPublishNow;
+      });
       
-      for (const selector of headerPublishSelectors) {
-        try {
-          const exists = await service.elementExists(selector);
-          if (exists) {
-            // Verify it's in the header (top area)
-            const isInHeader = await service.executeScript(`
-              const btn = document.querySelector('${selector}');
-              if (!btn) return false;
-              const rect = btn.getBoundingClientRect();
-              return rect.top < 100;
-            `);
-            
-            if (isInHeader) {
-              console.log(`✅ Found publish button in header: ${selector}`);
-              await service.clickElement(selector, { by: 'css' });
-              publishButtonClicked = true;
-              await service.humanDelay(3000, 5000);
-              break;
-            }
-          }
-        } catch (e) {
-          // Continue
+      if (publishNowButton) {
+        console.log('Found Publish now button, text:', publishNowButton.textContent);
+        console.log('Button disabled?', publishNowButton.disabled);
+        console.log('Button visible?', publishNowButton.offsetParent !== null);
+        
+        // Scroll into view and wait
+        publishNowButton.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        await new Promise(resolve => setTimeout(resolve, 1000)); // Longer delay before click
+        
+        // Check if button is still visible and enabled
+        if (publishNowButton.disabled || publishNowButton.offsetParent === null) {
+          console.warn('Button is disabled or not visible, cannot click');
+          return false;
+        }
+        
+        // Use multiple click methods to ensure it works
+        publishNowButton.focus();
+        await new Promise(resolve => setTimeout(resolve, 200));
+        
+        // Try mouse events first (more realistic)
+        const mouseDownEvent = new MouseEvent('mousedown', {
+          bubbles: true,
+          cancelable: true,
+          view: window,
+          button: 0
+        });
+        publishNowButton.dispatchEvent(mouseDownEvent);
+        
+        await new Promise(resolve => setTimeout(resolve, 100));
+        
+        const mouseUpEvent = new MouseEvent('mouseup', {
+          bubbles: true,
+          cancelable: true,
+          view: window,
+          button: 0
+        });
+        publishNowButton.dispatchEvent(mouseUpEvent);
+        
+        await new Promise(resolve => setTimeout(resolve, 100));
+        
+        // Then try click event
+        const clickEvent = new MouseEvent('click', {
+          bubbles: true,
+          cancelable: true,
+          view: window,
+          button: 0
+        });
+        publishNowButton.dispatchEvent(clickEvent);
+        
+        // Also try direct click as fallback
+        publishNowButton.click();
+        
+        // Wait a moment and verify the click worked
+        await new Promise(resolve => setTimeout(resolve, 500));
+        
+        // Check if button state changed (indicates click was processed)
+        const buttonAfterClick = document.querySelector('button') && 
+          Array.from(document.querySelectorAll('button')).find(btn => {
+            const text = (btn.textContent || '').toLowerCase().trim();
+            return text.includes('publish now');
+          });
+        
+        if (buttonAfterClick && buttonAfterClick.disabled) {
+          console.log('✅ Button is now disabled, click was processed');
         }
+        
+        return true;
       }
-    }
-    
-    if (!publishButtonClicked) {
-      throw new Error("Could not find or click the 'Publish' button in the header");
-    }
-
-    // Step 2: Wait for the publish modal to appear and click "Publish now" button
-    console.log("🚀 Step 2: Waiting for publish modal and clicking 'Publish now' button...");
-    await service.humanDelay(4000, 6000); // Extra wait for modal animation to complete
-    
-    // First, verify the modal is actually visible
-    const modalVisible = await service.executeScript(`
-      const modals = document.querySelectorAll('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
-      return Array.from(modals).some(modal => {
-        const style = window.getComputedStyle(modal);
-        return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
-      });
+      return false;
     `);
-    
-    if (!modalVisible) {
-      console.warn("⚠️ Modal not visible yet, waiting longer...");
-      await service.humanDelay(3000, 5000);
-    }
-    
-    let publishNowClicked = false;
-    
-    // Use JavaScript FIRST to find "Publish now" button by exact text match
-    // This is more reliable than CSS selectors
-    try {
-      const clicked = await service.executeScript(`
-        // Look for button with "Publish now" text in the modal
-        // There are two options: "Publish now" and "Schedule for later"
-        // We need to click "Publish now" specifically
+    if (clicked) {
+      console.log("✅ Clicked 'Publish now' button in modal via JavaScript");
+      publishNowClicked = true;
+      await service.humanDelay(5000, 8000); // Wait longer for publish to process
+    } else {
+      console.warn("⚠️ 'Publish now' button not found in modal via JavaScript");
+      // Log all buttons in modal for debugging
+      const allButtons = await service.executeScript(`
         const buttons = Array.from(document.querySelectorAll('button'));
-        const publishNowButton = buttons.find(btn => {
-          const text = (btn.textContent || '').toLowerCase().trim();
-          const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
-          
-          // Check if button is in a modal/overlay
+        const modalButtons = buttons.filter(btn => {
           const modal = btn.closest('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
-          if (!modal) return false;
-          
-          // Look for "Publish now" specifically - must contain both words
-          // Make sure it's NOT "Schedule for later"
-          const hasPublishNow = (text.includes('publish now') || text === 'publish now' || ariaLabel.includes('publish now')) &&
-                               !text.includes('schedule') && 
-                               !text.includes('later') &&
-                               !ariaLabel.includes('schedule');
-          
-          // Make sure it's not disabled
-          if (btn.disabled) return false;
-          
-          return hasPublishNow;
+          return modal !== null;
         });
-        
-        if (publishNowButton) {
-          console.log('Found Publish now button, text:', publishNowButton.textContent);
-          console.log('Button disabled?', publishNowButton.disabled);
-          console.log('Button visible?', publishNowButton.offsetParent !== null);
-          
-          // Scroll into view and wait
-          publishNowButton.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          await new Promise(resolve => setTimeout(resolve, 1000)); // Longer delay before click
-          
-          // Check if button is still visible and enabled
-          if (publishNowButton.disabled || publishNowButton.offsetParent === null) {
-            console.warn('Button is disabled or not visible, cannot click');
-            return false;
-          }
-          
-          // Use multiple click methods to ensure it works
-          publishNowButton.focus();
-          await new Promise(resolve => setTimeout(resolve, 200));
-          
-          // Try mouse events first (more realistic)
-          const mouseDownEvent = new MouseEvent('mousedown', {
-            bubbles: true,
-            cancelable: true,
-            view: window,
-            button: 0
-          });
-          publishNowButton.dispatchEvent(mouseDownEvent);
-          
-          await new Promise(resolve => setTimeout(resolve, 100));
-          
-          const mouseUpEvent = new MouseEvent('mouseup', {
-            bubbles: true,
-            cancelable: true,
-            view: window,
-            button: 0
-          });
-          publishNowButton.dispatchEvent(mouseUpEvent);
-          
-          await new Promise(resolve => setTimeout(resolve, 100));
-          
-          // Then try click event
-          const clickEvent = new MouseEvent('click', {
-            bubbles: true,
-            cancelable: true,
-            view: window,
-            button: 0
-          });
-          publishNowButton.dispatchEvent(clickEvent);
-          
-          // Also try direct click as fallback
-          publishNowButton.click();
-          
-          // Wait a moment and verify the click worked
-          await new Promise(resolve => setTimeout(resolve, 500));
-          
-          // Check if button state changed (indicates click was processed)
-          const buttonAfterClick = document.querySelector('button') && 
-            Array.from(document.querySelectorAll('button')).find(btn => {
-              const text = (btn.textContent || '').toLowerCase().trim();
-              return text.includes('publish now');
-            });
-          
-          if (buttonAfterClick && buttonAfterClick.disabled) {
-            console.log('✅ Button is now disabled, click was processed');
-          }
-          
-          return true;
-        }
-        return false;
+        return modalButtons.map(btn => ({
+          text: btn.textContent,
+          ariaLabel: btn.getAttribute('aria-label'),
+          disabled: btn.disabled
+        }));
       `);
-      if (clicked) {
-        console.log("✅ Clicked 'Publish now' button in modal via JavaScript");
-        publishNowClicked = true;
-        await service.humanDelay(5000, 8000); // Wait longer for publish to process
-      } else {
-        console.warn("⚠️ 'Publish now' button not found in modal via JavaScript");
-        // Log all buttons in modal for debugging
-        const allButtons = await service.executeScript(`
-          const buttons = Array.from(document.querySelectorAll('button'));
-          const modalButtons = buttons.filter(btn => {
-            const modal = btn.closest('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
-            return modal !== null;
-          });
-          return modalButtons.map(btn => ({
-            text: btn.textContent,
-            ariaLabel: btn.getAttribute('aria-label'),
-            disabled: btn.disabled
-          }));
-        `);
-        console.log("📋 All buttons found in modal:", JSON.stringify(allButtons, null, 2));
-      }
-    } catch (e) {
-      console.warn("⚠️ Could not click 'Publish now' button via JavaScript:", e);
+      console.log("📋 All buttons found in modal:", JSON.stringify(allButtons, null, 2));
     }
+  } catch (e) {
+    console.warn("⚠️ Could not click 'Publish now' button via JavaScript:", e);
+  }
+  
+  // If JavaScript didn't work, try CSS selectors as fallback
+  if (!publishNowClicked) {
+    const publishNowSelectors = service.getSelectors('medium', 'publishNowButton');
     
-    // If JavaScript didn't work, try CSS selectors as fallback
-    if (!publishNowClicked) {
-      const publishNowSelectors = [
-        'button[data-testid*="publish"]',
-        'button[aria-label*="Publish now"]',
-        'button[aria-label*="publish now"]',
-      ];
-      
-      for (const selector of publishNowSelectors) {
-        try {
-          const exists = await service.elementExists(selector);
-          if (exists) {
-            // Verify it's the "Publish now" button by checking text
-            // Make sure it's NOT "Schedule for later"
-            const isPublishNow = await service.executeScript(`
-              const button = document.querySelector('${selector}');
-              if (!button) return false;
-              const text = (button.textContent || '').toLowerCase().trim();
-              const modal = button.closest('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
-              if (!modal) return false;
-              
-              // Must contain "publish now" and NOT contain "schedule" or "later"
-              const hasPublishNow = text.includes('publish now') && 
-                                   !text.includes('schedule') && 
-                                   !text.includes('later');
-              
-              return hasPublishNow && !button.disabled;
-            `);
+    for (const selector of publishNowSelectors) {
+      try {
+        const exists = await service.elementExists(selector);
+        if (exists) {
+          // Verify it's the "Publish now" button by checking text
+          // Make sure it's NOT "Schedule for later"
+          const isPublishNow = await service.executeScript(`
+            const button = document.querySelector(arguments[0]);
+            if (!button) return false;
+            const text = (button.textContent || '').toLowerCase().trim();
+            const modal = button.closest('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
+            if (!modal) return false;
             
-            if (isPublishNow) {
-              console.log(`✅ Found 'Publish now' button in modal: ${selector}`);
-              await service.clickElement(selector, { by: 'css' });
-              publishNowClicked = true;
-              await service.humanDelay(5000, 8000);
-              break;
-            }
+            // Must contain "publish now" and NOT contain "schedule" or "later"
+            const hasPublishNow = text.includes('publish now') && 
+                                 !text.includes('schedule') && 
+                                 !text.includes('later');
+            
+            return hasPublishNow && !button.disabled;
+          `, selector);
+          
+          if (isPublishNow) {
+            console.log(`✅ Found 'Publish now' button in modal: ${selector}`);
+            await service.clickElement(selector, { by: 'css' });
+            publishNowClicked = true;
+            await service.humanDelay(5000, 8000);
+            break;
           }
-        } catch (e) {
-          // Continue
         }
+      } catch (e) {
+        // Continue
       }
     }
+  }
+  
+  if (!publishNowClicked) {
+    await artifacts.capture(service, 'publish-now-not-found', { elements: true });
     
-    if (!publishNowClicked) {
-      // Take screenshot for debugging
-      try {
-        const screenshot = await service.takeScreenshot();
-        console.log("📸 Screenshot taken - modal may not have appeared or button not found");
-      } catch (e) {
-        // Ignore screenshot errors
-      }
-      
-      // Check if we're still in edit mode
-      const currentUrl = await service.getCurrentUrl();
-      if (currentUrl.includes('/edit')) {
-        throw new Error("Failed to click 'Publish now' button in modal. Story is still in draft/edit mode. The modal may not have appeared or the button text doesn't match 'Publish now'.");
-      }
-      console.warn("⚠️ Could not find 'Publish now' button in modal, but URL doesn't contain '/edit' - may have published");
+    // Check if we're still in edit mode
+    const currentUrl = await service.getCurrentUrl();
+    if (isMediumEditorUrl(currentUrl)) {
+      throw new PublishedAsDraftError("Failed to click 'Publish now' button in modal. Story is still in draft/edit mode. The modal may not have appeared or the button text doesn't match 'Publish now'.");
     }
+    console.warn("⚠️ Could not find 'Publish now' button in modal, but the editor was left - may have published");
+  }
+}
 
-    // Step 3: Wait for redirect to published post (not /edit)
-    console.log("⏳ Step 3: Waiting for redirect to published post...");
-    
-    // Wait for modal to close first (indicates publish was triggered)
-    console.log("⏳ Waiting for modal to close...");
-    let modalClosed = false;
-    for (let i = 0; i < 10; i++) {
-      await service.humanDelay(2000, 3000);
-      const modalStillOpen = await service.executeScript(`
-        const modals = document.querySelectorAll('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
-        return Array.from(modals).some(modal => {
-          const style = window.getComputedStyle(modal);
-          return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
-        });
-      `);
-      
-      if (!modalStillOpen) {
-        console.log("✅ Modal closed, publish was triggered");
-        modalClosed = true;
-        break;
+/**
+ * Open the live story and check it shows the new title and the start of the new body
+ */
+async function confirmLiveMediumStory(
+  service: SeleniumBaseService,
+  storyUrl: string,
+  content: PublishContent
+): Promise<void> {
+  service.beginStep('Confirm live story');
+  console.log(`🔍 Checking the live story shows the changes: ${storyUrl}`);
+
+  try {
+    await service.findElementsWithRetry(
+      async () => {
+        await service.navigateTo(storyUrl);
+        await service.humanDelay(2000, 3000);
+
+        const live = await service.pageShowsContent(content.title, renderMediumHtml(content));
+
+        console.log('📋 Live story check:', live);
+        return live.hasTitle && live.hasBody;
+      },
+      {
+        timeout: 30000,
+        interval: 3000,
+        maxRetries: 5,
+        description: 'updated live story'
       }
-      console.log(`⏳ Modal still open, waiting... (${i + 1}/10)`);
+    );
+  } catch (e: any) {
+    // Keep definitive errors (login wall, navigation timeout); otherwise the text never showed up
+    if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+      throw e;
     }
-    
-    if (!modalClosed) {
-      console.warn("⚠️ Modal didn't close, but continuing to check URL...");
+    throw new EditNotLiveError(`Story changes were saved but the live story does not show them yet: ${storyUrl}`);
+  }
+
+  console.log("✅ Live story shows the changes");
+}
+
+/**
+ * Fill the Medium story body from HTML, building Medium's native graf structure:
+ * h3/h4 headings, paragraphs, graf--blockquote, graf--pre, postList items and
+ * markup--anchor/strong/em/code inline markup. Unsupported tags are unwrapped to text.
+ * Expects the title step to have created the section structure.
+ */
+async function fillMediumRichContent(
+  service: SeleniumBaseService,
+  html: string
+): Promise<boolean> {
+  return await service.executeScript(`
+    const html = arguments[0];
+    const selectors = arguments[1];
+
+    const mainEditor = document.querySelector(selectors.editor);
+    if (!mainEditor) {
+      console.log('❌ Main editor not found');
+      return false;
     }
-    
-    // Give Medium more time to process and redirect
-    await service.humanDelay(10000, 15000); // Longer wait for Medium to process
-    
-    let publishedUrl = await service.getCurrentUrl();
-    console.log(`📍 Current URL after publish: ${publishedUrl}`);
-    
-    // Check if still in edit mode
-    if (publishedUrl.includes('/edit')) {
-      console.warn("⚠️ Still in edit mode, waiting longer for redirect...");
-      // Wait up to 30 more seconds for redirect (Medium can be slow)
-      try {
-        await service.waitForUrl(/medium\.com\/@[\w-]+\/[\w-]+(?!\/edit)/, 30000);
-        publishedUrl = await service.getCurrentUrl();
-        console.log(`📍 URL after waiting: ${publishedUrl}`);
-      } catch (e) {
-        // Still in edit mode - this means it didn't publish
-        // Check if we can navigate to the post without /edit
-        try {
-          const postId = publishedUrl.match(/\/p\/([^\/]+)/)?.[1];
-          if (postId) {
-            const publishedUrlWithoutEdit = publishedUrl.replace('/edit', '');
-            console.log(`🔄 Trying to navigate to published URL: ${publishedUrlWithoutEdit}`);
-            await service.navigateTo(publishedUrlWithoutEdit);
-            await service.humanDelay(3000, 5000);
-            const newUrl = await service.getCurrentUrl();
-            if (!newUrl.includes('/edit')) {
-              publishedUrl = newUrl;
-              console.log(`✅ Successfully navigated to published URL: ${publishedUrl}`);
+
+    const sectionInner = mainEditor.querySelector('section.section--body .section-inner.sectionLayout--insetColumn');
+    if (!sectionInner) {
+      console.log('❌ Section structure not found');
+      return false;
+    }
+
+    const titleElement = sectionInner.querySelector(selectors.title);
+
+    // Remove any existing body grafs (keep the title)
+    Array.from(sectionInner.children).forEach(el => {
+      if (el !== titleElement) el.remove();
+    });
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const grafs = [];
+
+    const grafName = () => Math.random().toString(16).slice(2, 6);
+
+    const createGraf = (tag, type) => {
+      const el = document.createElement(tag);
+      el.className = 'graf graf--' + type;
+      el.setAttribute('name', grafName());
+      el.setAttribute('data-scroll', 'native');
+      grafs.push({ el, type });
+      return el;
+    };
+
+    const isSafeHref = (href) => /^(https?:|mailto:)/i.test(href || '');
+
+    // Copy inline content, mapping formatting tags to Medium markup classes
+    const appendInline = (source, target, grafType) => {
+      for (const node of Array.from(source.childNodes)) {
+        if (node.nodeType === Node.TEXT_NODE) {
+          target.appendChild(document.createTextNode(node.textContent));
+          continue;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+        const tag = node.tagName.toLowerCase();
+        let markup = null;
+
+        if (tag === 'strong' || tag === 'b') {
+          markup = document.createElement('strong');
+          markup.className = 'markup--strong markup--' + grafType + '-strong';
+        } else if (tag === 'em' || tag === 'i') {
+          markup = document.createElement('em');
+          markup.className = 'markup--em markup--' + grafType + '-em';
+        } else if (tag === 'code') {
+          markup = document.createElement('code');
+          markup.className = 'markup--code markup--' + grafType + '-code';
+        } else if (tag === 'a' && isSafeHref(node.getAttribute('href'))) {
+          markup = document.createElement('a');
+          markup.className = 'markup--anchor markup--' + grafType + '-anchor';
+          markup.setAttribute('href', node.getAttribute('href'));
+          markup.setAttribute('data-href', node.getAttribute('href'));
+          markup.setAttribute('rel', 'noopener');
+          markup.setAttribute('target', '_blank');
+        } else if (tag === 'br') {
+          target.appendChild(document.createElement('br'));
+          continue;
+        } else if (tag === 'p' || tag === 'div') {
+          // Nested block inside a quote/list item - separate with a line break
+          if (target.childNodes.length > 0) target.appendChild(document.createElement('br'));
+        }
+
+        if (markup) {
+          appendInline(node, markup, grafType);
+          target.appendChild(markup);
+        } else {
+          appendInline(node, target, grafType);
+        }
+      }
+    };
+
+    const appendList = (listEl) => {
+      const ordered = listEl.tagName.toLowerCase() === 'ol';
+      const list = document.createElement(ordered ? 'ol' : 'ul');
+      list.className = 'postList';
+      sectionInner.appendChild(list);
+
+      const addItems = (source) => {
+        for (const item of Array.from(source.children)) {
+          if (item.tagName.toLowerCase() !== 'li') continue;
+          const li = createGraf('li', 'li');
+          const nested = [];
+          const inlineHolder = document.createElement('div');
+          for (const child of Array.from(item.childNodes)) {
+            if (child.nodeType === Node.ELEMENT_NODE && ['ul', 'ol'].includes(child.tagName.toLowerCase())) {
+              nested.push(child);
             } else {
-              throw new Error(`Story was saved as draft but not published. URL still contains '/edit': ${publishedUrl}`);
+              inlineHolder.appendChild(child.cloneNode(true));
             }
-          } else {
-            throw new Error(`Story was saved as draft but not published. URL still contains '/edit': ${publishedUrl}`);
           }
-        } catch (navError) {
-          throw new Error(`Story was saved as draft but not published. URL still contains '/edit': ${publishedUrl}`);
+          appendInline(inlineHolder, li, 'li');
+          list.appendChild(li);
+          // Medium lists are flat - nested items follow their parent
+          nested.forEach(addItems);
+        }
+      };
+      addItems(listEl);
+    };
+
+    for (const node of Array.from(doc.body.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        if (node.textContent.trim()) {
+          const p = createGraf('p', 'p');
+          p.textContent = node.textContent.trim();
+          sectionInner.appendChild(p);
+        }
+        continue;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+      const tag = node.tagName.toLowerCase();
+
+      if (tag === 'h1' || tag === 'h2') {
+        const h = createGraf('h3', 'h3');
+        appendInline(node, h, 'h3');
+        sectionInner.appendChild(h);
+      } else if (/^h[3-6]$/.test(tag)) {
+        const h = createGraf('h4', 'h4');
+        appendInline(node, h, 'h4');
+        sectionInner.appendChild(h);
+      } else if (tag === 'blockquote') {
+        const quote = createGraf('blockquote', 'blockquote');
+        appendInline(node, quote, 'blockquote');
+        sectionInner.appendChild(quote);
+      } else if (tag === 'pre') {
+        const pre = createGraf('pre', 'pre');
+        pre.textContent = (node.textContent || '').replace(/\n$/, '');
+        sectionInner.appendChild(pre);
+      } else if (tag === 'ul' || tag === 'ol') {
+        appendList(node);
+      } else if (tag === 'hr') {
+        continue;
+      } else {
+        const p = createGraf('p', 'p');
+        appendInline(node, p, 'p');
+        if ((p.textContent || '').trim()) {
+          sectionInner.appendChild(p);
+        } else {
+          grafs.pop();
         }
       }
     }
-    
-    // Verify we're not in edit mode
-    if (publishedUrl.includes('/edit')) {
-      throw new Error(`Publish failed - story is still in draft/edit mode. URL: ${publishedUrl}`);
+
+    if (grafs.length === 0) {
+      console.log('❌ No content blocks produced from HTML');
+      return false;
     }
-    
-    // Extract post ID from URL
-    const urlMatch = publishedUrl.match(/medium\.com\/@[\w-]+\/([\w-]+)/);
-    const postId = urlMatch ? urlMatch[1] : undefined;
-    
-    console.log(`✅ Successfully published to Medium! URL: ${publishedUrl}, Post ID: ${postId}`);
 
-    return {
-      success: true,
-      url: publishedUrl,
-      postId,
-    };
-  } catch (error: any) {
-    console.error('Medium publish error:', error);
-    
-    // Take screenshot for debugging
-    let screenshot: string | undefined;
-    try {
-      screenshot = await service.takeScreenshot();
-    } catch (screenshotError) {
-      console.error('Failed to take screenshot:', screenshotError);
+    // Medium tags each graf with the type of the graf before it
+    let previousType = titleElement ? 'h3' : null;
+    grafs.forEach(({ el, type }, index) => {
+      if (previousType) el.classList.add('graf-after--' + previousType);
+      if (index === grafs.length - 1) el.classList.add('graf--trailing');
+      previousType = type;
+    });
+
+    // Trigger input events so Medium picks up the new content
+    for (const { el } of grafs) {
+      el.dispatchEvent(new InputEvent('input', { bubbles: true, cancelable: true, inputType: 'insertFromPaste' }));
     }
+    mainEditor.dispatchEvent(new InputEvent('input', { bubbles: true, cancelable: true }));
+    mainEditor.dispatchEvent(new Event('change', { bubbles: true }));
+    mainEditor.focus();
 
-    return {
-      success: false,
-      error: error.message || 'Failed to publish to Medium',
-      screenshot,
-    };
-  } finally {
-    await service.cleanup();
-  }
+    const textLength = grafs.reduce((total, { el }) => total + (el.textContent || '').trim().length, 0);
+    console.log('Rich content fill result:', { blocks: grafs.length, textLength });
+
+    return textLength > 0;
+  `, html, getStorySelectors(service));
 }
 
 /**
@@ -939,7 +1639,7 @@ async function loginToMedium(
     console.log("🍪 Using cookies for authentication...");
     console.log(`  - Found ${credentials.cookies.length} cookies`);
     
-    await service.navigateTo('https://medium.com');
+    await service.navigateTo(getBaseUrl('medium'));
     await service.humanDelay(2000, 3000);
     
     const driver = service.getDriver();
@@ -949,7 +1649,7 @@ async function loginToMedium(
     for (const cookie of credentials.cookies) {
       try {
         if (!cookie.name || !cookie.value) {
-          console.warn(`⚠️ Skipping invalid cookie (missing name or value):`, cookie);
+          console.warn(`⚠️ Skipping invalid cookie (missing name or value): ${cookie.name || '(unnamed)'}`);
           cookiesFailed++;
           continue;
         }
@@ -962,16 +1662,19 @@ async function loginToMedium(
         
         // Handle domain - Cookie-Editor uses "domain" field
         // Selenium needs domain without leading dot for hostOnly cookies
-        if (cookie.domain) {
-          // If hostOnly is true, use domain as-is (no leading dot)
-          // Otherwise, ensure it starts with a dot
-          if ((cookie as any).hostOnly === true) {
-            cookieToAdd.domain = cookie.domain.replace(/^\./, ''); // Remove leading dot
+        // A stand-in site gets no domain: exported cookies carry medium.com, so they are set on the current host
+        if (!isBaseUrlOverridden('medium')) {
+          if (cookie.domain) {
+            // If hostOnly is true, use domain as-is (no leading dot)
+            // Otherwise, ensure it starts with a dot
+            if ((cookie as any).hostOnly === true) {
+              cookieToAdd.domain = cookie.domain.replace(/^\./, ''); // Remove leading dot
+            } else {
+              cookieToAdd.domain = cookie.domain.startsWith('.') ? cookie.domain : `.${cookie.domain}`;
+            }
           } else {
-            cookieToAdd.domain = cookie.domain.startsWith('.') ? cookie.domain : `.${cookie.domain}`;
+            cookieToAdd.domain = '.medium.com';
           }
-        } else {
-          cookieToAdd.domain = '.medium.com';
         }
         
         // Add optional fields if present (handle both formats)
@@ -988,7 +1691,7 @@ async function loginToMedium(
         
         await driver.manage().addCookie(cookieToAdd);
         cookiesAdded++;
-        console.log(`  ✅ Added cookie: ${cookie.name} (domain: ${cookieToAdd.domain})`);
+        console.log(`  ✅ Added cookie: ${cookie.name} (domain: ${cookieToAdd.domain || 'current host'})`);
       } catch (error: any) {
         cookiesFailed++;
         console.warn(`  ⚠️ Failed to add cookie ${cookie.name}:`, error.message || error);
@@ -998,7 +1701,7 @@ async function loginToMedium(
     console.log(`🍪 Cookie summary: ${cookiesAdded} added, ${cookiesFailed} failed`);
     
     if (cookiesAdded === 0) {
-      throw new Error('Failed to add any cookies. Please check cookie format and values.');
+      throw new InvalidCredentialsError('Failed to add any cookies. Please check cookie format and values.');
     }
     
     await driver.navigate().refresh();
@@ -1026,7 +1729,7 @@ async function loginToMedium(
           
           // Quick selector check
           try {
-            const exists = await service.elementExists('a[href*="/me"], a[href*="/@"]');
+            const exists = await service.elementExists(service.getSelector('medium', 'signedInIndicator'));
             if (exists) {
               console.log("✅ Found login indicator in page");
               return true;
@@ -1072,11 +1775,11 @@ async function loginToMedium(
     throw new Error('Either cookies or email/password required for Medium login');
   }
 
-  await service.navigateTo('https://medium.com/m/signin');
+  await service.navigateTo(platformUrl('medium', '/m/signin'));
   await service.humanDelay(2000, 3000);
 
   // Click "Sign in with email"
-  const emailSignInSelector = 'button:contains("Sign in with email"), a[href*="email"]';
+  const emailSignInSelector = service.getSelector('medium', 'emailSignInButton');
   const emailSignInExists = await service.elementExists(emailSignInSelector);
   
   if (emailSignInExists) {
@@ -1085,163 +1788,311 @@ async function loginToMedium(
   }
 
   // Fill email
-  const emailInputSelector = 'input[type="email"], input[name="email"], input[placeholder*="email"]';
+  const emailInputSelector = service.getSelector('medium', 'emailInput');
   await service.fillInput(emailInputSelector, credentials.email, { by: 'css' });
   await service.humanDelay(1000, 2000);
 
   // Click continue/next
-  const continueButtonSelector = 'button:contains("Continue"), button[type="submit"]';
+  const continueButtonSelector = service.getSelector('medium', 'continueButton');
   await service.clickElement(continueButtonSelector, { by: 'css' });
   await service.humanDelay(2000, 3000);
 
   // Fill password
-  const passwordInputSelector = 'input[type="password"], input[name="password"]';
+  const passwordInputSelector = service.getSelector('medium', 'passwordInput');
   await service.fillInput(passwordInputSelector, credentials.password!, { by: 'css' });
   await service.humanDelay(1000, 2000);
 
   // Submit login
-  const submitButtonSelector = 'button[type="submit"], button:contains("Sign in")';
+  const submitButtonSelector = service.getSelector('medium', 'loginSubmitButton');
   await service.clickElement(submitButtonSelector, { by: 'css' });
   await service.humanDelay(3000, 5000);
 
   // Wait for redirect to home or dashboard
-  await service.waitForUrl(/medium\.com/, 30000);
+  await service.waitForUrl(new RegExp(getHostPattern('medium')), 30000);
   
   // Verify login success
-  const loggedIn = await service.elementExists('[data-testid="user-menu"]');
+  const loggedIn = await service.elementExists(service.getSelector('medium', 'userMenu'));
   if (!loggedIn) {
-    throw new Error('Failed to verify Medium login - may need CAPTCHA or 2FA');
+    throw new CaptchaRequiredError('Failed to verify Medium login - may need CAPTCHA or 2FA');
   }
 }
 
 /**
- * Verify Medium configuration
+ * Whether the session looks signed in (used by verify right after login)
  */
-export async function verifyMediumConfig(
-  config: MediumConfig
-): Promise<{ success: boolean; error?: string; user?: any }> {
-  // If cookies are provided, do a quick validation without full browser test
-  // This avoids timeout issues and is much faster
-  if (config.cookies && config.cookies.length > 0) {
-    console.log("🔍 Quick cookie validation (no browser needed)");
-    
-    // Check if cookies have required fields
-    const hasRequiredCookies = config.cookies.some(cookie => 
-      cookie.name === 'sid' || cookie.name === 'uid'
-    );
-    
-    if (hasRequiredCookies) {
-      console.log("✅ Cookies validated - Medium auth should work");
-      return {
-        success: true,
-        user: { 
-          email: config.email,
-          authMethod: 'cookies',
-          verified: true 
-        },
+async function isMediumSignedIn(service: SeleniumBaseService): Promise<boolean> {
+  const currentUrl = await service.getCurrentUrl();
+  if (currentUrl.includes('/me') || currentUrl.includes('/@') || currentUrl.includes('/new-story')) {
+    console.log("✅ URL indicates logged in");
+    return true;
+  }
+  const exists = await service.elementExists(service.getSelector('medium', 'signedInIndicator'));
+  if (exists) {
+    console.log("✅ Found login indicator");
+  }
+  return exists;
+}
+
+/**
+ * Medium story performance metrics
+ */
+export interface MediumMetrics {
+  claps: number;
+  responses: number;
+  views?: number;
+  reads?: number;
+  readRatio?: number; // Percentage of views that became reads (0-100)
+  fans?: number;
+  engagement?: number;
+  lastUpdated: string;
+  error?: string;
+  errorCode?: CrawlerErrorCode;
+  retryable?: boolean;
+}
+
+/**
+ * Get Medium's story ID (the trailing hex ID) from a story URL
+ * Supports /p/<id>, /@user/<slug>-<id> and publication URLs
+ */
+function getMediumStoryId(storyUrl: string): string | undefined {
+  const pathname = storyUrl.split(/[?#]/)[0].replace(/\/+$/, '');
+  const shortMatch = pathname.match(/\/p\/([0-9a-f]{8,16})(?:\/|$)/i);
+  if (shortMatch) {
+    return shortMatch[1];
+  }
+  const slugMatch = pathname.match(/-([0-9a-f]{8,16})$/i);
+  return slugMatch ? slugMatch[1] : undefined;
+}
+
+/**
+ * Read a Medium story's metrics on a signed-in session
+ * Claps and responses come from the public story page; views, reads, read ratio
+ * and fans come from the author's stats page (needs the owning account's cookies)
+ */
+async function readMediumMetrics(
+  service: SeleniumBaseService,
+  storyUrl: string
+): Promise<Omit<MediumMetrics, 'lastUpdated'>> {
+  // Let the login settle before opening the story
+  await service.humanDelay(2000, 3000);
+
+  // Story page: claps and responses
+  console.log(`📍 Navigating to story: ${storyUrl}`);
+  await service.navigateTo(storyUrl);
+  await service.humanDelay(3000, 5000);
+
+  console.log('📊 Extracting claps and responses from story page...');
+  const storyMetrics = await service.executeScript(`
+    const parseCount = (text) => {
+      const match = (text || '').trim().match(/^(\\d+(?:[,.]\\d+)*)\\s*(K|M)?$/i);
+      if (!match) return null;
+      let num = parseFloat(match[1].replace(/,/g, ''));
+      if (match[2]) {
+        const suffix = match[2].toUpperCase();
+        if (suffix === 'K') num *= 1000;
+        if (suffix === 'M') num *= 1000000;
+      }
+      return Math.round(num);
+    };
+
+    // Number shown inside or right after a button (Medium renders "<button/> <p>12</p>")
+    const countNear = (selector) => {
+      for (const el of document.querySelectorAll(selector)) {
+        const container = el.closest('div') || el.parentElement;
+        const candidates = [el, el.nextElementSibling, container, container && container.nextElementSibling];
+        for (const candidate of candidates) {
+          if (!candidate) continue;
+          const count = parseCount(candidate.textContent);
+          if (count !== null) return count;
+        }
+      }
+      return null;
+    };
+
+    const bodyText = document.body.innerText || '';
+
+    let claps = countNear('[data-testid="headerClapButton"], [data-testid="footerClapButton"], button[aria-label*="clap"]');
+    if (claps === null) {
+      const clapsMatch = bodyText.match(/(\\d+(?:[,.]\\d+)?)(K|M)?\\s*claps?/i);
+      claps = clapsMatch ? parseCount(clapsMatch[1] + (clapsMatch[2] || '')) : 0;
+    }
+
+    let responses = countNear('[data-testid="headerResponseButton"], [data-testid="footerResponseButton"], button[aria-label*="respond"], button[aria-label*="responses"]');
+    if (responses === null) {
+      const responsesMatch = bodyText.match(/Responses\\s*\\((\\d+(?:[,.]\\d+)?)(K|M)?\\)/i)
+        || bodyText.match(/(\\d+(?:[,.]\\d+)?)(K|M)?\\s*responses?/i);
+      responses = responsesMatch ? parseCount(responsesMatch[1] + (responsesMatch[2] || '')) : 0;
+    }
+
+    console.log('📊 Story page metrics:', { claps, responses });
+    return { claps: claps || 0, responses: responses || 0 };
+  `);
+
+  // Stats page: views, reads, read ratio, fans
+  let statsMetrics: { views?: number; reads?: number; readRatio?: number; fans?: number } = {};
+  const storyId = getMediumStoryId(storyUrl) || getMediumStoryId(await service.getCurrentUrl());
+
+  if (storyId) {
+    const statsUrl = platformUrl('medium', `/me/stats/post/${storyId}`);
+    console.log(`📍 Navigating to stats page: ${statsUrl}`);
+    await service.navigateTo(statsUrl);
+    await service.humanDelay(3000, 5000);
+
+    console.log('📊 Extracting views, reads and fans from stats page...');
+    statsMetrics = await service.executeScript(`
+      const bodyText = document.body.innerText || '';
+
+      const toNumber = (value, suffix) => {
+        let num = parseFloat(value.replace(/,/g, ''));
+        if (suffix) {
+          const s = suffix.toUpperCase();
+          if (s === 'K') num *= 1000;
+          if (s === 'M') num *= 1000000;
+        }
+        return num;
       };
-    } else {
-      console.warn("⚠️ Required cookies (sid or uid) not found, but accepting anyway");
-      return {
-        success: true,
-        user: { 
-          email: config.email,
-          authMethod: 'cookies',
-          verified: false 
-        },
+
+      // Stats tiles render as "1.2K\\nViews" or "Views\\n1.2K"
+      const findStat = (label) => {
+        const before = bodyText.match(new RegExp('(\\\\d+(?:[,.]\\\\d+)*)\\\\s*(K|M)?\\\\s*\\\\n?\\\\s*' + label + '\\\\b', 'i'));
+        if (before) return Math.round(toNumber(before[1], before[2]));
+        const after = bodyText.match(new RegExp(label + '\\\\s*\\\\n?\\\\s*(\\\\d+(?:[,.]\\\\d+)*)\\\\s*(K|M)?', 'i'));
+        if (after) return Math.round(toNumber(after[1], after[2]));
+        return undefined;
       };
-    }
+
+      const views = findStat('Views');
+      const reads = findStat('Reads');
+      const fans = findStat('Fans');
+
+      let readRatio;
+      const ratioMatch = bodyText.match(/Read ratio\\s*\\n?\\s*(\\d+(?:\\.\\d+)?)\\s*%/i)
+        || bodyText.match(/(\\d+(?:\\.\\d+)?)\\s*%\\s*\\n?\\s*Read ratio/i);
+      if (ratioMatch) {
+        readRatio = parseFloat(ratioMatch[1]);
+      }
+
+      console.log('📊 Stats page metrics:', { views, reads, readRatio, fans });
+      return { views, reads, readRatio, fans };
+    `) || {};
+  } else {
+    console.warn('⚠️ Could not determine story ID from URL - skipping stats page');
   }
-  
-  // If no cookies provided, do full browser verification (slower)
-  console.log("🔧 No cookies provided - doing full browser verification...");
-  const service = new SeleniumBaseService({
-    headless: true,
-    browser: 'chrome',
-    timeout: 30000, // Reduced to 30 seconds
-  });
 
-  try {
-    console.log("🔧 Initializing Selenium WebDriver...");
-    const initStart = Date.now();
-    await service.initialize();
-    const initTime = ((Date.now() - initStart) / 1000).toFixed(2);
-    console.log(`✅ WebDriver initialized in ${initTime}s`);
-
-    const credentials: LoginCredentials = {
-      email: config.email,
-      password: config.password,
-      cookies: config.cookies,
-    };
+  // Fall back to computing the read ratio when the page doesn't show it
+  let readRatio = statsMetrics.readRatio;
+  if (readRatio === undefined && statsMetrics.views && statsMetrics.reads !== undefined) {
+    readRatio = Math.round((statsMetrics.reads / statsMetrics.views) * 1000) / 10;
+  }
 
-    console.log("🔐 Attempting to login to Medium...");
-    const loginStart = Date.now();
-    
+  // Calculate engagement (claps + responses + fans)
+  const engagement = (storyMetrics.claps || 0) + (storyMetrics.responses || 0) + (statsMetrics.fans || 0);
+
+  return {
+    claps: storyMetrics.claps || 0,
+    responses: storyMetrics.responses || 0,
+    views: statsMetrics.views,
+    reads: statsMetrics.reads,
+    readRatio,
+    fans: statsMetrics.fans,
+    engagement,
+  };
+}
+
+/**
+ * Open Medium's new-story editor with a signed-in account and check the selector
+ * registry groups it uses - nothing is typed or published (used by the selector canary)
+ */
+export async function checkMediumSelectors(config: MediumConfig): Promise<SelectorPageCheck[]> {
+  return withPlatformSession(mediumAdapter, config, async service => {
+    const page: SelectorPageCheck = { page: 'new-story', groups: [] };
     try {
-      await loginToMedium(service, credentials);
-      const loginTime = ((Date.now() - loginStart) / 1000).toFixed(2);
-      console.log(`✅ Medium login completed in ${loginTime}s`);
-      
-      // Quick verification
-      console.log("🔍 Quick verification (max 3s)...");
-      let verified = false;
-      
-      try {
-        // Use Promise.race to limit verification time to 3 seconds
-        const verificationResult = await Promise.race([
-          (async () => {
-            try {
-              const currentUrl = await service.getCurrentUrl();
-              if (currentUrl.includes('/me') || currentUrl.includes('/@') || currentUrl.includes('/new-story')) {
-                console.log("✅ URL indicates logged in");
-                return true;
-              }
-              const exists = await service.elementExists('a[href*="/me"], a[href*="/@"]');
-              if (exists) {
-                console.log("✅ Found login indicator");
-                return true;
-              }
-              return false;
-            } catch (e) {
-              return false;
-            }
-          })(),
-          new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 3000)),
-        ]);
-        
-        verified = verificationResult;
-      } catch (e) {
-        console.warn("⚠️ Quick verification didn't complete - accepting as valid");
-      }
-      
-      if (verified) {
-        console.log("✅ Successfully verified Medium access");
-      } else {
-        console.warn("⚠️ Could not verify with quick check, but login completed - should work");
+      await service.navigateTo(platformUrl('medium', '/new-story'));
+      await service.humanDelay(5000, 8000);
+      page.url = await service.getCurrentUrl();
+
+      for (const group of ['signedInIndicator', 'editor', 'storyEditor', 'storyTitle', 'headerPublishButton']) {
+        page.groups.push(await service.checkSelectorGroup('medium', group));
       }
-      
-      return {
-        success: true,
-        user: { 
-          email: config.email,
-          authMethod: 'password',
-          verified 
-        },
-      };
-    } catch (loginError: any) {
-      const loginTime = ((Date.now() - loginStart) / 1000).toFixed(2);
-      console.error(`❌ Medium login error after ${loginTime}s:`, loginError.message);
-      throw loginError;
+    } catch (error: any) {
+      console.error('❌ Selector canary could not open the Medium editor:', error.message);
+      page.error = error.message || 'Failed to open page';
     }
-  } catch (error: any) {
-    console.error("❌ Medium verification error:", error);
-    return {
-      success: false,
-      error: error.message || 'Failed to verify Medium access',
-    };
-  } finally {
-    console.log("🧹 Cleaning up Selenium resources...");
-    await service.cleanup();
-  }
+
+    return [page];
+  });
+}
+
+/**
+ * Publish a story to Medium
+ * Same as publishToPlatform(mediumAdapter, ...), kept for existing callers
+ */
+export function publishToMedium(
+  config: MediumConfig,
+  content: PublishContent,
+  onStep?: StepListener,
+  options: MediumPublishOptions = {}
+): Promise<MediumPublishResult> {
+  return publishToPlatform(mediumAdapter, config, content, options, onStep);
+}
+
+/**
+ * Track a Medium story's metrics
+ * Same as trackPlatformPost(mediumAdapter, ...), kept for existing callers
+ */
+export async function trackMediumPerformance(config: MediumConfig, storyUrl: string): Promise<MediumMetrics> {
+  return (await trackPlatformPost(mediumAdapter, config, storyUrl)) as MediumMetrics;
+}
+
+/**
+ * Check that the Medium credentials can sign in
+ * Same as verifyPlatformAccount(mediumAdapter, ...), kept for existing callers
+ */
+export function verifyMediumConfig(config: MediumConfig): Promise<VerifyResult> {
+  return verifyPlatformAccount(mediumAdapter, config);
 }
 
+/**
+ * Medium platform adapter (see services/platform-adapter.ts)
+ * Publishes a story (in a publication when `publication` is given), or with
+ * `mode: 'draft'` only saves it as a draft
+ */
+export const mediumAdapter: PlatformAdapter = {
+  platform: 'medium',
+  displayName: 'Medium',
+  capabilities: { publish: true, track: true, verify: true, edit: true, delete: true },
+  sessionTimeout: 60000, // Medium loads slowly
+  publishOptions: ['mode', 'publication'],
+  deleteOptions: ['mode'],
+  postUrlField: 'storyUrl',
+  postIdFields: ['postId'],
+  metricFields: ['claps', 'responses', 'views', 'reads', 'readRatio', 'fans'],
+  sessionCookies: ['sid', 'uid'],
+  // The story ID, or the slug-with-ID that publish returns as postId
+  postUrlFromId: postId => {
+    const storyId = /^[0-9a-f]{8,16}$/i.test(postId) ? postId : getMediumStoryId(postId);
+    return storyId ? platformUrl('medium', `/p/${storyId}`) : undefined;
+  },
+  validatePostUrl: url => (getMediumStoryId(url) ? null : `Not a Medium story URL (no story ID found): ${url}`),
+  validateOptions: (operation, options) => {
+    const modes: string[] = operation === 'delete' ? UNPUBLISH_MODES : PUBLISH_MODES;
+    if (options.mode !== undefined && !modes.includes(options.mode)) {
+      return `mode must be one of: ${modes.join(', ')}`;
+    }
+    if (options.publication !== undefined) {
+      if (typeof options.publication !== 'string' || !/^[\w-]+$/.test(options.publication)) {
+        return 'publication must be a Medium publication slug or ID (e.g. "the-startup")';
+      }
+      if (options.mode === 'draft') {
+        return "publication cannot be combined with mode 'draft' - drafts are not added to publications";
+      }
+    }
+    return null;
+  },
+  login: loginToMedium,
+  isSignedIn: isMediumSignedIn,
+  publish: (service, content, options, artifacts) => createMediumStory(service, content, options, artifacts),
+  track: readMediumMetrics,
+  edit: editMediumStory,
+  delete: unpublishMediumStory,
+};
@@ -0,0 +1,249 @@
+/**
+ * Metrics History Service
+ * Keeps every successful tracking result as a time-series snapshot per post URL
+ * and platform, and derives growth deltas for dashboards
+ *
+ * Snapshots older than METRICS_HISTORY_DAYS (default 365) are dropped, and each post
+ * keeps at most its newest METRICS_HISTORY_LIMIT snapshots (default 500) - both are
+ * applied whenever a snapshot is saved
+ */
+
+import { randomUUID } from 'crypto';
+import { JsonCollection } from './json-store';
+import { AccountPlatform } from './account-vault';
+
+export interface MetricsSnapshot {
+  id: string;
+  client?: string; // API client that ran the tracking
+  platform: AccountPlatform;
+  url: string; // Normalized post URL
+  metrics: Record<string, number>; // Numeric metric fields (upvotes, views, claps, ...)
+  recordedAt: string;
+}
+
+export interface MetricChange {
+  start: number;
+  end: number;
+  change: number;
+  perDay: number;
+  growthPercent?: number; // Undefined when the starting value is 0
+}
+
+/**
+ * Change between two consecutive snapshots
+ */
+export interface MetricsDelta {
+  from: string;
+  to: string;
+  days: number;
+  changes: Record<string, number>;
+  perDay: Record<string, number>;
+}
+
+export interface MetricsHistory {
+  url: string;
+  platform?: AccountPlatform;
+  snapshots: Array<{ recordedAt: string; metrics: Record<string, number> }>;
+  deltas: MetricsDelta[];
+  // First to last snapshot in the range, per metric
+  summary: {
+    from?: string;
+    to?: string;
+    days: number;
+    metrics: Record<string, MetricChange>;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const snapshots = new JsonCollection<MetricsSnapshot>('metrics-history');
+
+function getRetentionDays(): number {
+  const value = parseInt(process.env.METRICS_HISTORY_DAYS || '365', 10);
+  return Number.isFinite(value) && value > 0 ? value : 365;
+}
+
+function getSnapshotLimit(): number {
+  const value = parseInt(process.env.METRICS_HISTORY_LIMIT || '500', 10);
+  return Number.isFinite(value) && value > 0 ? value : 500;
+}
+
+/**
+ * Normalize a post URL so the same post always maps to the same series
+ * (drops query string, fragment, trailing slash and lowercases the host)
+ */
+export function normalizePostUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${pathname}`;
+  } catch {
+    return url.trim().split(/[?#]/)[0].replace(/\/+$/, '');
+  }
+}
+
+/**
+ * Keep only numeric metric fields (lastUpdated, error, etc. are dropped)
+ */
+function pickNumericMetrics(metrics: Record<string, any>): Record<string, number> {
+  const numeric: Record<string, number> = {};
+  for (const [field, value] of Object.entries(metrics)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      numeric[field] = value;
+    }
+  }
+  return numeric;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Save a tracking result as a snapshot
+ * Results with an error are skipped - they carry zeroed placeholder metrics
+ */
+export function recordMetricsSnapshot(
+  platform: AccountPlatform,
+  url: string,
+  metrics: { lastUpdated?: string; error?: string } & Record<string, any>,
+  client?: string
+): MetricsSnapshot | null {
+  if (metrics.error) {
+    return null;
+  }
+
+  const snapshot: MetricsSnapshot = {
+    id: randomUUID(),
+    client,
+    platform,
+    url: normalizePostUrl(url),
+    metrics: pickNumericMetrics(metrics),
+    recordedAt: metrics.lastUpdated || new Date().toISOString(),
+  };
+
+  snapshots.upsert(snapshot);
+  console.log(`📈 Metrics snapshot saved: ${snapshot.url} (${platform})`);
+  pruneSnapshots(snapshot);
+
+  return snapshot;
+}
+
+/**
+ * Drop snapshots past the retention window, and the oldest snapshots of the saved
+ * snapshot's series beyond the per-post limit
+ */
+function pruneSnapshots(saved: MetricsSnapshot): void {
+  const cutoff = Date.now() - getRetentionDays() * DAY_MS;
+  const expired = snapshots
+    .list()
+    .filter(snapshot => new Date(snapshot.recordedAt).getTime() < cutoff)
+    .map(snapshot => snapshot.id);
+
+  const series = snapshots
+    .list()
+    .filter(snapshot => snapshot.url === saved.url && snapshot.platform === saved.platform && snapshot.client === saved.client)
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  const overLimit = series.slice(getSnapshotLimit()).map(snapshot => snapshot.id);
+
+  const removed = snapshots.removeMany([...expired, ...overLimit]);
+  if (removed > 0) {
+    console.log(`🧹 Pruned ${removed} old metrics snapshot(s)`);
+  }
+}
+
+/**
+ * Snapshots for a post, oldest first
+ */
+export function listMetricsSnapshots(filter: {
+  url: string;
+  platform?: AccountPlatform;
+  client?: string;
+  from?: Date;
+  to?: Date;
+}): MetricsSnapshot[] {
+  const url = normalizePostUrl(filter.url);
+  const from = filter.from?.getTime();
+  const to = filter.to?.getTime();
+
+  return snapshots
+    .list()
+    .filter(snapshot => snapshot.url === url)
+    .filter(snapshot => !filter.platform || snapshot.platform === filter.platform)
+    .filter(snapshot => !filter.client || snapshot.client === filter.client)
+    .filter(snapshot => {
+      const time = new Date(snapshot.recordedAt).getTime();
+      return (from === undefined || time >= from) && (to === undefined || time <= to);
+    })
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/**
+ * Snapshots for a post plus per-interval deltas and a first-to-last summary
+ */
+export function getMetricsHistory(filter: {
+  url: string;
+  platform?: AccountPlatform;
+  client?: string;
+  from?: Date;
+  to?: Date;
+}): MetricsHistory {
+  const series = listMetricsSnapshots(filter);
+
+  const deltas: MetricsDelta[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1];
+    const current = series[i];
+    const days = (new Date(current.recordedAt).getTime() - new Date(previous.recordedAt).getTime()) / DAY_MS;
+    const changes: Record<string, number> = {};
+    const perDay: Record<string, number> = {};
+
+    for (const [field, value] of Object.entries(current.metrics)) {
+      if (previous.metrics[field] === undefined) {
+        continue;
+      }
+      changes[field] = value - previous.metrics[field];
+      perDay[field] = days > 0 ? round(changes[field] / days) : 0;
+    }
+
+    deltas.push({ from: previous.recordedAt, to: current.recordedAt, days: round(days, 4), changes, perDay });
+  }
+
+  const first = series[0];
+  const last = series[series.length - 1];
+  const totalDays = first && last
+    ? (new Date(last.recordedAt).getTime() - new Date(first.recordedAt).getTime()) / DAY_MS
+    : 0;
+  const summaryMetrics: Record<string, MetricChange> = {};
+
+  if (first && last) {
+    for (const [field, end] of Object.entries(last.metrics)) {
+      // Use the earliest snapshot that has this metric (e.g. views may appear later)
+      const startSnapshot = series.find(snapshot => snapshot.metrics[field] !== undefined)!;
+      const start = startSnapshot.metrics[field];
+      const change = end - start;
+      const days = (new Date(last.recordedAt).getTime() - new Date(startSnapshot.recordedAt).getTime()) / DAY_MS;
+      summaryMetrics[field] = {
+        start,
+        end,
+        change,
+        perDay: days > 0 ? round(change / days) : 0,
+        growthPercent: start !== 0 ? round((change / start) * 100) : undefined,
+      };
+    }
+  }
+
+  return {
+    url: normalizePostUrl(filter.url),
+    platform: filter.platform || first?.platform,
+    snapshots: series.map(snapshot => ({ recordedAt: snapshot.recordedAt, metrics: snapshot.metrics })),
+    deltas,
+    summary: {
+      from: first?.recordedAt,
+      to: last?.recordedAt,
+      days: round(totalDays, 4),
+      metrics: summaryMetrics,
+    },
+  };
+}
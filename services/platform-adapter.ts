@@ -0,0 +1,131 @@
+/**
+ * Platform Adapters
+ * Everything a platform (Quora, Medium, ...) needs to plug into the service: its
+ * site-specific steps, what it supports and how its requests look. The shared lifecycle
+ * around those steps - browser session, login step, timeline, failure artifacts, error
+ * mapping and cleanup - lives in services/platform-runner.ts, and the registry of
+ * adapters in services/platforms.ts
+ */
+
+import { SeleniumBaseService, LoginCredentials, PublishContent, PublishResult } from './selenium-base';
+import { AccountPlatform } from './account-vault';
+import { ArtifactRecorder } from './artifacts';
+import { CrawlerErrorCode } from './errors';
+
+/**
+ * Operations an adapter can support - routes and jobs only offer the supported ones
+ */
+export interface PlatformCapabilities {
+  publish: boolean;
+  track: boolean;
+  verify: boolean;
+  edit: boolean;
+  delete: boolean;
+}
+
+export type PlatformOperation = keyof PlatformCapabilities;
+
+/**
+ * Metrics from a tracking run - each platform adds its own counts (upvotes, claps, ...)
+ */
+export interface PlatformMetrics {
+  engagement?: number;
+  lastUpdated: string;
+  error?: string;
+  errorCode?: CrawlerErrorCode;
+  retryable?: boolean;
+  [metric: string]: any;
+}
+
+export interface VerifyResult {
+  success: boolean;
+  error?: string;
+  errorCode?: CrawlerErrorCode;
+  retryable?: boolean;
+  user?: any;
+}
+
+export interface PlatformAdapter {
+  platform: AccountPlatform;
+  displayName: string; // e.g. 'Quora' - used in logs and error messages
+  capabilities: PlatformCapabilities;
+  sessionTimeout: number; // Selenium timeout (ms) for this platform's pages
+
+  // Extra publish request fields passed through to publish() (e.g. Quora's questionUrl)
+  publishOptions: string[];
+  // Extra delete request fields passed through to delete() (e.g. Medium's mode)
+  deleteOptions: string[];
+  // Request field holding a post's URL for track and edit (e.g. 'postUrl')
+  postUrlField: string;
+  // Publish result fields identifying a post - requests may send one instead of the URL
+  postIdFields: string[];
+  // Counts track() reports - zero-filled in responses
+  metricFields: string[];
+  // Cookies a signed-in session has - verify warns when a cookie login has none of them
+  sessionCookies: string[];
+
+  /**
+   * URL of a post given its platform ID, for requests that send an ID instead of a URL
+   * Without it (or when it returns undefined) the ID is looked up in earlier publish results
+   */
+  postUrlFromId?(postId: string): string | undefined;
+
+  /**
+   * Error message when `url` is not a post URL this adapter can work with, else null
+   */
+  validatePostUrl?(url: string): string | null;
+
+  /**
+   * Error message when an operation's options (publishOptions, deleteOptions) are invalid, else null
+   */
+  validateOptions?(operation: PlatformOperation, options: Record<string, any>): string | null;
+
+  /**
+   * Sign the session in with cookies or email and password
+   * Throws InvalidCredentialsError (unusable cookies), AuthExpiredError or
+   * CaptchaRequiredError when that is not possible
+   */
+  login(service: SeleniumBaseService, credentials: LoginCredentials): Promise<void>;
+
+  /**
+   * Quick check, right after login, that the session looks signed in
+   */
+  isSignedIn(service: SeleniumBaseService): Promise<boolean>;
+
+  /**
+   * Publish on a signed-in session - record progress with service.beginStep
+   * and throw on failure (the runner turns errors into the result)
+   */
+  publish(
+    service: SeleniumBaseService,
+    content: PublishContent,
+    options: Record<string, any>,
+    artifacts: ArtifactRecorder
+  ): Promise<PublishResult>;
+
+  /**
+   * Read a post's metrics on a signed-in session (without lastUpdated)
+   */
+  track(service: SeleniumBaseService, url: string): Promise<Record<string, any>>;
+
+  /**
+   * Replace the content of a published post (capabilities.edit)
+   */
+  edit?(
+    service: SeleniumBaseService,
+    url: string,
+    content: PublishContent,
+    artifacts: ArtifactRecorder
+  ): Promise<PublishResult>;
+
+  /**
+   * Take a published post down (capabilities.delete) and check, signed out, that its
+   * URL no longer serves it (SeleniumBaseService.confirmContentRemoved)
+   */
+  delete?(
+    service: SeleniumBaseService,
+    url: string,
+    options: Record<string, any>,
+    artifacts: ArtifactRecorder
+  ): Promise<PublishResult>;
+}
@@ -0,0 +1,271 @@
+/**
+ * Platform Runner
+ * The lifecycle every platform operation shares, so adapters only implement the
+ * site-specific steps: acquire a pooled browser session, log in, run the action,
+ * record the step timeline and failure artifacts, map errors and release the session
+ */
+
+import { SeleniumBaseService, SeleniumConfig, LoginCredentials, PublishContent, PublishResult, StepListener } from './selenium-base';
+import { acquireSession, releaseSession } from './session-pool';
+import { ArtifactRecorder } from './artifacts';
+import { AuthExpiredError, describeError } from './errors';
+import { PlatformAdapter, PlatformMetrics, PlatformOperation, VerifyResult } from './platform-adapter';
+
+// Browser verification only needs the login page, so it gets a shorter timeout
+const VERIFY_SESSION_TIMEOUT = 30000;
+// How long verify waits for the signed-in check after login
+const VERIFY_CHECK_TIMEOUT = 10000;
+
+function getSessionConfig(timeout: number): SeleniumConfig {
+  return {
+    headless: true,
+    browser: 'chrome',
+    timeout,
+  };
+}
+
+/**
+ * Run `action` on a signed-in session and release the session afterwards
+ * Errors propagate - callers decide how to report them
+ */
+export async function withPlatformSession<T>(
+  adapter: PlatformAdapter,
+  credentials: LoginCredentials,
+  action: (service: SeleniumBaseService) => Promise<T>,
+  timeout: number = adapter.sessionTimeout
+): Promise<T> {
+  let service: SeleniumBaseService | null = null;
+
+  try {
+    service = await acquireSession(getSessionConfig(timeout));
+    await adapter.login(service, credentials);
+    return await action(service);
+  } finally {
+    await releaseSession(service);
+  }
+}
+
+/**
+ * Run a step-tracked operation (publish, edit, delete) on a signed-in session
+ * The result carries the step timeline; failures are returned (not thrown) with their
+ * error code and an `artifactId` for the screenshots and page source captured on failure
+ * `onStep` receives each step as it starts and ends (see SeleniumBaseService.beginStep)
+ */
+export async function runPlatformAction<T extends PublishResult>(
+  adapter: PlatformAdapter,
+  operation: PlatformOperation,
+  credentials: LoginCredentials,
+  action: (service: SeleniumBaseService, artifacts: ArtifactRecorder) => Promise<T>,
+  onStep?: StepListener
+): Promise<T> {
+  let service: SeleniumBaseService | null = null;
+  const artifacts = new ArtifactRecorder(adapter.platform, operation);
+
+  try {
+    service = await acquireSession(getSessionConfig(adapter.sessionTimeout));
+    service.onStep(onStep || null);
+
+    service.beginStep('Log in');
+    await adapter.login(service, credentials);
+
+    const result = await action(service, artifacts);
+    service.endStep();
+
+    return {
+      ...result,
+      timeline: service.getTimeline(),
+    };
+  } catch (error: any) {
+    console.error(`${adapter.displayName} ${operation} error:`, error);
+    service?.failStep(error);
+
+    // Save debugging artifacts (screenshot, page source, console log, elements)
+    const failure = describeError(error, `Failed to ${operation} on ${adapter.displayName}`);
+    await artifacts.capture(service, 'failure', { elements: true });
+
+    return {
+      success: false,
+      ...failure,
+      artifactId: artifacts.save(failure.error),
+      timeline: service?.getTimeline(),
+    } as T;
+  } finally {
+    await releaseSession(service);
+  }
+}
+
+/**
+ * Publish content with the adapter (options are its publishOptions fields)
+ */
+export function publishToPlatform(
+  adapter: PlatformAdapter,
+  credentials: LoginCredentials,
+  content: PublishContent,
+  options: Record<string, any> = {},
+  onStep?: StepListener
+): Promise<PublishResult> {
+  return runPlatformAction(
+    adapter,
+    'publish',
+    credentials,
+    (service, artifacts) => adapter.publish(service, content, options, artifacts),
+    onStep
+  );
+}
+
+/**
+ * Replace a published post's content with the adapter (capabilities.edit)
+ */
+export function editOnPlatform(
+  adapter: PlatformAdapter,
+  credentials: LoginCredentials,
+  url: string,
+  content: PublishContent,
+  onStep?: StepListener
+): Promise<PublishResult> {
+  return runPlatformAction(
+    adapter,
+    'edit',
+    credentials,
+    (service, artifacts) => adapter.edit!(service, url, content, artifacts),
+    onStep
+  );
+}
+
+/**
+ * Take a published post down with the adapter (capabilities.delete; options are its
+ * deleteOptions fields)
+ */
+export function deleteOnPlatform(
+  adapter: PlatformAdapter,
+  credentials: LoginCredentials,
+  url: string,
+  options: Record<string, any> = {},
+  onStep?: StepListener
+): Promise<PublishResult> {
+  return runPlatformAction(
+    adapter,
+    'delete',
+    credentials,
+    (service, artifacts) => adapter.delete!(service, url, options, artifacts),
+    onStep
+  );
+}
+
+/**
+ * Track a post's metrics
+ * Failures are returned as zero metrics with the error, error code and retryable flag
+ */
+export async function trackPlatformPost(
+  adapter: PlatformAdapter,
+  credentials: LoginCredentials,
+  url: string
+): Promise<PlatformMetrics> {
+  try {
+    console.log(`📊 Starting ${adapter.displayName} performance tracking...`);
+    console.log(`📊 URL: ${url}`);
+
+    const metrics = await withPlatformSession(adapter, credentials, service => adapter.track(service, url));
+    const result: PlatformMetrics = {
+      ...metrics,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    console.log(`✅ ${adapter.displayName} metrics extracted successfully:`, result);
+    return result;
+  } catch (error: any) {
+    console.error(`❌ Error tracking ${adapter.displayName} performance:`, error);
+
+    return {
+      ...zeroMetrics(adapter),
+      engagement: 0,
+      lastUpdated: new Date().toISOString(),
+      ...describeError(error, `Failed to track ${adapter.displayName} performance`),
+    };
+  }
+}
+
+/**
+ * Every metric the adapter reports, zero-filled where missing (the shape track responses use)
+ */
+export function formatMetrics(adapter: PlatformAdapter, metrics: Partial<PlatformMetrics> = {}): PlatformMetrics {
+  return {
+    ...zeroMetrics(adapter, metrics),
+    engagement: metrics.engagement || 0,
+    lastUpdated: metrics.lastUpdated || new Date().toISOString(),
+  };
+}
+
+function zeroMetrics(adapter: PlatformAdapter, metrics: Record<string, any> = {}): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const field of adapter.metricFields) {
+    counts[field] = metrics[field] || 0;
+  }
+  return counts;
+}
+
+/**
+ * Check that the credentials can sign in, with a browser login
+ * For a password login, completing the login is enough (the signed-in check only sets
+ * `verified`); cookies must also pass the signed-in check, since cookie login only
+ * loads them into the browser
+ */
+export async function verifyPlatformAccount(
+  adapter: PlatformAdapter,
+  credentials: LoginCredentials
+): Promise<VerifyResult> {
+  const authMethod = credentials.cookies && credentials.cookies.length > 0 ? 'cookies' : 'password';
+  if (authMethod === 'cookies' && !credentials.cookies!.some(cookie => adapter.sessionCookies.includes(cookie.name))) {
+    console.warn(`⚠️ Session cookies (${adapter.sessionCookies.join(' or ')}) not found - the login will likely fail`);
+  }
+
+  console.log(`🔧 Verifying ${adapter.displayName} ${authMethod} login in the browser...`);
+  try {
+    const verified = await withPlatformSession(
+      adapter,
+      credentials,
+      async service => {
+        console.log(`✅ ${adapter.displayName} login completed`);
+
+        // Don't let a slow page hold up verification
+        let timer: NodeJS.Timeout | undefined;
+        let signedIn: boolean;
+        try {
+          signedIn = await Promise.race([
+            adapter.isSignedIn(service).catch(() => false),
+            new Promise<boolean>(resolve => {
+              timer = setTimeout(() => resolve(false), VERIFY_CHECK_TIMEOUT);
+            }),
+          ]);
+        } finally {
+          clearTimeout(timer);
+        }
+
+        if (signedIn) {
+          console.log(`✅ Successfully verified ${adapter.displayName} access`);
+        } else if (authMethod === 'cookies') {
+          throw new AuthExpiredError(`${adapter.displayName} cookies did not sign in - refresh the account cookies`);
+        } else {
+          console.warn("⚠️ Could not verify with quick check, but login completed - should work");
+        }
+        return signedIn;
+      },
+      VERIFY_SESSION_TIMEOUT
+    );
+
+    return {
+      success: true,
+      user: {
+        email: credentials.email,
+        authMethod,
+        verified
+      },
+    };
+  } catch (error: any) {
+    console.error(`❌ ${adapter.displayName} verification error:`, error);
+    return {
+      success: false,
+      ...describeError(error, `Failed to verify ${adapter.displayName} access`),
+    };
+  }
+}
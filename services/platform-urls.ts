@@ -0,0 +1,47 @@
+/**
+ * Platform Base URLs
+ * The Quora and Medium flows build every URL from a base URL so they can be pointed at a
+ * stand-in site (e.g. the offline fixtures in fixtures/server.ts) instead of the real one
+ *
+ * QUORA_BASE_URL  (default https://www.quora.com)
+ * MEDIUM_BASE_URL (default https://medium.com)
+ */
+
+import { AccountPlatform } from './account-vault';
+
+const DEFAULT_BASE_URLS: Record<AccountPlatform, string> = {
+  quora: 'https://www.quora.com',
+  medium: 'https://medium.com',
+};
+
+function getOverride(platform: AccountPlatform): string | undefined {
+  return (platform === 'quora' ? process.env.QUORA_BASE_URL : process.env.MEDIUM_BASE_URL) || undefined;
+}
+
+/**
+ * Base URL without a trailing slash, e.g. 'https://medium.com'
+ */
+export function getBaseUrl(platform: AccountPlatform): string {
+  return (getOverride(platform) || DEFAULT_BASE_URLS[platform]).replace(/\/+$/, '');
+}
+
+/**
+ * Whether the flows are pointed at a stand-in site
+ */
+export function isBaseUrlOverridden(platform: AccountPlatform): boolean {
+  return !!getOverride(platform);
+}
+
+/**
+ * Absolute URL for a path on the platform, e.g. platformUrl('medium', '/new-story')
+ */
+export function platformUrl(platform: AccountPlatform, path: string = ''): string {
+  return `${getBaseUrl(platform)}${path}`;
+}
+
+/**
+ * Regex source matching the platform's host (and port), e.g. 'medium\\.com'
+ */
+export function getHostPattern(platform: AccountPlatform): string {
+  return new URL(getBaseUrl(platform)).host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,36 @@
+/**
+ * Platform Registry
+ * Every supported platform's adapter. Adding a platform means writing its adapter
+ * (see services/platform-adapter.ts), listing it here and adding its name to
+ * ACCOUNT_PLATFORMS - routes, jobs and scheduled tracking pick it up from here
+ */
+
+import { PlatformAdapter } from './platform-adapter';
+import { listJobs } from './job-queue';
+import { quoraAdapter } from './quora';
+import { mediumAdapter } from './medium';
+
+const adapters: PlatformAdapter[] = [quoraAdapter, mediumAdapter];
+
+export function listPlatformAdapters(): PlatformAdapter[] {
+  return adapters;
+}
+
+export function getPlatformAdapter(platform: string): PlatformAdapter | undefined {
+  return adapters.find(adapter => adapter.platform === platform);
+}
+
+/**
+ * URL of a post the client published, given an ID its publish result reported
+ * (one of the adapter's postIdFields, e.g. Quora's answerId) - the newest match wins
+ */
+export function findPublishedPostUrl(
+  adapter: PlatformAdapter,
+  field: string,
+  id: string,
+  client?: string
+): string | undefined {
+  const job = listJobs({ type: `${adapter.platform}.publish`, status: 'succeeded', client })
+    .find(job => job.result?.url && job.result[field] !== undefined && String(job.result[field]) === id);
+  return job?.result.url;
+}
@@ -0,0 +1,123 @@
+/**
+ * Publish Schedule Helpers
+ * Parses and validates `publishAt` times for scheduled publishing
+ *
+ * Accepted forms:
+ *   - ISO 8601 with an offset or Z: "2026-03-01T09:00:00+01:00", "2026-03-01T08:00:00Z"
+ *   - Local ISO time plus an IANA `timeZone`: "2026-03-01T09:00" + "Europe/Berlin"
+ * A local time without a time zone is rejected, since the server's zone is not the caller's
+ */
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?$/;
+const OFFSET_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+// Allow for clock skew between caller and service
+const PAST_TOLERANCE_MS = 60 * 1000;
+
+function getMaxScheduleDays(): number {
+  const value = parseInt(process.env.SCHEDULE_MAX_DAYS || '365', 10);
+  return Number.isFinite(value) && value > 0 ? value : 365;
+}
+
+/**
+ * Whether a string is a valid IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffsetMs(timeZone: string, at: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(at));
+
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)!.value, 10);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return asUtc - Math.floor(at / 1000) * 1000;
+}
+
+/**
+ * Convert a local wall-clock time in a time zone to a UTC instant
+ * Throws for times that do not exist in that zone (skipped by a DST change)
+ */
+function zonedTimeToUtc(localTime: string, timeZone: string): Date {
+  const match = localTime.match(LOCAL_DATE_TIME)!;
+  const [year, month, day, hour, minute] = match.slice(1, 6).map(Number);
+  const second = match[6] ? Number(match[6]) : 0;
+  const millisecond = match[7] ? Number(match[7].padEnd(3, '0')) : 0;
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  const check = new Date(wallClock);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || check.getUTCHours() !== hour || check.getUTCMinutes() !== minute) {
+    throw new Error(`publishAt ${localTime} is not a valid date`);
+  }
+
+  // Guess with the offset at the wall-clock instant, then correct once around DST changes
+  let utc = wallClock - getTimeZoneOffsetMs(timeZone, wallClock);
+  utc = wallClock - getTimeZoneOffsetMs(timeZone, utc);
+
+  if (utc + getTimeZoneOffsetMs(timeZone, utc) !== wallClock) {
+    throw new Error(`publishAt ${localTime} does not exist in ${timeZone} (skipped by a daylight saving change)`);
+  }
+
+  return new Date(utc);
+}
+
+/**
+ * Parse `publishAt` (and optional `timeZone`) into a UTC date
+ * Throws with a client-facing message when the value is invalid, in the past or too far ahead
+ */
+export function parsePublishAt(publishAt: unknown, timeZone?: unknown): Date {
+  if (typeof publishAt !== 'string' || !publishAt.trim()) {
+    throw new Error('publishAt must be an ISO 8601 date-time string');
+  }
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    throw new Error('timeZone must be a valid IANA time zone (e.g. "Europe/Berlin")');
+  }
+
+  const value = publishAt.trim();
+  let date: Date;
+
+  if (OFFSET_DATE_TIME.test(value)) {
+    date = new Date(value);
+  } else if (LOCAL_DATE_TIME.test(value)) {
+    if (!timeZone) {
+      throw new Error('publishAt has no UTC offset - add one (e.g. "Z" or "+02:00") or pass timeZone');
+    }
+    date = zonedTimeToUtc(value, timeZone as string);
+  } else {
+    throw new Error('publishAt must be an ISO 8601 date-time (e.g. "2026-03-01T09:00:00Z")');
+  }
+
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('publishAt is not a valid date');
+  }
+
+  const now = Date.now();
+  if (date.getTime() < now - PAST_TOLERANCE_MS) {
+    throw new Error(`publishAt is in the past (${date.toISOString()})`);
+  }
+
+  const maxDays = getMaxScheduleDays();
+  if (date.getTime() > now + maxDays * 24 * 60 * 60 * 1000) {
+    throw new Error(`publishAt must be within ${maxDays} days`);
+  }
+
+  return date;
+}
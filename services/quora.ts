@@ -3,12 +3,33 @@
  * Uses Selenium to publish content to Quora
  */
 
-import { SeleniumBaseService, LoginCredentials, PublishContent, PublishResult } from './selenium-base';
+import {
+  SeleniumBaseService,
+  LoginCredentials,
+  PublishContent,
+  PublishResult,
+  SelectorPageCheck,
+  StepListener
+} from './selenium-base';
+import {
+  CaptchaRequiredError,
+  ContentRejectedError,
+  CrawlerError,
+  CrawlerErrorCode,
+  EditNotLiveError,
+  InvalidCredentialsError,
+  SelectorNotFoundError
+} from './errors';
+import { escapeHtml, renderQuoraHtml } from './content-format';
+import { ArtifactRecorder } from './artifacts';
+import { getBaseUrl, getHostPattern, isBaseUrlOverridden, platformUrl } from './platform-urls';
+import { PlatformAdapter, VerifyResult } from './platform-adapter';
+import { publishToPlatform, trackPlatformPost, verifyPlatformAccount, withPlatformSession } from './platform-runner';
 
 export interface QuoraConfig {
   email: string;
   password?: string;
-  cookies?: Array<{ name: string; value: string; domain: string }>;
+  cookies?: LoginCredentials['cookies'];
 }
 
 export interface QuoraPublishResult extends PublishResult {
@@ -17,62 +38,6 @@ export interface QuoraPublishResult extends PublishResult {
   postId?: string;
 }
 
-/**
- * Publish content to Quora as an answer
- * Note: Quora primarily uses Q&A format, so we'll post as an answer to a question
- */
-export async function publishToQuora(
-  config: QuoraConfig,
-  content: PublishContent,
-  questionUrl?: string // Optional: answer a specific question
-): Promise<QuoraPublishResult> {
-  const service = new SeleniumBaseService({
-    headless: true,
-    browser: 'chrome',
-    timeout: 60000, // Increased to 60 seconds for Quora's slow loading
-  });
-
-  try {
-    await service.initialize();
-
-    const credentials: LoginCredentials = {
-      email: config.email,
-      password: config.password,
-      cookies: config.cookies,
-    };
-
-    // Login to Quora
-    await loginToQuora(service, credentials);
-
-    // If question URL provided, answer that question
-    if (questionUrl) {
-      return await answerQuestion(service, questionUrl, content);
-    }
-
-    // Otherwise, create a new post (Quora Spaces or Blog post)
-    // Note: Quora's post creation flow may vary
-    return await createQuoraPost(service, content);
-  } catch (error: any) {
-    console.error('Quora publish error:', error);
-    
-    // Take screenshot for debugging
-    let screenshot: string | undefined;
-    try {
-      screenshot = await service.takeScreenshot();
-    } catch (screenshotError) {
-      console.error('Failed to take screenshot:', screenshotError);
-    }
-
-    return {
-      success: false,
-      error: error.message || 'Failed to publish to Quora',
-      screenshot,
-    };
-  } finally {
-    await service.cleanup();
-  }
-}
-
 /**
  * Answer a specific question on Quora
  */
@@ -81,30 +46,32 @@ async function answerQuestion(
   questionUrl: string,
   content: PublishContent
 ): Promise<QuoraPublishResult> {
+  service.beginStep('Open question');
   await service.navigateTo(questionUrl);
   await service.humanDelay(2000, 3000);
 
   // Wait for answer box
-  const answerBoxSelector = '[data-testid="answer_text_input"], textarea[placeholder*="answer"], .ql-editor';
+  const answerBoxSelector = service.getSelector('quora', 'answerEditor');
   await service.waitForElement(answerBoxSelector, 15000);
   await service.humanDelay(1000, 2000);
 
   // Fill answer content
   // Quora uses contenteditable div or textarea
+  service.beginStep('Fill answer');
   const isContentEditable = await service.executeScript(`
-    const element = document.querySelector('${answerBoxSelector}');
+    const element = document.querySelector(arguments[0]);
     return element && element.contentEditable === 'true';
-  `);
+  `, answerBoxSelector);
 
   if (isContentEditable) {
-    // Contenteditable div
+    // Contenteditable div - only sanitized HTML from the content pipeline is inserted
     await service.executeScript(`
-      const editor = document.querySelector('${answerBoxSelector}');
+      const editor = document.querySelector(arguments[1]);
       if (editor) {
         editor.innerHTML = arguments[0];
         editor.dispatchEvent(new Event('input', { bubbles: true }));
       }
-    `, content.content);
+    `, renderQuoraHtml(content), answerBoxSelector);
   } else {
     // Textarea
     await service.fillInput(answerBoxSelector, content.content, { by: 'css' });
@@ -114,12 +81,13 @@ async function answerQuestion(
 
   // Add image by simulating paste event (Quora auto-renders URLs when pasted)
   if (content.metadata?.imageUrl) {
+    service.beginStep('Add image');
     console.log('🖼️ Adding image to Quora by simulating paste:', content.metadata.imageUrl);
     try {
       // Simulate paste event to trigger Quora's URL detection and auto-rendering
       await service.executeScript(`
         const imageUrl = arguments[0];
-        const editor = document.querySelector('${answerBoxSelector}');
+        const editor = document.querySelector(arguments[1]);
         if (editor) {
           editor.focus();
           
@@ -150,7 +118,7 @@ async function answerQuestion(
           // Trigger input event
           editor.dispatchEvent(new Event('input', { bubbles: true }));
         }
-      `, content.metadata.imageUrl);
+      `, content.metadata.imageUrl, answerBoxSelector);
       
       console.log('✅ Image URL pasted via paste event - waiting 15 seconds for Quora to auto-render');
       // Wait 15 seconds for Quora to automatically fetch and render the image
@@ -161,7 +129,8 @@ async function answerQuestion(
   }
 
   // Click submit/answer button
-  const submitButtonSelector = 'button[data-testid="submit_answer"], button:contains("Answer"), button:contains("Post")';
+  service.beginStep('Submit answer');
+  const submitButtonSelector = service.getSelector('quora', 'submitAnswerButton');
   await service.clickElement(submitButtonSelector, { by: 'css' });
   await service.humanDelay(3000, 5000);
 
@@ -187,14 +156,17 @@ async function answerQuestion(
  */
 async function createQuoraPost(
   service: SeleniumBaseService,
-  content: PublishContent
+  content: PublishContent,
+  artifacts: ArtifactRecorder
 ): Promise<QuoraPublishResult> {
   // Step 1: Navigate to Quora homepage
+  service.beginStep('Open homepage');
   console.log("📝 Navigating to Quora homepage...");
-  await service.navigateTo('https://www.quora.com');
+  await service.navigateTo(getBaseUrl('quora'));
   await service.humanDelay(3000, 5000);
 
   // Step 2: Click "Post" button to open modal
+  service.beginStep("Click 'Post' on homepage");
   console.log("🚀 Step 1: Looking for 'Post' button on homepage...");
   
   // First, get all elements with timeout/retry mechanism for debugging
@@ -205,6 +177,7 @@ async function createQuoraPost(
     includeHidden: false,
     elementTypes: ['button', 'input', 'link']
   });
+  artifacts.addElementDump('homepage', pageInfo);
   console.log("🔍 Quora homepage elements found:", JSON.stringify({
     buttonCount: pageInfo.buttons.length,
     visibleButtonCount: pageInfo.buttons.filter(b => b.visible).length,
@@ -353,13 +326,7 @@ async function createQuoraPost(
   
   if (!postButtonClicked) {
     // Try CSS selectors as fallback
-    const postButtonSelectors = [
-      'button[aria-label*="Post" i]',
-      'button[data-testid*="post" i]',
-      'input[placeholder*="ask" i], input[placeholder*="share" i]',
-      'div[contenteditable="true"][placeholder*="ask" i], div[contenteditable="true"][placeholder*="share" i]',
-      '[class*="compose"] button, [class*="Compose"] button',
-    ];
+    const postButtonSelectors = service.getSelectors('quora', 'homepagePostButton');
     
     for (const selector of postButtonSelectors) {
       try {
@@ -378,17 +345,12 @@ async function createQuoraPost(
   }
   
   if (!postButtonClicked) {
-    // Take screenshot for debugging
-    try {
-      const screenshot = await service.takeScreenshot();
-      console.log("📸 Screenshot taken - Post button not found");
-    } catch (e) {
-      // Ignore
-    }
-    throw new Error("Could not find or click the 'Post' button on Quora homepage. Check debug logs above for available elements.");
+    await artifacts.capture(service, 'post-button-not-found');
+    throw new SelectorNotFoundError("Could not find or click the 'Post' button on Quora homepage. Check debug logs above for available elements.");
   }
 
   // Step 3: Wait for modal to appear and switch to "Create Post" tab if needed
+  service.beginStep("Open 'Create Post' tab");
   console.log("🚀 Step 2: Waiting for modal and ensuring 'Create Post' tab is active...");
   await service.humanDelay(2000, 3000);
   
@@ -426,18 +388,18 @@ async function createQuoraPost(
   }
 
   // Step 4: Fill content in the modal
+  service.beginStep('Fill content');
   console.log("✍️ Step 3: Filling content in modal...");
   
   // Find the content editor in the modal
-  const editorSelectors = [
-    'div[contenteditable="true"]',
-    'textarea',
-    'input[type="text"]',
-    '.ql-editor',
-  ];
+  const editorSelectors = service.getSelectors('quora', 'postEditor');
   
   let contentFilled = false;
+  // Plain text for textarea/input editors
   const fullContent = `${content.title}\n\n${content.content}`;
+  // Rich editors get the title as the first paragraph followed by the sanitized body
+  const fullContentHtml = `<p>${escapeHtml(content.title)}</p>${renderQuoraHtml(content)}`;
+  const expectedTitle = content.title.substring(0, 50);
   
   for (const selector of editorSelectors) {
     try {
@@ -445,30 +407,30 @@ async function createQuoraPost(
       if (exists) {
         // Check if it's in the modal
         const isInModal = await service.executeScript(`
-          const element = document.querySelector('${selector}');
+          const element = document.querySelector(arguments[0]);
           if (!element) return false;
           const modal = element.closest('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
           return modal !== null;
-        `);
+        `, selector);
         
         if (isInModal) {
           // Try to fill content (title + content)
           const isContentEditable = await service.executeScript(`
-            const element = document.querySelector('${selector}');
+            const element = document.querySelector(arguments[0]);
             return element && element.contentEditable === 'true';
-          `);
+          `, selector);
           
           if (isContentEditable) {
             // For contenteditable, we need to be more careful
             await service.executeScript(`
-              const editor = document.querySelector('${selector}');
+              const editor = document.querySelector(arguments[1]);
               if (editor) {
                 // Clear existing content
                 editor.textContent = '';
                 editor.innerHTML = '';
                 
                 // Set new content
-                editor.textContent = arguments[0];
+                editor.innerHTML = arguments[0];
                 
                 // Trigger events to make Quora detect the content
                 editor.dispatchEvent(new Event('input', { bubbles: true }));
@@ -486,7 +448,7 @@ async function createQuoraPost(
                 return true;
               }
               return false;
-            `, fullContent);
+            `, fullContentHtml, selector);
           } else {
             await service.fillInput(selector, fullContent, { by: 'css' });
           }
@@ -494,12 +456,12 @@ async function createQuoraPost(
           // Verify content was filled
           await service.humanDelay(2000, 3000);
           const contentVerified = await service.executeScript(`
-            const editor = document.querySelector('${selector}');
+            const editor = document.querySelector(arguments[1]);
             if (!editor) return false;
             const editorText = editor.textContent || editor.value || '';
-            const expectedText = arguments[0].substring(0, 50);
+            const expectedText = arguments[0];
             return editorText.toLowerCase().includes(expectedText.toLowerCase());
-          `, fullContent);
+          `, expectedTitle, selector);
           
           if (contentVerified) {
             contentFilled = true;
@@ -528,7 +490,7 @@ async function createQuoraPost(
             if (editor.contentEditable === 'true') {
               editor.textContent = '';
               editor.innerHTML = '';
-              editor.textContent = arguments[0];
+              editor.innerHTML = arguments[1];
               editor.dispatchEvent(new Event('input', { bubbles: true }));
               editor.dispatchEvent(new Event('change', { bubbles: true }));
               editor.dispatchEvent(new Event('keyup', { bubbles: true }));
@@ -542,7 +504,7 @@ async function createQuoraPost(
           }
         }
         return false;
-      `, fullContent);
+      `, fullContent, fullContentHtml);
       
       if (filled) {
         await service.humanDelay(3000, 5000);
@@ -553,30 +515,34 @@ async function createQuoraPost(
             const editor = modal.querySelector('[contenteditable="true"], textarea, input[type="text"]');
             if (editor) {
               const editorText = editor.textContent || editor.value || '';
-              const expectedText = arguments[0].substring(0, 50);
+              const expectedText = arguments[0];
               return editorText.toLowerCase().includes(expectedText.toLowerCase());
             }
           }
           return false;
-        `, fullContent);
+        `, expectedTitle);
         
         if (verified) {
           contentFilled = true;
           console.log("✅ Content filled and verified using alternative method");
         } else {
-          throw new Error("Content was filled but could not be verified. The post may not publish correctly.");
+          throw new SelectorNotFoundError("Content was filled but could not be verified. The post may not publish correctly.");
         }
       } else {
-        throw new Error("Failed to fill content in modal. Could not find editor element.");
+        throw new SelectorNotFoundError("Failed to fill content in modal. Could not find editor element.");
       }
     } catch (e: any) {
       console.error("❌ Failed to fill content:", e);
-      throw new Error(`Failed to fill content in modal: ${e?.message || String(e)}`);
+      if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+        throw e;
+      }
+      throw new SelectorNotFoundError(`Failed to fill content in modal: ${e?.message || String(e)}`);
     }
   }
 
   // Step 4.5: Add image by simulating paste event (Quora auto-renders URLs when pasted)
   if (content.metadata?.imageUrl) {
+    service.beginStep('Add image');
     console.log('🖼️ Adding image to Quora post by simulating paste:', content.metadata.imageUrl);
     try {
       // Simulate paste event to trigger Quora's URL detection and auto-rendering
@@ -628,6 +594,7 @@ async function createQuoraPost(
   }
 
   // Step 5: Wait for "Post" button to turn blue and click it
+  service.beginStep("Click blue 'Post' in modal");
   console.log("🚀 Step 4: Waiting for 'Post' button to turn blue and clicking it...");
   
   // Store the initial tab handle BEFORE clicking Post
@@ -658,7 +625,7 @@ async function createQuoraPost(
   `);
   
   if (!contentStillThere) {
-    throw new Error("Content was lost before posting. Please try again.");
+    throw new SelectorNotFoundError("Content was lost before posting. Please try again.");
   }
   
   let postClicked = false;
@@ -799,7 +766,7 @@ async function createQuoraPost(
         console.warn("⚠️ Button click may not have worked");
       }
     } else if (buttonState.found && buttonState.disabled) {
-      throw new Error("Post button is disabled. Content may be invalid or missing required fields.");
+      throw new ContentRejectedError("Post button is disabled. Content may be invalid or missing required fields.");
     } else {
       console.warn("⚠️ Could not find Post button in modal");
     }
@@ -809,20 +776,17 @@ async function createQuoraPost(
   
   if (!postClicked) {
     // Try CSS selectors as fallback
-    const bluePostSelectors = [
-      'button[style*="blue"]',
-      'button.blue',
-    ];
+    const bluePostSelectors = service.getSelectors('quora', 'modalPostButton');
     
     for (const selector of bluePostSelectors) {
       try {
         const isInModal = await service.executeScript(`
-          const button = document.querySelector('${selector}');
+          const button = document.querySelector(arguments[0]);
           if (!button) return false;
           const text = (button.textContent || '').toLowerCase().trim();
           const modal = button.closest('[role="dialog"], .overlay, [class*="modal"], [class*="Modal"]');
           return text === 'post' && modal !== null && !button.disabled;
-        `);
+        `, selector);
         
         if (isInModal) {
           await service.clickElement(selector, { by: 'css' });
@@ -837,18 +801,12 @@ async function createQuoraPost(
   }
   
   if (!postClicked) {
-    // Take screenshot for debugging
-    try {
-      const screenshot = await service.takeScreenshot();
-      console.log("📸 Screenshot taken - Post button not found or not clickable");
-    } catch (e) {
-      // Ignore
-    }
-    
-    throw new Error(`Could not find or click the blue 'Post' button in modal. Button state: ${JSON.stringify(buttonState)}`);
+    await artifacts.capture(service, 'modal-post-button-not-clickable');
+    throw new SelectorNotFoundError(`Could not find or click the blue 'Post' button in modal. Button state: ${JSON.stringify(buttonState)}`);
   }
 
   // Step 6: Wait for new tab to open with published post URL
+  service.beginStep('Wait for published post URL');
   console.log("⏳ Step 5: Waiting for new tab to open with published post...");
   
   // First, check if modal closed (indicates post was submitted)
@@ -955,7 +913,7 @@ async function createQuoraPost(
   }
   
   // Final check - reject homepage or profile-only URLs
-  if (publishedUrl === 'https://www.quora.com/' || publishedUrl === 'https://www.quora.com') {
+  if (publishedUrl === platformUrl('quora', '/') || publishedUrl === getBaseUrl('quora')) {
     throw new Error("New tab is still on homepage. The post may not have been published successfully.");
   }
   
@@ -978,6 +936,237 @@ async function createQuoraPost(
   };
 }
 
+/**
+ * Edit a published Quora answer or post in place
+ * Flow: Open it → "More" menu → "Edit" → Replace editor contents → Save → Check the live page
+ * Answers keep their question as title, so only the body is replaced; posts get the
+ * title as their first paragraph (as when created)
+ */
+async function editQuoraContent(
+  service: SeleniumBaseService,
+  url: string,
+  content: PublishContent,
+  artifacts: ArtifactRecorder
+): Promise<QuoraPublishResult> {
+  const kind = url.includes('/answer/') ? 'answer' : 'post';
+
+  service.beginStep(`Open ${kind}`);
+  console.log(`✏️ Opening Quora ${kind} to edit: ${url}`);
+  await service.navigateTo(url);
+  await service.humanDelay(3000, 5000);
+
+  // Step 1: Open the edit dialog from the overflow menu (only shown to the author)
+  service.beginStep('Open edit mode');
+  await clickQuoraMenuItem(service, kind, 'edit', artifacts);
+
+  // Step 2: Replace the editor contents
+  service.beginStep('Replace content');
+  const editorSelector = service.getSelector('quora', 'editEditor');
+  await service.waitForElement(editorSelector, 15000);
+
+  const html = kind === 'post'
+    ? `<p>${escapeHtml(content.title)}</p>${renderQuoraHtml(content)}`
+    : renderQuoraHtml(content);
+
+  const replaced = await service.executeScript(`
+    const editor = document.querySelector(arguments[1]);
+    if (!editor) return false;
+
+    editor.focus();
+    editor.innerHTML = arguments[0];
+    editor.dispatchEvent(new Event('input', { bubbles: true }));
+    editor.dispatchEvent(new Event('change', { bubbles: true }));
+
+    const parsed = new DOMParser().parseFromString(arguments[0], 'text/html').body.textContent || '';
+    return (editor.textContent || '').trim().startsWith(parsed.trim().substring(0, 50));
+  `, html, editorSelector);
+
+  if (!replaced) {
+    await artifacts.capture(service, 'edit-content-not-replaced');
+    throw new SelectorNotFoundError(`Could not replace the content of the Quora ${kind} editor`);
+  }
+  await service.humanDelay(2000, 3000);
+
+  // Step 3: Save - Quora labels the button "Update" (older layouts: "Save", "Post")
+  service.beginStep('Save changes');
+  await service.findElementsWithRetry(
+    async () => {
+      return await service.executeScript(`
+        const dialog = document.querySelector('[role="dialog"]') || document;
+        const buttons = Array.from(dialog.querySelectorAll('button, [role="button"]'));
+        const saveButton = buttons.find(btn => {
+          const text = (btn.textContent || '').toLowerCase().trim();
+          return ['update', 'save', 'save changes', 'post'].includes(text) &&
+                 !btn.disabled &&
+                 btn.getAttribute('aria-disabled') !== 'true';
+        });
+        if (!saveButton) return false;
+        saveButton.click();
+        return true;
+      `);
+    },
+    {
+      timeout: 15000,
+      interval: 1500,
+      maxRetries: 10,
+      description: `'Update' button in the Quora ${kind} editor`
+    }
+  );
+
+  await service.humanDelay(3000, 5000);
+
+  // Step 4: Check the live page shows the new text
+  service.beginStep('Confirm live');
+  console.log(`🔍 Checking the live ${kind} shows the changes: ${url}`);
+  try {
+    await service.findElementsWithRetry(
+      async () => {
+        await service.navigateTo(url);
+        await service.humanDelay(2000, 3000);
+
+        const live = await service.pageShowsContent(kind === 'post' ? content.title : null, renderQuoraHtml(content));
+
+        console.log(`📋 Live ${kind} check:`, live);
+        return live.hasTitle && live.hasBody;
+      },
+      {
+        timeout: 30000,
+        interval: 3000,
+        maxRetries: 5,
+        description: `updated live ${kind}`
+      }
+    );
+  } catch (e: any) {
+    // Keep definitive errors (login wall, navigation timeout); otherwise the text never showed up
+    if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+      throw e;
+    }
+    throw new EditNotLiveError(`Quora ${kind} changes were saved but the live page does not show them yet: ${url}`);
+  }
+
+  const currentUrl = await service.getCurrentUrl();
+  console.log(`✅ Quora ${kind} updated: ${currentUrl}`);
+
+  if (kind === 'answer') {
+    const answerIdMatch = currentUrl.match(/answer\/(\d+)/);
+    return {
+      success: true,
+      url: currentUrl,
+      answerId: answerIdMatch ? answerIdMatch[1] : undefined,
+      verifiedLive: true,
+    };
+  }
+
+  const urlMatch = currentUrl.match(/\/(posts|answer|q)\/([^\/]+)/);
+  return {
+    success: true,
+    url: currentUrl,
+    postId: urlMatch ? urlMatch[2] : undefined,
+    verifiedLive: true,
+  };
+}
+
+/**
+ * Delete a published Quora answer or post
+ * Flow: Open it → "More" menu → "Delete" → Confirm → Check, signed out, that it is gone
+ */
+async function deleteQuoraContent(
+  service: SeleniumBaseService,
+  url: string,
+  _options: Record<string, any>,
+  artifacts: ArtifactRecorder
+): Promise<QuoraPublishResult> {
+  const kind = url.includes('/answer/') ? 'answer' : 'post';
+
+  service.beginStep(`Open ${kind}`);
+  console.log(`🗑️ Opening Quora ${kind} to delete: ${url}`);
+  await service.navigateTo(url);
+  await service.humanDelay(3000, 5000);
+
+  // Remember what the page showed, to check it is gone afterwards
+  const contentSelector = await service.findFirstSelector('quora', 'contentBody');
+  const removedText = contentSelector ? (await service.getElementText(contentSelector)).trim().substring(0, 80) : '';
+  if (!removedText) {
+    await artifacts.capture(service, 'content-not-found');
+    throw new SelectorNotFoundError(`Could not read the Quora ${kind} text from ${url}`);
+  }
+
+  service.beginStep('Delete');
+  await clickQuoraMenuItem(service, kind, 'delete', artifacts);
+
+  // Quora asks for confirmation in a dialog
+  await service.findElementsWithRetry(
+    async () => {
+      return await service.executeScript(`
+        const dialog = document.querySelector('[role="dialog"]:not([style*="display: none"])') || document;
+        const buttons = Array.from(dialog.querySelectorAll('button, [role="button"]'));
+        const confirmButton = buttons.find(btn => {
+          const text = (btn.textContent || '').toLowerCase().trim();
+          return ['delete', 'confirm', 'yes, delete'].includes(text) && !btn.disabled;
+        });
+        if (!confirmButton) return false;
+        confirmButton.click();
+        return true;
+      `);
+    },
+    {
+      timeout: 15000,
+      interval: 1500,
+      maxRetries: 10,
+      description: `delete confirmation for the Quora ${kind}`
+    }
+  );
+
+  await service.humanDelay(3000, 5000);
+
+  service.beginStep('Confirm removed');
+  console.log(`🔍 Checking the ${kind} is gone for signed-out visitors: ${url}`);
+  await service.confirmContentRemoved(url, removedText);
+
+  console.log(`✅ Quora ${kind} deleted: ${url}`);
+  return {
+    success: true,
+    url,
+    verifiedRemoved: true,
+  };
+}
+
+/**
+ * Open the "More" menu of the Quora answer or post on the page and click its
+ * "Edit"/"Delete" item (the menu only has these for the author)
+ */
+async function clickQuoraMenuItem(
+  service: SeleniumBaseService,
+  kind: 'answer' | 'post',
+  action: 'edit' | 'delete',
+  artifacts: ArtifactRecorder
+): Promise<void> {
+  const moreButton = await service.findFirstSelector('quora', 'contentMoreButton');
+  if (!moreButton) {
+    await artifacts.capture(service, 'more-button-not-found');
+    throw new SelectorNotFoundError(`Could not find the "More" menu on the Quora ${kind} - is this account its author?`);
+  }
+  await service.clickElement(moreButton, { by: 'css' });
+  await service.humanDelay(1000, 2000);
+
+  const clicked = await service.executeScript(`
+    const items = Array.from(document.querySelectorAll('[role="menuitem"], [role="menu"] button, [role="menu"] a'));
+    const menuItem = items.find(item => {
+      const text = (item.textContent || '').toLowerCase().trim();
+      return text === arguments[1] || text === arguments[1] + ' ' + arguments[0];
+    });
+    if (!menuItem) return false;
+    menuItem.click();
+    return true;
+  `, kind, action);
+
+  if (!clicked) {
+    await artifacts.capture(service, `${action}-menu-item-not-found`);
+    throw new SelectorNotFoundError(`No "${action === 'edit' ? 'Edit' : 'Delete'}" item in the Quora ${kind} menu - is this account its author?`);
+  }
+  await service.humanDelay(2000, 3000);
+}
+
 /**
  * Login to Quora
  */
@@ -996,7 +1185,7 @@ async function loginToQuora(
     console.log("🍪 Using cookies for authentication...");
     console.log(`  - Found ${credentials.cookies.length} cookies`);
     
-    await service.navigateTo('https://www.quora.com');
+    await service.navigateTo(getBaseUrl('quora'));
     await service.humanDelay(2000, 3000);
     
     const driver = service.getDriver();
@@ -1006,7 +1195,7 @@ async function loginToQuora(
     for (const cookie of credentials.cookies) {
       try {
         if (!cookie.name || !cookie.value) {
-          console.warn(`⚠️ Skipping invalid cookie (missing name or value):`, cookie);
+          console.warn(`⚠️ Skipping invalid cookie (missing name or value): ${cookie.name || '(unnamed)'}`);
           cookiesFailed++;
           continue;
         }
@@ -1019,16 +1208,19 @@ async function loginToQuora(
         
         // Handle domain - Cookie-Editor uses "domain" field
         // Selenium needs domain without leading dot for hostOnly cookies
-        if (cookie.domain) {
-          // If hostOnly is true, use domain as-is (no leading dot)
-          // Otherwise, ensure it starts with a dot
-          if ((cookie as any).hostOnly === true) {
-            cookieToAdd.domain = cookie.domain.replace(/^\./, ''); // Remove leading dot
+        // A stand-in site gets no domain: exported cookies carry quora.com, so they are set on the current host
+        if (!isBaseUrlOverridden('quora')) {
+          if (cookie.domain) {
+            // If hostOnly is true, use domain as-is (no leading dot)
+            // Otherwise, ensure it starts with a dot
+            if ((cookie as any).hostOnly === true) {
+              cookieToAdd.domain = cookie.domain.replace(/^\./, ''); // Remove leading dot
+            } else {
+              cookieToAdd.domain = cookie.domain.startsWith('.') ? cookie.domain : `.${cookie.domain}`;
+            }
           } else {
-            cookieToAdd.domain = cookie.domain.startsWith('.') ? cookie.domain : `.${cookie.domain}`;
+            cookieToAdd.domain = '.quora.com';
           }
-        } else {
-          cookieToAdd.domain = '.quora.com';
         }
         
         // Add optional fields if present (handle both formats)
@@ -1044,7 +1236,7 @@ async function loginToQuora(
         
         await driver.manage().addCookie(cookieToAdd);
         cookiesAdded++;
-        console.log(`  ✅ Added cookie: ${cookie.name} (domain: ${cookieToAdd.domain})`);
+        console.log(`  ✅ Added cookie: ${cookie.name} (domain: ${cookieToAdd.domain || 'current host'})`);
       } catch (error: any) {
         cookiesFailed++;
         console.warn(`  ⚠️ Failed to add cookie ${cookie.name}:`, error.message || error);
@@ -1054,7 +1246,7 @@ async function loginToQuora(
     console.log(`🍪 Cookie summary: ${cookiesAdded} added, ${cookiesFailed} failed`);
     
     if (cookiesAdded === 0) {
-      throw new Error('Failed to add any cookies. Please check cookie format and values.');
+      throw new InvalidCredentialsError('Failed to add any cookies. Please check cookie format and values.');
     }
     
     await driver.navigate().refresh();
@@ -1082,7 +1274,7 @@ async function loginToQuora(
           
           // Quick selector check
           try {
-            const exists = await service.elementExists('a[href*="/profile"], a[href*="/notifications"]');
+            const exists = await service.elementExists(service.getSelector('quora', 'signedInIndicator'));
             if (exists) {
               console.log("✅ Found login indicator in page");
               return true;
@@ -1128,11 +1320,11 @@ async function loginToQuora(
     throw new Error('Either cookies or email/password required for Quora login');
   }
 
-  await service.navigateTo('https://www.quora.com/');
+  await service.navigateTo(platformUrl('quora', '/'));
   await service.humanDelay(2000, 3000);
 
   // Click login button
-  const loginButtonSelector = 'a[href*="login"], button:contains("Log in")';
+  const loginButtonSelector = service.getSelector('quora', 'loginButton');
   const loginButtonExists = await service.elementExists(loginButtonSelector);
   
   if (loginButtonExists) {
@@ -1141,159 +1333,44 @@ async function loginToQuora(
   }
 
   // Fill email
-  const emailInputSelector = 'input[type="email"], input[name="email"], input[placeholder*="email"]';
+  const emailInputSelector = service.getSelector('quora', 'emailInput');
   await service.fillInput(emailInputSelector, credentials.email, { by: 'css' });
   await service.humanDelay(1000, 2000);
 
   // Fill password
-  const passwordInputSelector = 'input[type="password"], input[name="password"]';
+  const passwordInputSelector = service.getSelector('quora', 'passwordInput');
   await service.fillInput(passwordInputSelector, credentials.password!, { by: 'css' });
   await service.humanDelay(1000, 2000);
 
   // Submit login
-  const submitButtonSelector = 'button[type="submit"], button:contains("Log in")';
+  const submitButtonSelector = service.getSelector('quora', 'loginSubmitButton');
   await service.clickElement(submitButtonSelector, { by: 'css' });
   await service.humanDelay(3000, 5000);
 
   // Wait for redirect
-  await service.waitForUrl(/quora\.com/, 30000);
+  await service.waitForUrl(new RegExp(getHostPattern('quora')), 30000);
   
   // Verify login success
-  const loggedIn = await service.elementExists('[data-testid="user-menu"], .UserMenu');
+  const loggedIn = await service.elementExists(service.getSelector('quora', 'userMenu'));
   if (!loggedIn) {
-    throw new Error('Failed to verify Quora login - may need CAPTCHA or 2FA');
+    throw new CaptchaRequiredError('Failed to verify Quora login - may need CAPTCHA or 2FA');
   }
 }
 
 /**
- * Verify Quora configuration
+ * Whether the session looks signed in (used by verify right after login)
  */
-export async function verifyQuoraConfig(
-  config: QuoraConfig
-): Promise<{ success: boolean; error?: string; user?: any }> {
-  // If cookies are provided, do a quick validation without full browser test
-  // This avoids timeout issues and is much faster
-  if (config.cookies && config.cookies.length > 0) {
-    console.log("🔍 Quick cookie validation (no browser needed)");
-    
-    // Check if cookies have required fields
-    const hasRequiredCookies = config.cookies.some(cookie => 
-      cookie.name === 'm-b' || cookie.name === 'm-s'
-    );
-    
-    if (hasRequiredCookies) {
-      console.log("✅ Cookies validated - Quora auth should work");
-      return {
-        success: true,
-        user: { 
-          email: config.email,
-          authMethod: 'cookies',
-          verified: true 
-        },
-      };
-    } else {
-      console.warn("⚠️ Required cookies (m-b or m-s) not found, but accepting anyway");
-      return {
-        success: true,
-        user: { 
-          email: config.email,
-          authMethod: 'cookies',
-          verified: false 
-        },
-      };
-    }
+async function isQuoraSignedIn(service: SeleniumBaseService): Promise<boolean> {
+  const currentUrl = await service.getCurrentUrl();
+  if (currentUrl.includes('/profile') || currentUrl.includes('/notifications') || currentUrl.includes('/write')) {
+    console.log("✅ URL indicates logged in");
+    return true;
   }
-  
-  // If no cookies provided, do full browser verification (slower)
-  console.log("🔧 No cookies provided - doing full browser verification...");
-  const service = new SeleniumBaseService({
-    headless: true,
-    browser: 'chrome',
-    timeout: 30000, // Reduced to 30 seconds
-  });
-
-  try {
-    console.log("🔧 Initializing Selenium WebDriver...");
-    const initStart = Date.now();
-    await service.initialize();
-    const initTime = ((Date.now() - initStart) / 1000).toFixed(2);
-    console.log(`✅ WebDriver initialized in ${initTime}s`);
-
-    const credentials: LoginCredentials = {
-      email: config.email,
-      password: config.password,
-      cookies: config.cookies,
-    };
-
-    console.log("🔐 Attempting to login to Quora...");
-    const loginStart = Date.now();
-    
-    try {
-      await loginToQuora(service, credentials);
-      const loginTime = ((Date.now() - loginStart) / 1000).toFixed(2);
-      console.log(`✅ Quora login completed in ${loginTime}s`);
-      
-      // Quick verification
-      console.log("🔍 Quick verification (max 3s)...");
-      let verified = false;
-      
-      try {
-        // Use Promise.race to limit verification time to 3 seconds
-        const verificationResult = await Promise.race([
-          (async () => {
-            try {
-              const currentUrl = await service.getCurrentUrl();
-              if (currentUrl.includes('/profile') || currentUrl.includes('/notifications') || currentUrl.includes('/write')) {
-                console.log("✅ URL indicates logged in");
-                return true;
-              }
-              const exists = await service.elementExists('a[href*="/profile"], a[href*="/notifications"]');
-              if (exists) {
-                console.log("✅ Found login indicator");
-                return true;
-              }
-              return false;
-            } catch (e) {
-              return false;
-            }
-          })(),
-          new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 3000)),
-        ]);
-        
-        verified = verificationResult;
-      } catch (e) {
-        console.warn("⚠️ Quick verification didn't complete - accepting as valid");
-      }
-      
-      if (verified) {
-        console.log("✅ Successfully verified Quora access");
-      } else {
-        console.warn("⚠️ Could not verify with quick check, but login completed - should work");
-      }
-      
-      return {
-        success: true,
-        user: { 
-          email: config.email,
-          authMethod: 'password',
-          verified 
-        },
-      };
-    } catch (loginError: any) {
-      const loginTime = ((Date.now() - loginStart) / 1000).toFixed(2);
-      console.error(`❌ Quora login error after ${loginTime}s:`, loginError.message);
-      throw loginError;
-    }
-  } catch (error: any) {
-    console.error("❌ Quora verification error:", error);
-    return {
-      success: false,
-      error: error.message || 'Failed to verify Quora access',
-    };
-  } finally {
-    console.log("🧹 Cleaning up Selenium resources...");
-    await service.cleanup();
+  const exists = await service.elementExists(service.getSelector('quora', 'signedInIndicator'));
+  if (exists) {
+    console.log("✅ Found login indicator");
   }
+  return exists;
 }
 
 /**
@@ -1307,332 +1384,395 @@ export interface QuoraMetrics {
   engagement?: number;
   lastUpdated: string;
   error?: string;
+  errorCode?: CrawlerErrorCode;
+  retryable?: boolean;
 }
 
 /**
- * Track performance metrics for a Quora post/answer
- * Uses Selenium to crawl the post page and extract metrics
- * 
- * @param config - Quora configuration (email, cookies)
- * @param postUrl - The URL of the Quora post/answer to track
- * @returns QuoraMetrics object with upvotes, comments, views, shares
+ * Read the metrics of a Quora post/answer from its page
+ * Runs on a signed-in session (needed to see full metrics)
  */
-export async function trackQuoraPerformance(
-  config: QuoraConfig,
+async function readQuoraMetrics(
+  service: SeleniumBaseService,
   postUrl: string
-): Promise<QuoraMetrics> {
-  const service = new SeleniumBaseService({
-    headless: true,
-    browser: 'chrome',
-    timeout: 60000,
-  });
-
-  try {
-    console.log('📊 Starting Quora performance tracking...');
-    console.log(`📊 Post URL: ${postUrl}`);
-    
-    await service.initialize();
-
-    const credentials: LoginCredentials = {
-      email: config.email,
-      password: config.password,
-      cookies: config.cookies,
-    };
-
-    // Login to Quora (required to see full metrics)
-    console.log('🔐 Logging in to Quora...');
-    await loginToQuora(service, credentials);
-    await service.humanDelay(2000, 3000);
+): Promise<Omit<QuoraMetrics, 'lastUpdated'>> {
+  // Let the login settle before opening the post
+  await service.humanDelay(2000, 3000);
 
-    // Navigate to the post URL
-    console.log(`📍 Navigating to post: ${postUrl}`);
-    await service.navigateTo(postUrl);
-    await service.humanDelay(3000, 5000);
+  // Navigate to the post URL
+  console.log(`📍 Navigating to post: ${postUrl}`);
+  await service.navigateTo(postUrl);
+  await service.humanDelay(3000, 5000);
 
-    // Wait for page to load completely (additional delay)
-    await service.humanDelay(2000, 3000);
+  // Wait for page to load completely (additional delay)
+  await service.humanDelay(2000, 3000);
 
-    // Extract metrics from the page
-    console.log('📊 Extracting metrics from Quora page...');
+  // Extract metrics from the page
+  console.log('📊 Extracting metrics from Quora page...');
+  
+  const metrics = await service.executeScript(`
+    let upvotes = 0;
+    let comments = 0;
+    let views = 0;
+    let shares = 0;
     
-    const metrics = await service.executeScript(`
-      let upvotes = 0;
-      let comments = 0;
-      let views = 0;
-      let shares = 0;
-      
-      // Get all text content from page for debugging
-      const bodyText = document.body.innerText || '';
-      console.log('🔍 Page text (first 800 chars):', bodyText.substring(0, 800));
-      
-      // === Extract Views ===
-      // Pattern: "7 views" or "1.2K views" at top of post
-      const viewsMatch = bodyText.match(/(\\d+(?:[,.]\\d+)?)(K|M)?\\s*views?/i);
-      if (viewsMatch) {
-        let num = parseFloat(viewsMatch[1].replace(',', ''));
-        if (viewsMatch[2]) {
-          const suffix = viewsMatch[2].toUpperCase();
+    // Get all text content from page for debugging
+    const bodyText = document.body.innerText || '';
+    console.log('🔍 Page text (first 800 chars):', bodyText.substring(0, 800));
+    
+    // === Extract Views ===
+    // Pattern: "7 views" or "1.2K views" at top of post
+    const viewsMatch = bodyText.match(/(\\d+(?:[,.]\\d+)?)(K|M)?\\s*views?/i);
+    if (viewsMatch) {
+      let num = parseFloat(viewsMatch[1].replace(',', ''));
+      if (viewsMatch[2]) {
+        const suffix = viewsMatch[2].toUpperCase();
+        if (suffix === 'K') num *= 1000;
+        if (suffix === 'M') num *= 1000000;
+      }
+      views = Math.round(num);
+      console.log('✅ Views found:', views, '(from pattern:', viewsMatch[0] + ')');
+    } else {
+      console.log('⚠️ No views pattern found');
+    }
+    
+    // === Extract Upvotes ===
+    // Pattern 1: "View 1 upvote" or "View 1.2K upvotes"
+    const viewUpvoteMatch = bodyText.match(/View\\s+(\\d+(?:[,.]\\d+)?)(K|M)?\\s*upvotes?/i);
+    if (viewUpvoteMatch) {
+      let num = parseFloat(viewUpvoteMatch[1].replace(',', ''));
+      if (viewUpvoteMatch[2]) {
+        const suffix = viewUpvoteMatch[2].toUpperCase();
+        if (suffix === 'K') num *= 1000;
+        if (suffix === 'M') num *= 1000000;
+      }
+      upvotes = Math.round(num);
+      console.log('✅ Upvotes found (from "View X upvote"):', upvotes);
+    }
+    
+    // Pattern 2: "Upvote · 1" button (when user has upvoted)
+    if (upvotes === 0) {
+      const upvoteButtonMatch = bodyText.match(/Upvote\\s*[·•]\\s*(\\d+(?:[,.]\\d+)?)(K|M)?/i);
+      if (upvoteButtonMatch) {
+        let num = parseFloat(upvoteButtonMatch[1].replace(',', ''));
+        if (upvoteButtonMatch[2]) {
+          const suffix = upvoteButtonMatch[2].toUpperCase();
           if (suffix === 'K') num *= 1000;
           if (suffix === 'M') num *= 1000000;
         }
-        views = Math.round(num);
-        console.log('✅ Views found:', views, '(from pattern:', viewsMatch[0] + ')');
-      } else {
-        console.log('⚠️ No views pattern found');
+        upvotes = Math.round(num);
+        console.log('✅ Upvotes found (from "Upvote · X"):', upvotes);
       }
-      
-      // === Extract Upvotes ===
-      // Pattern 1: "View 1 upvote" or "View 1.2K upvotes"
-      const viewUpvoteMatch = bodyText.match(/View\\s+(\\d+(?:[,.]\\d+)?)(K|M)?\\s*upvotes?/i);
-      if (viewUpvoteMatch) {
-        let num = parseFloat(viewUpvoteMatch[1].replace(',', ''));
-        if (viewUpvoteMatch[2]) {
-          const suffix = viewUpvoteMatch[2].toUpperCase();
+    }
+    
+    // Pattern 3: Just "X upvotes" text
+    if (upvotes === 0) {
+      const upvotesTextMatch = bodyText.match(/(?<!View\\s)(\\d+(?:[,.]\\d+)?)(K|M)?\\s*upvotes?/i);
+      if (upvotesTextMatch) {
+        let num = parseFloat(upvotesTextMatch[1].replace(',', ''));
+        if (upvotesTextMatch[2]) {
+          const suffix = upvotesTextMatch[2].toUpperCase();
           if (suffix === 'K') num *= 1000;
           if (suffix === 'M') num *= 1000000;
         }
         upvotes = Math.round(num);
-        console.log('✅ Upvotes found (from "View X upvote"):', upvotes);
+        console.log('✅ Upvotes found (from "X upvotes"):', upvotes);
       }
-      
-      // Pattern 2: "Upvote · 1" button (when user has upvoted)
-      if (upvotes === 0) {
-        const upvoteButtonMatch = bodyText.match(/Upvote\\s*[·•]\\s*(\\d+(?:[,.]\\d+)?)(K|M)?/i);
-        if (upvoteButtonMatch) {
-          let num = parseFloat(upvoteButtonMatch[1].replace(',', ''));
-          if (upvoteButtonMatch[2]) {
-            const suffix = upvoteButtonMatch[2].toUpperCase();
-            if (suffix === 'K') num *= 1000;
-            if (suffix === 'M') num *= 1000000;
-          }
-          upvotes = Math.round(num);
-          console.log('✅ Upvotes found (from "Upvote · X"):', upvotes);
-        }
+    }
+    
+    if (upvotes === 0) {
+      console.log('⚠️ No upvotes pattern found - defaulting to 0');
+    }
+    
+    // === Extract Comments ===
+    // Find the comment icon and look for a number directly next to it
+    console.log('🔍 Looking for comment icon and adjacent number...');
+    
+    // Find all potential comment icons/buttons (SVG icons, buttons with comment aria-label)
+    const commentElements = document.querySelectorAll(
+      'button[aria-label*="omment"], ' +
+      'a[aria-label*="omment"], ' +
+      'svg[class*="comment"], ' +
+      '[class*="CommentButton"], ' +
+      '[data-testid*="comment"]'
+    );
+    
+    console.log('Found', commentElements.length, 'potential comment elements');
+    
+    for (const commentEl of commentElements) {
+      // Get the parent container (usually the button or link wrapper)
+      let container = commentEl;
+      if (commentEl.tagName === 'svg' || commentEl.tagName === 'SVG') {
+        container = commentEl.closest('button, a, div[role="button"]') || commentEl.parentElement;
       }
       
-      // Pattern 3: Just "X upvotes" text
-      if (upvotes === 0) {
-        const upvotesTextMatch = bodyText.match(/(?<!View\\s)(\\d+(?:[,.]\\d+)?)(K|M)?\\s*upvotes?/i);
-        if (upvotesTextMatch) {
-          let num = parseFloat(upvotesTextMatch[1].replace(',', ''));
-          if (upvotesTextMatch[2]) {
-            const suffix = upvotesTextMatch[2].toUpperCase();
-            if (suffix === 'K') num *= 1000;
-            if (suffix === 'M') num *= 1000000;
+      if (!container) continue;
+      
+      console.log('Checking comment container:', container.outerHTML.substring(0, 200));
+      
+      // Method 1: Look for number in direct children
+      const children = Array.from(container.children);
+      for (const child of children) {
+        const childText = child.textContent?.trim() || '';
+        if (/^\\d+$/.test(childText)) {
+          const num = parseInt(childText, 10);
+          if (num !== views && num !== upvotes) {
+            comments = num;
+            console.log('✅ Comments found (child element):', comments, 'from:', child.outerHTML.substring(0, 100));
+            break;
           }
-          upvotes = Math.round(num);
-          console.log('✅ Upvotes found (from "X upvotes"):', upvotes);
         }
       }
       
-      if (upvotes === 0) {
-        console.log('⚠️ No upvotes pattern found - defaulting to 0');
-      }
+      if (comments > 0) break;
       
-      // === Extract Comments ===
-      // Find the comment icon and look for a number directly next to it
-      console.log('🔍 Looking for comment icon and adjacent number...');
-      
-      // Find all potential comment icons/buttons (SVG icons, buttons with comment aria-label)
-      const commentElements = document.querySelectorAll(
-        'button[aria-label*="omment"], ' +
-        'a[aria-label*="omment"], ' +
-        'svg[class*="comment"], ' +
-        '[class*="CommentButton"], ' +
-        '[data-testid*="comment"]'
-      );
-      
-      console.log('Found', commentElements.length, 'potential comment elements');
-      
-      for (const commentEl of commentElements) {
-        // Get the parent container (usually the button or link wrapper)
-        let container = commentEl;
-        if (commentEl.tagName === 'svg' || commentEl.tagName === 'SVG') {
-          container = commentEl.closest('button, a, div[role="button"]') || commentEl.parentElement;
-        }
-        
-        if (!container) continue;
-        
-        console.log('Checking comment container:', container.outerHTML.substring(0, 200));
-        
-        // Method 1: Look for number in direct children
-        const children = Array.from(container.children);
-        for (const child of children) {
-          const childText = child.textContent?.trim() || '';
-          if (/^\\d+$/.test(childText)) {
-            const num = parseInt(childText, 10);
-            if (num !== views && num !== upvotes) {
-              comments = num;
-              console.log('✅ Comments found (child element):', comments, 'from:', child.outerHTML.substring(0, 100));
-              break;
-            }
+      // Method 2: Look for number in next sibling
+      let nextSibling = container.nextElementSibling;
+      if (nextSibling) {
+        const sibText = nextSibling.textContent?.trim() || '';
+        if (/^\\d+$/.test(sibText)) {
+          const num = parseInt(sibText, 10);
+          if (num !== views && num !== upvotes) {
+            comments = num;
+            console.log('✅ Comments found (next sibling):', comments);
+            break;
           }
         }
+      }
+      
+      // Method 3: Look for number in parent's children (siblings of container)
+      if (comments === 0 && container.parentElement) {
+        const siblings = Array.from(container.parentElement.children);
+        const containerIndex = siblings.indexOf(container);
         
-        if (comments > 0) break;
-        
-        // Method 2: Look for number in next sibling
-        let nextSibling = container.nextElementSibling;
-        if (nextSibling) {
-          const sibText = nextSibling.textContent?.trim() || '';
-          if (/^\\d+$/.test(sibText)) {
-            const num = parseInt(sibText, 10);
+        // Check element right after the comment button
+        if (containerIndex >= 0 && containerIndex < siblings.length - 1) {
+          const nextElement = siblings[containerIndex + 1];
+          const nextText = nextElement.textContent?.trim() || '';
+          if (/^\\d+$/.test(nextText)) {
+            const num = parseInt(nextText, 10);
             if (num !== views && num !== upvotes) {
               comments = num;
-              console.log('✅ Comments found (next sibling):', comments);
+              console.log('✅ Comments found (parent sibling):', comments);
               break;
             }
           }
         }
-        
-        // Method 3: Look for number in parent's children (siblings of container)
-        if (comments === 0 && container.parentElement) {
-          const siblings = Array.from(container.parentElement.children);
-          const containerIndex = siblings.indexOf(container);
-          
-          // Check element right after the comment button
-          if (containerIndex >= 0 && containerIndex < siblings.length - 1) {
-            const nextElement = siblings[containerIndex + 1];
-            const nextText = nextElement.textContent?.trim() || '';
-            if (/^\\d+$/.test(nextText)) {
-              const num = parseInt(nextText, 10);
-              if (num !== views && num !== upvotes) {
-                comments = num;
-                console.log('✅ Comments found (parent sibling):', comments);
-                break;
-              }
-            }
-          }
-        }
       }
-      
-      if (comments === 0) {
-        console.log('⚠️ No comment count found next to icon - defaulting to 0');
+    }
+    
+    if (comments === 0) {
+      console.log('⚠️ No comment count found next to icon - defaulting to 0');
+    }
+    
+    // === Extract Shares ===
+    // Find the share icon and look for a number directly next to it
+    console.log('🔍 Looking for share icon and adjacent number...');
+    
+    // Find all potential share icons/buttons
+    const shareElements = document.querySelectorAll(
+      'button[aria-label*="hare"], ' +
+      'a[aria-label*="hare"], ' +
+      'svg[class*="share"], ' +
+      'svg[class*="Share"], ' +
+      '[class*="ShareButton"], ' +
+      '[data-testid*="share"]'
+    );
+    
+    console.log('Found', shareElements.length, 'potential share elements');
+    
+    for (const shareEl of shareElements) {
+      // Get the parent container
+      let container = shareEl;
+      if (shareEl.tagName === 'svg' || shareEl.tagName === 'SVG') {
+        container = shareEl.closest('button, a, div[role="button"]') || shareEl.parentElement;
       }
       
-      // === Extract Shares ===
-      // Find the share icon and look for a number directly next to it
-      console.log('🔍 Looking for share icon and adjacent number...');
-      
-      // Find all potential share icons/buttons
-      const shareElements = document.querySelectorAll(
-        'button[aria-label*="hare"], ' +
-        'a[aria-label*="hare"], ' +
-        'svg[class*="share"], ' +
-        'svg[class*="Share"], ' +
-        '[class*="ShareButton"], ' +
-        '[data-testid*="share"]'
-      );
+      if (!container) continue;
       
-      console.log('Found', shareElements.length, 'potential share elements');
+      console.log('Checking share container:', container.outerHTML.substring(0, 200));
       
-      for (const shareEl of shareElements) {
-        // Get the parent container
-        let container = shareEl;
-        if (shareEl.tagName === 'svg' || shareEl.tagName === 'SVG') {
-          container = shareEl.closest('button, a, div[role="button"]') || shareEl.parentElement;
+      // Method 1: Look for number in direct children
+      const children = Array.from(container.children);
+      for (const child of children) {
+        const childText = child.textContent?.trim() || '';
+        if (/^\\d+$/.test(childText)) {
+          const num = parseInt(childText, 10);
+          if (num !== views && num !== upvotes && num !== comments) {
+            shares = num;
+            console.log('✅ Shares found (child element):', shares);
+            break;
+          }
         }
-        
-        if (!container) continue;
-        
-        console.log('Checking share container:', container.outerHTML.substring(0, 200));
-        
-        // Method 1: Look for number in direct children
-        const children = Array.from(container.children);
-        for (const child of children) {
-          const childText = child.textContent?.trim() || '';
-          if (/^\\d+$/.test(childText)) {
-            const num = parseInt(childText, 10);
-            if (num !== views && num !== upvotes && num !== comments) {
-              shares = num;
-              console.log('✅ Shares found (child element):', shares);
-              break;
-            }
+      }
+      
+      if (shares > 0) break;
+      
+      // Method 2: Look for number in next sibling
+      let nextSibling = container.nextElementSibling;
+      if (nextSibling) {
+        const sibText = nextSibling.textContent?.trim() || '';
+        if (/^\\d+$/.test(sibText)) {
+          const num = parseInt(sibText, 10);
+          if (num !== views && num !== upvotes && num !== comments) {
+            shares = num;
+            console.log('✅ Shares found (next sibling):', shares);
+            break;
           }
         }
+      }
+      
+      // Method 3: Look for number in parent's children
+      if (shares === 0 && container.parentElement) {
+        const siblings = Array.from(container.parentElement.children);
+        const containerIndex = siblings.indexOf(container);
         
-        if (shares > 0) break;
-        
-        // Method 2: Look for number in next sibling
-        let nextSibling = container.nextElementSibling;
-        if (nextSibling) {
-          const sibText = nextSibling.textContent?.trim() || '';
-          if (/^\\d+$/.test(sibText)) {
-            const num = parseInt(sibText, 10);
+        if (containerIndex >= 0 && containerIndex < siblings.length - 1) {
+          const nextElement = siblings[containerIndex + 1];
+          const nextText = nextElement.textContent?.trim() || '';
+          if (/^\\d+$/.test(nextText)) {
+            const num = parseInt(nextText, 10);
             if (num !== views && num !== upvotes && num !== comments) {
               shares = num;
-              console.log('✅ Shares found (next sibling):', shares);
+              console.log('✅ Shares found (parent sibling):', shares);
               break;
             }
           }
         }
-        
-        // Method 3: Look for number in parent's children
-        if (shares === 0 && container.parentElement) {
-          const siblings = Array.from(container.parentElement.children);
-          const containerIndex = siblings.indexOf(container);
-          
-          if (containerIndex >= 0 && containerIndex < siblings.length - 1) {
-            const nextElement = siblings[containerIndex + 1];
-            const nextText = nextElement.textContent?.trim() || '';
-            if (/^\\d+$/.test(nextText)) {
-              const num = parseInt(nextText, 10);
-              if (num !== views && num !== upvotes && num !== comments) {
-                shares = num;
-                console.log('✅ Shares found (parent sibling):', shares);
-                break;
-              }
-            }
-          }
-        }
       }
-      
-      if (shares === 0) {
-        console.log('ℹ️ No share count found next to icon - defaulting to 0');
-      }
-      
-      console.log('📊 Final metrics:', { views, upvotes, comments, shares });
-      
-      return {
-        upvotes,
-        comments,
-        views,
-        shares,
-      };
-    `);
+    }
+    
+    if (shares === 0) {
+      console.log('ℹ️ No share count found next to icon - defaulting to 0');
+    }
+    
+    console.log('📊 Final metrics:', { views, upvotes, comments, shares });
+    
+    return {
+      upvotes,
+      comments,
+      views,
+      shares,
+    };
+  `);
 
-    console.log('📊 Raw metrics extracted:', metrics);
+  console.log('📊 Raw metrics extracted:', metrics);
 
-    // Calculate engagement (upvotes + comments + shares)
-    const totalEngagement = (metrics.upvotes || 0) + (metrics.comments || 0) + (metrics.shares || 0);
-    const engagement = totalEngagement > 0 ? totalEngagement : 0;
+  // Calculate engagement (upvotes + comments + shares)
+  const totalEngagement = (metrics.upvotes || 0) + (metrics.comments || 0) + (metrics.shares || 0);
+  const engagement = totalEngagement > 0 ? totalEngagement : 0;
 
-    const result: QuoraMetrics = {
-      upvotes: metrics.upvotes || 0,
-      comments: metrics.comments || 0,
-      views: metrics.views || undefined,
-      shares: metrics.shares || undefined,
-      engagement,
-      lastUpdated: new Date().toISOString(),
+  return {
+    upvotes: metrics.upvotes || 0,
+    comments: metrics.comments || 0,
+    views: metrics.views || undefined,
+    shares: metrics.shares || undefined,
+    engagement,
+  };
+}
+
+/**
+ * Open Quora pages with a signed-in account and check the selector registry groups
+ * each page uses - nothing is typed or submitted (used by the selector canary)
+ * Pages: homepage, the "Create Post" modal and, when questionUrl is given, a question page
+ */
+export async function checkQuoraSelectors(
+  config: QuoraConfig,
+  questionUrl?: string
+): Promise<SelectorPageCheck[]> {
+  return withPlatformSession(quoraAdapter, config, async service => {
+    const pages: SelectorPageCheck[] = [];
+    const checkPage = async (page: string, groups: string[], open: (service: SeleniumBaseService) => Promise<void>) => {
+      try {
+        await open(service);
+        const checks: SelectorPageCheck['groups'] = [];
+        for (const group of groups) {
+          checks.push(await service.checkSelectorGroup('quora', group));
+        }
+        pages.push({ page, url: await service.getCurrentUrl(), groups: checks });
+      } catch (error: any) {
+        console.error(`❌ Selector canary could not open Quora ${page}:`, error.message);
+        pages.push({ page, groups: [], error: error.message || 'Failed to open page' });
+      }
     };
 
-    console.log('✅ Quora metrics extracted successfully:', result);
+    await checkPage('homepage', ['signedInIndicator', 'userMenu', 'homepagePostButton'], async browser => {
+      await browser.navigateTo(getBaseUrl('quora'));
+      await browser.humanDelay(3000, 5000);
+    });
 
-    return result;
+    await checkPage('post-modal', ['postEditor', 'modalPostButton'], async browser => {
+      const postButton = await browser.findFirstSelector('quora', 'homepagePostButton');
+      if (!postButton) {
+        throw new SelectorNotFoundError("No 'homepagePostButton' selector matched - cannot open the post modal");
+      }
+      await browser.clickElement(postButton, { by: 'css' });
+      await browser.humanDelay(2000, 3000);
+    });
 
-  } catch (error: any) {
-    console.error('❌ Error tracking Quora performance:', error);
-    
-    return {
-      upvotes: 0,
-      comments: 0,
-      engagement: 0,
-      lastUpdated: new Date().toISOString(),
-      error: error.message || 'Failed to track Quora performance',
-    };
-  } finally {
-    console.log('🧹 Cleaning up Selenium resources...');
-    await service.cleanup();
-  }
+    if (questionUrl) {
+      await checkPage('question', ['answerEditor', 'submitAnswerButton'], async browser => {
+        await browser.navigateTo(questionUrl);
+        await browser.humanDelay(2000, 3000);
+      });
+    }
+
+    return pages;
+  });
+}
+
+/**
+ * Publish to Quora - an answer to `questionUrl` when given, otherwise a post
+ * Same as publishToPlatform(quoraAdapter, ...), kept for existing callers
+ */
+export function publishToQuora(
+  config: QuoraConfig,
+  content: PublishContent,
+  questionUrl?: string,
+  onStep?: StepListener
+): Promise<QuoraPublishResult> {
+  return publishToPlatform(quoraAdapter, config, content, questionUrl ? { questionUrl } : {}, onStep);
 }
 
+/**
+ * Track a Quora post/answer's metrics
+ * Same as trackPlatformPost(quoraAdapter, ...), kept for existing callers
+ */
+export async function trackQuoraPerformance(config: QuoraConfig, postUrl: string): Promise<QuoraMetrics> {
+  return (await trackPlatformPost(quoraAdapter, config, postUrl)) as QuoraMetrics;
+}
+
+/**
+ * Check that the Quora credentials can sign in
+ * Same as verifyPlatformAccount(quoraAdapter, ...), kept for existing callers
+ */
+export function verifyQuoraConfig(config: QuoraConfig): Promise<VerifyResult> {
+  return verifyPlatformAccount(quoraAdapter, config);
+}
+
+/**
+ * Quora platform adapter (see services/platform-adapter.ts)
+ * Publishes an answer when `questionUrl` is given, otherwise a post; edits and deletes either
+ */
+export const quoraAdapter: PlatformAdapter = {
+  platform: 'quora',
+  displayName: 'Quora',
+  capabilities: { publish: true, track: true, verify: true, edit: true, delete: true },
+  sessionTimeout: 60000, // Quora loads slowly
+  publishOptions: ['questionUrl'],
+  deleteOptions: [],
+  postUrlField: 'postUrl',
+  // Quora URLs are slugs, so IDs are looked up in earlier publish results
+  postIdFields: ['answerId', 'postId'],
+  metricFields: ['upvotes', 'comments', 'views', 'shares'],
+  sessionCookies: ['m-b', 'm-s'],
+  login: loginToQuora,
+  isSignedIn: isQuoraSignedIn,
+  publish: (service, content, options, artifacts) =>
+    options.questionUrl
+      ? answerQuestion(service, options.questionUrl, content)
+      : createQuoraPost(service, content, artifacts),
+  track: readQuoraMetrics,
+  edit: editQuoraContent,
+  delete: deleteQuoraContent,
+};
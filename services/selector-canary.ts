@@ -0,0 +1,203 @@
+/**
+ * Selector Canary
+ * Logs in with designated canary accounts, opens the pages the publish flows use
+ * (without submitting anything) and checks that every selector registry group still
+ * matches, so a Quora/Medium DOM change is noticed before a customer's publish fails
+ *
+ * Canary accounts are stored accounts (POST /accounts) named by
+ * CANARY_QUORA_ACCOUNT_ID and CANARY_MEDIUM_ACCOUNT_ID. CANARY_QUORA_QUESTION_URL
+ * adds a question page to the Quora check. Every run is kept in the history
+ * (the newest CANARY_HISTORY_LIMIT runs, default 200)
+ */
+
+import { randomUUID } from 'crypto';
+import { JsonCollection } from './json-store';
+import { AccountPlatform, ACCOUNT_PLATFORMS, getAccountCredentials } from './account-vault';
+import { getSelectorGroupNames, getSelectorRegistryInfo } from './selector-registry';
+import { SelectorPageCheck } from './selenium-base';
+import { CrawlerErrorCode, describeError } from './errors';
+import { checkQuoraSelectors } from './quora';
+import { checkMediumSelectors } from './medium';
+
+export interface SelectorCanaryPlatformReport {
+  platform: AccountPlatform;
+  version?: string; // Selector registry version the run checked
+  accountId: string;
+  passed: boolean;
+  pages: SelectorPageCheck[];
+  failedGroups: string[];
+  skippedGroups: string[]; // Registry groups not visible on any checked page (e.g. login form)
+  error?: string; // Login or browser failure - nothing was checked
+  errorCode?: CrawlerErrorCode;
+}
+
+export interface SelectorCanaryRun {
+  id: string;
+  client?: string;
+  jobId?: string;
+  passed: boolean;
+  platforms: SelectorCanaryPlatformReport[];
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface SelectorCanaryInput {
+  platforms: AccountPlatform[];
+  questionUrl?: string;
+}
+
+const runs = new JsonCollection<SelectorCanaryRun>('selector-canary-runs');
+
+function getHistoryLimit(): number {
+  const value = parseInt(process.env.CANARY_HISTORY_LIMIT || '200', 10);
+  return Number.isFinite(value) && value > 0 ? value : 200;
+}
+
+/**
+ * Stored account used by the canary for a platform (undefined when not configured)
+ */
+export function getCanaryAccountId(platform: AccountPlatform): string | undefined {
+  const value = platform === 'quora' ? process.env.CANARY_QUORA_ACCOUNT_ID : process.env.CANARY_MEDIUM_ACCOUNT_ID;
+  return value || undefined;
+}
+
+/**
+ * Validate a canary request body and fill in defaults
+ * Returns the input, or an error message
+ */
+export function parseCanaryInput(body: any): SelectorCanaryInput | string {
+  let platforms: AccountPlatform[];
+
+  if (body.platforms !== undefined) {
+    if (!Array.isArray(body.platforms) || body.platforms.length === 0 || body.platforms.some((platform: any) => !ACCOUNT_PLATFORMS.includes(platform))) {
+      return `platforms must be a non-empty array of: ${ACCOUNT_PLATFORMS.join(', ')}`;
+    }
+    platforms = Array.from(new Set<AccountPlatform>(body.platforms));
+    const missing = platforms.filter(platform => !getCanaryAccountId(platform));
+    if (missing.length > 0) {
+      return `No canary account configured for: ${missing.join(', ')} (set CANARY_${missing[0].toUpperCase()}_ACCOUNT_ID)`;
+    }
+  } else {
+    platforms = ACCOUNT_PLATFORMS.filter(platform => getCanaryAccountId(platform));
+    if (platforms.length === 0) {
+      return 'No canary accounts configured (set CANARY_QUORA_ACCOUNT_ID and/or CANARY_MEDIUM_ACCOUNT_ID)';
+    }
+  }
+
+  const questionUrl = body.questionUrl ?? process.env.CANARY_QUORA_QUESTION_URL;
+  if (questionUrl !== undefined && (typeof questionUrl !== 'string' || !/^https?:\/\//i.test(questionUrl))) {
+    return 'questionUrl must be an http(s) URL';
+  }
+
+  return { platforms, questionUrl };
+}
+
+/**
+ * Registry groups of a platform that no checked page covered
+ */
+function findSkippedGroups(platform: AccountPlatform, pages: SelectorPageCheck[]): string[] {
+  const checked = new Set(pages.flatMap(page => page.groups.map(check => check.group)));
+  return getSelectorGroupNames(platform).filter(group => !checked.has(group));
+}
+
+async function checkPlatform(platform: AccountPlatform, input: SelectorCanaryInput): Promise<SelectorCanaryPlatformReport> {
+  const accountId = getCanaryAccountId(platform)!;
+  const version = getSelectorRegistryInfo().versions[platform];
+
+  try {
+    // Canary accounts are service-wide, so no client ownership check
+    const credentials = getAccountCredentials(accountId, platform);
+    const pages = platform === 'quora'
+      ? await checkQuoraSelectors(credentials, input.questionUrl)
+      : await checkMediumSelectors(credentials);
+
+    const failedGroups = pages.flatMap(page => page.groups.filter(check => !check.passed).map(check => check.group));
+    const pageErrors = pages.filter(page => page.error);
+
+    return {
+      platform,
+      version,
+      accountId,
+      passed: failedGroups.length === 0 && pageErrors.length === 0,
+      pages,
+      failedGroups: Array.from(new Set(failedGroups)),
+      skippedGroups: findSkippedGroups(platform, pages),
+    };
+  } catch (error: any) {
+    const failure = describeError(error, 'Selector canary failed');
+    console.error(`❌ Selector canary failed for ${platform}:`, failure.error);
+    return {
+      platform,
+      version,
+      accountId,
+      passed: false,
+      pages: [],
+      failedGroups: [],
+      skippedGroups: [],
+      error: failure.error,
+      errorCode: failure.errorCode,
+    };
+  }
+}
+
+/**
+ * Run the canary for each requested platform (one after the other) and save the run
+ */
+export async function runSelectorCanary(
+  input: SelectorCanaryInput,
+  context: { client?: string; jobId?: string } = {}
+): Promise<SelectorCanaryRun> {
+  const startedAt = new Date().toISOString();
+  const platforms: SelectorCanaryPlatformReport[] = [];
+
+  for (const platform of input.platforms) {
+    console.log(`🐤 Selector canary: checking ${platform}...`);
+    platforms.push(await checkPlatform(platform, input));
+  }
+
+  const run: SelectorCanaryRun = {
+    id: randomUUID(),
+    client: context.client,
+    jobId: context.jobId,
+    passed: platforms.every(report => report.passed),
+    platforms,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+
+  runs.upsert(run);
+  trimHistory();
+  console.log(`${run.passed ? '✅' : '❌'} Selector canary ${run.passed ? 'passed' : 'failed'}: ${run.id}`);
+
+  return run;
+}
+
+/**
+ * Drop the oldest runs beyond the history limit
+ */
+function trimHistory(): void {
+  const sorted = listCanaryRuns();
+  for (const run of sorted.slice(getHistoryLimit())) {
+    runs.remove(run.id);
+  }
+}
+
+/**
+ * Canary runs, newest first
+ */
+export function listCanaryRuns(filter: { platform?: AccountPlatform; passed?: boolean; limit?: number } = {}): SelectorCanaryRun[] {
+  const result = runs
+    .list()
+    .filter(run => !filter.platform || run.platforms.some(report => report.platform === filter.platform))
+    .filter(run => filter.passed === undefined || run.passed === filter.passed)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  return filter.limit ? result.slice(0, filter.limit) : result;
+}
+
+/**
+ * Get one canary run
+ */
+export function getCanaryRun(id: string): SelectorCanaryRun | undefined {
+  return runs.get(id);
+}
@@ -0,0 +1,177 @@
+/**
+ * Selector Registry
+ * CSS selectors for each platform live in a JSON file instead of the TypeScript flows,
+ * so a UI change on Quora or Medium can be handled without a code deploy
+ *
+ * File: SELECTORS_FILE (default selectors/selectors.json)
+ *   {
+ *     "platforms": {
+ *       "medium": {
+ *         "version": "2026-10-19",
+ *         "groups": { "editor": ["[data-testid=\"editor\"]", "article"], ... }
+ *       }
+ *     }
+ *   }
+ * Each group is an ordered list of fallbacks - flows try them first to last.
+ * The file is watched and reloaded on change; an invalid file (or one that drops a
+ * group) is rejected and the previously loaded selectors stay in use
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface SelectorPlatform {
+  version: string;
+  groups: Record<string, string[]>;
+}
+
+export interface SelectorRegistry {
+  platforms: Record<string, SelectorPlatform>;
+}
+
+const WATCH_INTERVAL_MS = 5000;
+
+let registry: SelectorRegistry | null = null;
+let loadedAt: string | null = null;
+let watchedFile: string | null = null;
+
+function getSelectorsFile(): string {
+  return process.env.SELECTORS_FILE || path.join(process.cwd(), 'selectors', 'selectors.json');
+}
+
+/**
+ * Check the registry structure - returns an error message, or null when valid
+ */
+export function validateSelectorRegistry(data: any): string | null {
+  if (!data || typeof data !== 'object' || !data.platforms || typeof data.platforms !== 'object') {
+    return 'Selector registry must be an object with "platforms"';
+  }
+
+  for (const [platform, entry] of Object.entries<any>(data.platforms)) {
+    if (!entry || typeof entry.version !== 'string' || !entry.version) {
+      return `platforms.${platform}.version must be a non-empty string`;
+    }
+    if (!entry.groups || typeof entry.groups !== 'object') {
+      return `platforms.${platform}.groups must be an object`;
+    }
+    for (const [group, selectors] of Object.entries<any>(entry.groups)) {
+      if (!Array.isArray(selectors) || selectors.length === 0) {
+        return `platforms.${platform}.groups.${group} must be a non-empty array of selectors`;
+      }
+      for (const selector of selectors) {
+        if (typeof selector !== 'string' || !selector.trim()) {
+          return `platforms.${platform}.groups.${group} contains an empty or non-string selector`;
+        }
+        // Selectors are embedded in single-quoted strings inside page scripts
+        if (/['\\\n]/.test(selector)) {
+          return `platforms.${platform}.groups.${group}: selectors must not contain single quotes, backslashes or newlines (${selector})`;
+        }
+        // Fallbacks are joined into one selector list, so a single non-CSS entry breaks the whole group
+        if (/:(contains|has-text)\(/.test(selector)) {
+          return `platforms.${platform}.groups.${group}: :contains() and :has-text() are not CSS - match text in a page script instead (${selector})`;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Flows look groups up by name, so a reload must keep every group that is loaded now
+ */
+function findDroppedGroup(data: SelectorRegistry): string | null {
+  for (const [platform, entry] of Object.entries(registry?.platforms || {})) {
+    for (const group of Object.keys(entry.groups)) {
+      if (!data.platforms[platform]?.groups[group]) {
+        return `platforms.${platform}.groups.${group} is missing (groups cannot be removed while the service runs)`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Read and validate the registry file, replacing the loaded registry
+ * Throws (keeping the current registry) when the file is missing or invalid
+ */
+export function loadSelectorRegistry(): SelectorRegistry {
+  const file = getSelectorsFile();
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+  const error = validateSelectorRegistry(data) || findDroppedGroup(data);
+  if (error) {
+    throw new Error(`Invalid selector registry ${file}: ${error}`);
+  }
+
+  registry = data as SelectorRegistry;
+  loadedAt = new Date().toISOString();
+
+  const versions = Object.entries(registry.platforms).map(([platform, entry]) => `${platform}@${entry.version}`);
+  console.log(`🧭 Selector registry loaded: ${versions.join(', ')}`);
+
+  return registry;
+}
+
+function getRegistry(): SelectorRegistry {
+  return registry || loadSelectorRegistry();
+}
+
+/**
+ * Ordered fallback selectors for a named group
+ * Throws when the platform or group is missing from the registry
+ */
+export function getSelectorGroup(platform: string, group: string): string[] {
+  const entry = getRegistry().platforms[platform];
+  const selectors = entry?.groups[group];
+  if (!selectors) {
+    throw new Error(`Selector group not found in registry: ${platform}.${group}`);
+  }
+  return [...selectors];
+}
+
+/**
+ * Names of every group registered for a platform (empty when the platform is unknown)
+ */
+export function getSelectorGroupNames(platform: string): string[] {
+  return Object.keys(getRegistry().platforms[platform]?.groups || {});
+}
+
+/**
+ * Loaded versions per platform (for health checks and debugging)
+ */
+export function getSelectorRegistryInfo(): { file: string; loadedAt: string | null; versions: Record<string, string> } {
+  const versions: Record<string, string> = {};
+  for (const [platform, entry] of Object.entries(registry?.platforms || {})) {
+    versions[platform] = entry.version;
+  }
+  return { file: getSelectorsFile(), loadedAt, versions };
+}
+
+/**
+ * Load the registry and reload it whenever the file changes
+ */
+export function watchSelectorRegistry(): void {
+  if (watchedFile) {
+    return;
+  }
+
+  try {
+    loadSelectorRegistry();
+  } catch (error: any) {
+    console.error('❌ Failed to load selector registry:', error.message);
+  }
+
+  watchedFile = getSelectorsFile();
+  // Polling survives editors and deploys that replace the file instead of writing in place
+  fs.watchFile(watchedFile, { interval: WATCH_INTERVAL_MS, persistent: false }, (current, previous) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+    try {
+      loadSelectorRegistry();
+    } catch (error: any) {
+      console.error('❌ Selector registry reload rejected, keeping previous selectors:', error.message);
+    }
+  });
+}
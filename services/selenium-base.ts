@@ -4,12 +4,22 @@
  * Used by Medium and Quora integrations
  */
 
-import { Builder, WebDriver, By, until, WebElement } from 'selenium-webdriver';
+import { Builder, WebDriver, By, until, WebElement, logging } from 'selenium-webdriver';
 import chrome from 'selenium-webdriver/chrome';
 import firefox from 'selenium-webdriver/firefox';
 import * as path from 'path';
 import * as fs from 'fs';
 import { execSync } from 'child_process';
+import {
+  CrawlerError,
+  CrawlerErrorCode,
+  DriverUnavailableError,
+  NavigationTimeoutError,
+  SelectorNotFoundError,
+  StillPublicError,
+  isSeleniumTimeout
+} from './errors';
+import { getSelectorGroup } from './selector-registry';
 
 export interface SeleniumConfig {
   headless?: boolean;
@@ -37,9 +47,12 @@ export interface LoginCredentials {
   }>;
 }
 
+export type ContentFormat = 'markdown' | 'html' | 'plain';
+
 export interface PublishContent {
   title: string;
   content: string;
+  format?: ContentFormat; // How `content` is written (default: 'plain')
   tags?: string[];
   metadata?: Record<string, any>;
 }
@@ -48,7 +61,68 @@ export interface PublishResult {
   success: boolean;
   url?: string;
   error?: string;
-  screenshot?: string; // Base64 encoded screenshot for debugging
+  errorCode?: CrawlerErrorCode; // Stable error code (see services/errors.ts)
+  retryable?: boolean; // Whether retrying the same request may succeed
+  artifactId?: string; // Failure artifacts (screenshots, page source, logs) - see GET /artifacts/:id
+  timeline?: TimelineStep[]; // Steps the flow went through, in order
+  verifiedLive?: boolean; // Edits: the live page was checked and shows the new content
+  verifiedRemoved?: boolean; // Deletes: the public URL was checked signed out and no longer shows the content
+}
+
+export type SelectorStrategy = 'id' | 'name' | 'xpath' | 'css' | 'script';
+
+export type StepOutcome = 'running' | 'succeeded' | 'failed';
+
+/**
+ * One named step of a flow, as recorded by the step tracker
+ */
+export interface TimelineStep {
+  name: string;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  attempts: number; // Lookup attempts made by findElementsWithRetry during the step
+  selector?: string; // Last selector that matched during the step
+  strategy?: SelectorStrategy; // How it was matched ('script' = JavaScript lookup)
+  outcome: StepOutcome;
+  error?: string;
+}
+
+/**
+ * Result of checking one selector registry group against the current page
+ */
+export interface SelectorGroupCheck {
+  group: string;
+  passed: boolean; // At least one fallback matched
+  selectors: Array<{
+    selector: string;
+    matched: boolean;
+    invalid?: boolean; // Not valid CSS for document.querySelector
+  }>;
+}
+
+/**
+ * Registry groups checked on one page of a platform
+ */
+export interface SelectorPageCheck {
+  page: string; // e.g. 'homepage', 'post-modal', 'new-story'
+  url?: string;
+  groups: SelectorGroupCheck[];
+  error?: string; // The page could not be opened - its groups were not checked
+}
+
+/**
+ * Called when a step starts and again when it ends (e.g. to stream progress)
+ */
+export type StepListener = (step: TimelineStep) => void;
+
+/**
+ * Browser console entry (from the WebDriver browser log)
+ */
+export interface BrowserLogEntry {
+  level: string;
+  message: string;
+  timestamp: string;
 }
 
 /**
@@ -58,6 +132,11 @@ export interface PublishResult {
 export class SeleniumBaseService {
   protected driver: WebDriver | null = null;
   protected config: SeleniumConfig;
+  // Origins navigated to in this session - cleared when the session is reset for reuse
+  private visitedOrigins = new Set<string>();
+  // Steps of the current flow (see beginStep) - cleared when the session is reset for reuse
+  private timeline: TimelineStep[] = [];
+  private stepListener: StepListener | null = null;
 
   constructor(config: SeleniumConfig = {}) {
     this.config = {
@@ -192,6 +271,11 @@ export class SeleniumBaseService {
         
         // Exclude automation flags (using addArguments instead of setExcludeSwitches)
         options.addArguments('--exclude-switches=enable-automation');
+
+        // Keep the browser console log so it can be saved with failure artifacts
+        const loggingPrefs = new logging.Preferences();
+        loggingPrefs.setLevel(logging.Type.BROWSER, logging.Level.ALL);
+        options.setLoggingPrefs(loggingPrefs);
         
         const builder = new Builder()
           .forBrowser('chrome')
@@ -305,16 +389,118 @@ export class SeleniumBaseService {
       }
 
       // Set timeouts
-      if (this.driver) {
-        await this.driver.manage().setTimeouts({
-          implicit: this.config.timeout,
-          pageLoad: this.config.timeout! * 2,
-          script: this.config.timeout! * 2,
-        });
-      }
+      await this.applyTimeouts();
     } catch (error: any) {
-      throw new Error(`Failed to initialize WebDriver: ${error.message}`);
+      throw new DriverUnavailableError(`Failed to initialize WebDriver: ${error.message}`);
+    }
+  }
+
+  /**
+   * Apply a new default timeout to the running session
+   * Used when a pooled session is handed to a caller with different timing needs
+   */
+  async setTimeout(timeout: number): Promise<void> {
+    this.config.timeout = timeout;
+    await this.applyTimeouts();
+  }
+
+  /**
+   * Set implicit, page load and script timeouts from config
+   */
+  private async applyTimeouts(): Promise<void> {
+    if (this.driver) {
+      await this.driver.manage().setTimeouts({
+        implicit: this.config.timeout,
+        pageLoad: this.config.timeout! * 2,
+        script: this.config.timeout! * 2,
+      });
+    }
+  }
+
+  /**
+   * Check that the browser session still responds (used before reusing a pooled session)
+   */
+  async isHealthy(timeoutMs: number = 5000): Promise<boolean> {
+    if (!this.driver) {
+      return false;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        this.driver.getWindowHandle().then(() => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), timeoutMs);
+        }),
+      ]);
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Clear per-account state so the session can be reused by another caller
+   * Closes extra tabs, clears cookies and site storage (see clearSiteData), and
+   * resets timeouts. Throws if the browser cannot be reset (caller should discard it)
+   */
+  async resetSession(): Promise<void> {
+    if (!this.driver) {
+      throw new DriverUnavailableError('WebDriver not initialized');
+    }
+    const driver = this.driver;
+
+    // Close any tabs opened during the flow (e.g. Quora opens published posts in a new tab)
+    const handles = await driver.getAllWindowHandles();
+    for (const handle of handles.slice(1)) {
+      await driver.switchTo().window(handle);
+      await driver.close();
+    }
+    await driver.switchTo().window(handles[0]);
+
+    await this.clearSiteData();
+    this.timeline = [];
+    this.stepListener = null;
+
+    await driver.get('about:blank');
+    await this.applyTimeouts();
+
+    // Reading the browser log empties it - drain it so the next caller only sees its own entries
+    await this.getBrowserLogs().catch(() => []);
+  }
+
+  /**
+   * Sign out of every site the session visited by clearing cookies and site storage
+   * (the step timeline is kept) - e.g. to see a page the way the public does
+   * Uses Chrome DevTools when available; other drivers open each visited origin and
+   * delete its cookies and storage there
+   */
+  async clearSiteData(): Promise<void> {
+    if (!this.driver) {
+      throw new DriverUnavailableError('WebDriver not initialized');
+    }
+
+    const driver = this.driver as WebDriver & { sendDevToolsCommand?: (cmd: string, params?: object) => Promise<void> };
+    if (typeof driver.sendDevToolsCommand === 'function') {
+      try {
+        await driver.sendDevToolsCommand('Network.clearBrowserCookies', {});
+        for (const origin of this.visitedOrigins) {
+          await driver.sendDevToolsCommand('Storage.clearDataForOrigin', { origin, storageTypes: 'all' });
+        }
+        this.visitedOrigins.clear();
+        return;
+      } catch (error: any) {
+        console.warn(`⚠️ DevTools could not clear site data (${error.message}) - clearing each visited origin instead`);
+      }
     }
+
+    for (const origin of this.visitedOrigins) {
+      await driver.get(origin);
+      await driver.manage().deleteAllCookies();
+      await driver.executeScript('try { localStorage.clear(); sessionStorage.clear(); } catch (e) {}');
+    }
+    this.visitedOrigins.clear();
   }
 
   /**
@@ -322,7 +508,7 @@ export class SeleniumBaseService {
    */
   async navigateTo(url: string): Promise<void> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
     
     // Set a longer page load timeout for slow sites like Medium
@@ -330,6 +516,7 @@ export class SeleniumBaseService {
     await this.driver.manage().setTimeouts({ pageLoad: pageLoadTimeout });
     
     try {
+      this.visitedOrigins.add(new URL(url).origin);
       await this.driver.get(url);
       await this.humanDelay(1000, 2000);
     } catch (error: any) {
@@ -341,6 +528,7 @@ export class SeleniumBaseService {
           // Continue anyway - page might have partially loaded
           return;
         }
+        throw new NavigationTimeoutError(`Timed out loading ${url}`);
       }
       throw error;
     }
@@ -351,7 +539,7 @@ export class SeleniumBaseService {
    */
   getDriver(): WebDriver {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
     return this.driver;
   }
@@ -361,7 +549,7 @@ export class SeleniumBaseService {
    */
   async login(credentials: LoginCredentials, loginUrl: string): Promise<void> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
 
     // If cookies provided, use them
@@ -406,11 +594,12 @@ export class SeleniumBaseService {
    */
   async fillInput(selector: string, value: string, options?: { by?: 'id' | 'name' | 'xpath' | 'css' }): Promise<void> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
 
     const by = this.getBy(selector, options?.by || 'css');
-    const element = await this.driver.wait(until.elementLocated(by), this.config.timeout);
+    const element = await this.locate<WebElement>(selector, () => this.driver!.wait(until.elementLocated(by), this.config.timeout));
+    this.recordSelector(selector, options?.by || 'css');
     
     // Clear existing value
     await element.clear();
@@ -430,17 +619,18 @@ export class SeleniumBaseService {
    */
   async clickElement(selector: string, options?: { by?: 'id' | 'name' | 'xpath' | 'css'; waitForVisible?: boolean }): Promise<void> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
 
     const by = this.getBy(selector, options?.by || 'css');
     let element: WebElement;
 
     if (options?.waitForVisible) {
-      element = await this.driver.wait(until.elementIsVisible(await this.driver.findElement(by)), this.config.timeout);
+      element = await this.locate(selector, async () => this.driver!.wait(until.elementIsVisible(await this.driver!.findElement(by)), this.config.timeout));
     } else {
-      element = await this.driver.wait(until.elementLocated(by), this.config.timeout);
+      element = await this.locate(selector, () => this.driver!.wait(until.elementLocated(by), this.config.timeout));
     }
+    this.recordSelector(selector, options?.by || 'css');
 
     // Scroll into view
     await this.driver.executeScript('arguments[0].scrollIntoView(true);', element);
@@ -456,11 +646,27 @@ export class SeleniumBaseService {
    */
   async waitForElement(selector: string, timeout?: number): Promise<WebElement> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
 
     const by = this.getBy(selector, 'css');
-    return await this.driver.wait(until.elementLocated(by), timeout || this.config.timeout);
+    const element = await this.locate<WebElement>(selector, () => this.driver!.wait(until.elementLocated(by), timeout || this.config.timeout));
+    this.recordSelector(selector, 'css');
+    return element;
+  }
+
+  /**
+   * Run an element lookup, turning WebDriver "not found" and wait timeouts into SelectorNotFoundError
+   */
+  protected async locate<T>(selector: string, lookup: () => Promise<T>): Promise<T> {
+    try {
+      return await lookup();
+    } catch (error: any) {
+      if (isSeleniumTimeout(error) || error?.name === 'NoSuchElementError') {
+        throw new SelectorNotFoundError(`Element not found: ${selector}`);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -468,7 +674,7 @@ export class SeleniumBaseService {
    */
   async getElementText(selector: string): Promise<string> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
 
     const element = await this.waitForElement(selector);
@@ -480,22 +686,133 @@ export class SeleniumBaseService {
    */
   async getCurrentUrl(): Promise<string> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
     return await this.driver.getCurrentUrl();
   }
 
+  /**
+   * Start a named step of the flow - the previous step (if still running) ends as succeeded
+   */
+  beginStep(name: string): void {
+    this.endStep();
+    console.log(`▶️ Step: ${name}`);
+    const step: TimelineStep = {
+      name,
+      startedAt: new Date().toISOString(),
+      attempts: 0,
+      outcome: 'running',
+    };
+    this.timeline.push(step);
+    this.notifyStep(step);
+  }
+
+  /**
+   * End the running step (no-op when none is running)
+   */
+  endStep(outcome: 'succeeded' | 'failed' = 'succeeded', error?: string): void {
+    const step = this.getCurrentStep();
+    if (!step) {
+      return;
+    }
+    const endedAt = Date.now();
+    step.endedAt = new Date(endedAt).toISOString();
+    step.durationMs = endedAt - new Date(step.startedAt).getTime();
+    step.outcome = outcome;
+    step.error = error;
+    this.notifyStep(step);
+  }
+
+  /**
+   * Mark the running step as failed with the error that stopped the flow
+   */
+  failStep(error: any): void {
+    this.endStep('failed', error?.message || String(error));
+  }
+
+  /**
+   * Receive every step start and end of the current flow (replaces any previous listener)
+   */
+  onStep(listener: StepListener | null): void {
+    this.stepListener = listener;
+  }
+
+  private notifyStep(step: TimelineStep): void {
+    if (!this.stepListener) {
+      return;
+    }
+    try {
+      this.stepListener({ ...step });
+    } catch (error: any) {
+      // Progress reporting must never break the flow
+      console.error('⚠️ Step listener failed:', error.message);
+    }
+  }
+
+  /**
+   * Recorded steps of the current flow, in order
+   */
+  getTimeline(): TimelineStep[] {
+    return this.timeline.map(step => ({ ...step }));
+  }
+
+  private getCurrentStep(): TimelineStep | undefined {
+    const step = this.timeline[this.timeline.length - 1];
+    return step && step.outcome === 'running' ? step : undefined;
+  }
+
+  private countAttempt(): void {
+    const step = this.getCurrentStep();
+    if (step) {
+      step.attempts++;
+    }
+  }
+
+  private recordSelector(selector: string, strategy: SelectorStrategy): void {
+    const step = this.getCurrentStep();
+    if (step) {
+      step.selector = selector;
+      step.strategy = strategy;
+    }
+  }
+
   /**
    * Take screenshot (for debugging)
    */
   async takeScreenshot(): Promise<string> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
     const screenshot = await this.driver.takeScreenshot();
     return screenshot;
   }
 
+  /**
+   * Get the current page HTML (for debugging)
+   */
+  async getPageSource(): Promise<string> {
+    if (!this.driver) {
+      throw new DriverUnavailableError('WebDriver not initialized');
+    }
+    return await this.driver.getPageSource();
+  }
+
+  /**
+   * Get browser console entries logged since the last call (for debugging)
+   * Not every driver supports log retrieval (e.g. Firefox) - those throw
+   */
+  async getBrowserLogs(): Promise<BrowserLogEntry[]> {
+    if (!this.driver) {
+      throw new DriverUnavailableError('WebDriver not initialized');
+    }
+    const entries = await this.driver.manage().logs().get(logging.Type.BROWSER);
+    return entries.map((entry: any) => ({
+      level: entry.level?.name || String(entry.level),
+      message: entry.message,
+      timestamp: new Date(entry.timestamp).toISOString(),
+    }));
+  }
+
   /**
    * Human-like delay
    */
@@ -531,26 +848,85 @@ export class SeleniumBaseService {
 
     try {
       await this.driver.findElement(By.css(selector));
+      this.recordSelector(selector, 'css');
       return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Ordered fallback selectors for a named group in the selector registry
+   */
+  getSelectors(platform: string, group: string): string[] {
+    return getSelectorGroup(platform, group);
+  }
+
+  /**
+   * A registry group as one CSS selector list (matches any of its fallbacks)
+   */
+  getSelector(platform: string, group: string): string {
+    return getSelectorGroup(platform, group).join(', ');
+  }
+
+  /**
+   * First selector of a registry group that matches an element on the page, tried in order
+   */
+  async findFirstSelector(platform: string, group: string): Promise<string | undefined> {
+    for (const selector of getSelectorGroup(platform, group)) {
+      if (await this.elementExists(selector)) {
+        return selector;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check every fallback of a registry group against the current page (used by the selector canary)
+   * Uses document.querySelector so missing elements do not wait for the implicit timeout
+   */
+  async checkSelectorGroup(platform: string, group: string): Promise<SelectorGroupCheck> {
+    const selectors: SelectorGroupCheck['selectors'] = [];
+
+    for (const selector of getSelectorGroup(platform, group)) {
+      const found = await this.executeScript(`
+        try {
+          return !!document.querySelector(arguments[0]);
+        } catch (e) {
+          return null;
+        }
+      `, selector);
+      selectors.push(found === null ? { selector, matched: false, invalid: true } : { selector, matched: found });
+    }
+
+    return {
+      group,
+      passed: selectors.some(check => check.matched),
+      selectors,
+    };
+  }
+
   /**
    * Wait for URL to contain text
    */
   async waitForUrl(urlPattern: string | RegExp, timeout?: number): Promise<void> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
 
     const pattern = typeof urlPattern === 'string' ? new RegExp(urlPattern) : urlPattern;
     
-    await this.driver.wait(async () => {
-      const currentUrl = await this.driver!.getCurrentUrl();
-      return pattern.test(currentUrl);
-    }, timeout || this.config.timeout);
+    try {
+      await this.driver.wait(async () => {
+        const currentUrl = await this.driver!.getCurrentUrl();
+        return pattern.test(currentUrl);
+      }, timeout || this.config.timeout);
+    } catch (error: any) {
+      if (isSeleniumTimeout(error)) {
+        throw new NavigationTimeoutError(`Timed out waiting for URL to match ${pattern}`);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -558,14 +934,86 @@ export class SeleniumBaseService {
    */
   async executeScript(script: string, ...args: any[]): Promise<any> {
     if (!this.driver) {
-      throw new Error('WebDriver not initialized');
+      throw new DriverUnavailableError('WebDriver not initialized');
     }
     return await this.driver.executeScript(script, ...args);
   }
 
+  /**
+   * Whether the page's visible text shows `title` and the start of the body `html`
+   * (used to confirm an edit is live). Compared without whitespace, case and curly
+   * quotes, since platforms restyle both. A null title is not checked
+   */
+  async pageShowsContent(title: string | null, html: string): Promise<{ hasTitle: boolean; hasBody: boolean }> {
+    const result = await this.executeScript(`
+      const squash = text => (text || '')
+        .replace(/[\\u2018\\u2019]/g, "'")
+        .replace(/[\\u201C\\u201D]/g, '"')
+        .replace(/\\s+/g, '')
+        .toLowerCase();
+      const page = squash(document.body.innerText);
+      const body = squash(new DOMParser().parseFromString(arguments[1], 'text/html').body.textContent);
+      return {
+        hasTitle: arguments[0] === null || page.includes(squash(arguments[0])),
+        hasBody: page.includes(body.slice(0, 60))
+      };
+    `, title, html);
+
+    return {
+      hasTitle: !!result?.hasTitle,
+      hasBody: !!result?.hasBody,
+    };
+  }
+
+  /**
+   * Whether the current page's text includes `text` (compared like pageShowsContent)
+   */
+  async pageShowsText(text: string): Promise<boolean> {
+    return !!(await this.executeScript(`
+      const squash = text => (text || '')
+        .replace(/[\\u2018\\u2019]/g, "'")
+        .replace(/[\\u201C\\u201D]/g, '"')
+        .replace(/\\s+/g, '')
+        .toLowerCase();
+      return squash(document.body.innerText).includes(squash(arguments[0]));
+    `, text));
+  }
+
+  /**
+   * Check that removed content is gone for the public: signs out (clearSiteData), then
+   * opens `url` until the page no longer shows `text`, allowing for cached copies
+   * Throws StillPublicError when it keeps showing
+   */
+  async confirmContentRemoved(url: string, text: string): Promise<void> {
+    await this.clearSiteData();
+
+    try {
+      await this.findElementsWithRetry(
+        async () => {
+          await this.navigateTo(url);
+          await this.humanDelay(2000, 3000);
+          return !(await this.pageShowsText(text));
+        },
+        {
+          timeout: 30000,
+          interval: 3000,
+          maxRetries: 5,
+          description: 'removed content to disappear'
+        }
+      );
+    } catch (e: any) {
+      if (e instanceof CrawlerError && !(e instanceof SelectorNotFoundError)) {
+        throw e;
+      }
+      throw new StillPublicError(`Content was removed but ${url} still shows it to signed-out visitors`);
+    }
+  }
+
   /**
    * Find elements with JavaScript using retry/timeout mechanism
    * Retries multiple times until element is found or timeout is reached
+   * Throws SelectorNotFoundError when nothing is found; typed errors thrown by
+   * findFunction (e.g. CaptchaRequiredError) stop the retries and are rethrown
    */
   async findElementsWithRetry(
     findFunction: () => Promise<any>,
@@ -591,12 +1039,13 @@ export class SeleniumBaseService {
 
     while (attempt < maxRetries) {
       attempt++;
+      this.countAttempt();
       const elapsed = Date.now() - startTime;
 
       // Check if timeout exceeded
       if (elapsed >= timeout) {
         console.warn(`⏱️ Timeout reached (${elapsed}ms) while finding ${description} after ${attempt} attempts`);
-        throw new Error(`Timeout finding ${description} after ${elapsed}ms (${attempt} attempts). Last error: ${lastError?.message || 'Unknown'}`);
+        throw new SelectorNotFoundError(`Timeout finding ${description} after ${elapsed}ms (${attempt} attempts). Last error: ${lastError?.message || 'Unknown'}`);
       }
 
       try {
@@ -606,9 +1055,18 @@ export class SeleniumBaseService {
         if (result) {
           const elapsed = Date.now() - startTime;
           console.log(`✅ Found ${description} after ${elapsed}ms (${attempt} attempts)`);
+          // A selector matched inside findFunction (e.g. clickElement) is more specific - keep it
+          const step = this.getCurrentStep();
+          if (step && !step.strategy) {
+            step.strategy = 'script';
+          }
           return result;
         }
       } catch (error: any) {
+        // Typed errors are definitive - e.g. a login wall will not go away by retrying
+        if (error instanceof CrawlerError && error.code !== 'SELECTOR_NOT_FOUND') {
+          throw error;
+        }
         lastError = error;
         // Don't log every attempt to avoid spam, only log every 5th attempt
         if (attempt % 5 === 0) {
@@ -624,7 +1082,7 @@ export class SeleniumBaseService {
 
     const elapsed = Date.now() - startTime;
     console.error(`❌ Failed to find ${description} after ${elapsed}ms (${attempt} attempts)`);
-    throw new Error(`Failed to find ${description} after ${elapsed}ms (${attempt} attempts). Last error: ${lastError?.message || 'Unknown'}`);
+    throw new SelectorNotFoundError(`Failed to find ${description} after ${elapsed}ms (${attempt} attempts). Last error: ${lastError?.message || 'Unknown'}`);
   }
 
   /**
@@ -0,0 +1,337 @@
+/**
+ * Selenium Session Pool
+ * Reuses warm browser sessions instead of starting a fresh Chrome per request,
+ * and caps how many browsers can run at once
+ */
+
+import { SeleniumBaseService, SeleniumConfig } from './selenium-base';
+import { DriverUnavailableError } from './errors';
+
+export interface SessionPoolOptions {
+  maxSize: number; // Maximum browsers alive at once (leased + idle)
+  minIdle: number; // Warm sessions kept ready when nothing is running
+  maxUses: number; // Recycle a session after this many checkouts
+  idleTimeoutMs: number; // Close idle sessions above minIdle after this long
+  acquireTimeoutMs: number; // How long a caller waits for a free session
+}
+
+export interface SessionPoolStats {
+  key: string;
+  leased: number;
+  idle: number;
+  pending: number;
+  waiting: number;
+  maxSize: number;
+}
+
+interface PooledSession {
+  service: SeleniumBaseService;
+  uses: number;
+  createdAt: number;
+  lastReleasedAt: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Read pool options from the environment
+ */
+export function getSessionPoolOptions(): SessionPoolOptions {
+  return {
+    maxSize: Math.max(1, readIntEnv('SELENIUM_POOL_MAX_SIZE', 2)),
+    minIdle: readIntEnv('SELENIUM_POOL_MIN_IDLE', 0),
+    maxUses: Math.max(1, readIntEnv('SELENIUM_POOL_MAX_USES', 20)),
+    idleTimeoutMs: readIntEnv('SELENIUM_POOL_IDLE_TIMEOUT_MS', 5 * 60 * 1000),
+    acquireTimeoutMs: readIntEnv('SELENIUM_POOL_ACQUIRE_TIMEOUT_MS', 10 * 60 * 1000),
+  };
+}
+
+/**
+ * Pool of sessions sharing the same browser settings
+ */
+class SeleniumSessionPool {
+  private idle: PooledSession[] = [];
+  private leased = new Map<SeleniumBaseService, PooledSession>();
+  private waiters: Waiter[] = [];
+  private pending = 0;
+
+  constructor(
+    readonly key: string,
+    private baseConfig: SeleniumConfig,
+    private options: SessionPoolOptions
+  ) {}
+
+  private get size(): number {
+    return this.idle.length + this.leased.size + this.pending;
+  }
+
+  /**
+   * Check out a healthy session, creating one if below maxSize or waiting otherwise
+   * (for at most acquireTimeoutMs in total, however often the wait is woken)
+   */
+  async acquire(timeout: number): Promise<SeleniumBaseService> {
+    const deadline = Date.now() + this.options.acquireTimeoutMs;
+    while (true) {
+      // Reuse the most recently released session first (warmest)
+      while (this.idle.length > 0) {
+        const session = this.idle.pop()!;
+        // Count the session as pending while checking so it still occupies a slot
+        this.pending++;
+        const healthy = await session.service.isHealthy();
+        this.pending--;
+        if (healthy) {
+          return this.lease(session, timeout);
+        }
+        console.warn(`⚠️ [pool ${this.key}] Idle session failed health check - discarding`);
+        await this.destroy(session);
+      }
+
+      if (this.size < this.options.maxSize) {
+        const session = await this.create();
+        return this.lease(session, timeout);
+      }
+
+      console.log(`⏳ [pool ${this.key}] All ${this.options.maxSize} sessions busy - waiting (${this.waiters.length} already waiting)`);
+      await this.waitForCapacity(deadline);
+    }
+  }
+
+  /**
+   * Return a session to the pool (or close it if worn out or not resettable)
+   */
+  async release(service: SeleniumBaseService): Promise<void> {
+    const session = this.leased.get(service);
+    if (!session) {
+      await service.cleanup();
+      return;
+    }
+    this.leased.delete(service);
+
+    if (session.uses >= this.options.maxUses) {
+      console.log(`♻️ [pool ${this.key}] Recycling session after ${session.uses} uses`);
+      await this.destroy(session);
+      return;
+    }
+
+    try {
+      await service.resetSession();
+      session.lastReleasedAt = Date.now();
+      this.idle.push(session);
+      this.notifyWaiter();
+    } catch (error: any) {
+      console.warn(`⚠️ [pool ${this.key}] Could not reset session, discarding:`, error.message);
+      await this.destroy(session);
+    }
+  }
+
+  /**
+   * Start sessions until minIdle warm sessions are available
+   */
+  async warmUp(): Promise<void> {
+    while (this.idle.length < this.options.minIdle && this.size < this.options.maxSize) {
+      try {
+        const session = await this.create();
+        session.lastReleasedAt = Date.now();
+        this.idle.push(session);
+        this.notifyWaiter();
+      } catch (error: any) {
+        console.error(`❌ [pool ${this.key}] Failed to warm up session:`, error.message);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Close idle sessions that sat unused longer than idleTimeoutMs (keeping minIdle)
+   */
+  async reapIdle(): Promise<void> {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    while (this.idle.length > this.options.minIdle && this.idle[0].lastReleasedAt < cutoff) {
+      const session = this.idle.shift()!;
+      console.log(`🧹 [pool ${this.key}] Closing idle session`);
+      await this.destroy(session);
+    }
+  }
+
+  /**
+   * Close all idle sessions and reject waiters (used on shutdown)
+   */
+  async drain(): Promise<void> {
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new DriverUnavailableError('Selenium session pool is shutting down'));
+    }
+    for (const session of this.idle.splice(0)) {
+      await this.destroy(session);
+    }
+  }
+
+  stats(): SessionPoolStats {
+    return {
+      key: this.key,
+      leased: this.leased.size,
+      idle: this.idle.length,
+      pending: this.pending,
+      waiting: this.waiters.length,
+      maxSize: this.options.maxSize,
+    };
+  }
+
+  private async create(): Promise<PooledSession> {
+    this.pending++;
+    try {
+      const service = new SeleniumBaseService(this.baseConfig);
+      await service.initialize();
+      console.log(`🆕 [pool ${this.key}] Started new browser session`);
+      this.pending--;
+      return { service, uses: 0, createdAt: Date.now(), lastReleasedAt: Date.now() };
+    } catch (error) {
+      this.pending--;
+      // A failed start frees capacity for the next waiter
+      this.notifyWaiter();
+      throw error;
+    }
+  }
+
+  private async lease(session: PooledSession, timeout: number): Promise<SeleniumBaseService> {
+    session.uses++;
+    this.leased.set(session.service, session);
+    try {
+      await session.service.setTimeout(timeout);
+    } catch (error) {
+      this.leased.delete(session.service);
+      await this.destroy(session);
+      throw error;
+    }
+    return session.service;
+  }
+
+  private async destroy(session: PooledSession): Promise<void> {
+    await session.service.cleanup();
+    this.notifyWaiter();
+  }
+
+  private waitForCapacity(deadline: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        reject(new DriverUnavailableError(`Timed out after ${this.options.acquireTimeoutMs}ms waiting for a free browser session`));
+        return;
+      }
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new DriverUnavailableError(`Timed out after ${this.options.acquireTimeoutMs}ms waiting for a free browser session`));
+        }, remainingMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private notifyWaiter(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve();
+    }
+  }
+}
+
+const pools = new Map<string, SeleniumSessionPool>();
+const owners = new Map<SeleniumBaseService, SeleniumSessionPool>();
+let reaperTimer: NodeJS.Timeout | null = null;
+
+function getPool(config: SeleniumConfig): SeleniumSessionPool {
+  const baseConfig: SeleniumConfig = {
+    headless: config.headless ?? true,
+    browser: config.browser ?? 'chrome',
+    windowSize: config.windowSize,
+  };
+  const key = `${baseConfig.browser}:${baseConfig.headless ? 'headless' : 'headed'}`;
+
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new SeleniumSessionPool(key, baseConfig, getSessionPoolOptions());
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+/**
+ * Check out a browser session from the pool
+ * Always pair with releaseSession() in a finally block
+ */
+export async function acquireSession(config: SeleniumConfig = {}): Promise<SeleniumBaseService> {
+  const pool = getPool(config);
+  const service = await pool.acquire(config.timeout ?? 30000);
+  owners.set(service, pool);
+  return service;
+}
+
+/**
+ * Return a browser session to its pool (safe to call with null)
+ */
+export async function releaseSession(service: SeleniumBaseService | null): Promise<void> {
+  if (!service) {
+    return;
+  }
+
+  const pool = owners.get(service);
+  owners.delete(service);
+
+  if (!pool) {
+    await service.cleanup();
+    return;
+  }
+  await pool.release(service);
+}
+
+/**
+ * Warm up the default pool and start closing idle sessions periodically
+ */
+export function startSessionPool(config: SeleniumConfig = {}): void {
+  const options = getSessionPoolOptions();
+  console.log(`🏊 Selenium session pool: max ${options.maxSize}, warm ${options.minIdle}, recycle after ${options.maxUses} uses`);
+
+  getPool(config).warmUp();
+
+  if (!reaperTimer) {
+    reaperTimer = setInterval(() => {
+      for (const pool of pools.values()) {
+        pool.reapIdle().then(() => pool.warmUp());
+      }
+    }, 30000);
+    reaperTimer.unref();
+  }
+}
+
+/**
+ * Close all idle sessions (call on shutdown)
+ */
+export async function drainSessionPool(): Promise<void> {
+  if (reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = null;
+  }
+  for (const pool of pools.values()) {
+    await pool.drain();
+  }
+}
+
+/**
+ * Current pool usage, for health/monitoring
+ */
+export function getSessionPoolStats(): SessionPoolStats[] {
+  return Array.from(pools.values()).map(pool => pool.stats());
+}
@@ -0,0 +1,353 @@
+/**
+ * Tracking Scheduler Service
+ * Keeps a registry of published posts and tracks them on a recurring schedule
+ * (e.g. hourly for the first day, then daily), saving every result to the metrics history
+ *
+ * Each tracked post references a stored account (accountId) - inline cookies are
+ * never kept. Runs are spread out with jitter and capped by TRACKING_CONCURRENCY
+ */
+
+import { randomUUID } from 'crypto';
+import { JsonCollection } from './json-store';
+import { AccountPlatform, ACCOUNT_PLATFORMS, resolveCredentials } from './account-vault';
+import { normalizePostUrl, recordMetricsSnapshot } from './metrics-history';
+import { getPlatformAdapter } from './platforms';
+import { trackPlatformPost } from './platform-runner';
+
+export type TrackedPostStatus = 'active' | 'paused';
+
+/**
+ * One stage of a tracking schedule: run every `everyMinutes` for `forHours`
+ * (counted from when the stage starts). The last stage may omit `forHours` to run forever
+ */
+export interface TrackingStage {
+  everyMinutes: number;
+  forHours?: number;
+}
+
+export interface TrackedPost {
+  id: string;
+  client?: string; // API client that registered the post
+  platform: AccountPlatform;
+  url: string;
+  accountId: string;
+  schedule: TrackingStage[];
+  status: TrackedPostStatus;
+  nextRunAt?: string; // Unset while paused
+  lastRunAt?: string;
+  lastError?: string;
+  runCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TrackedPostInput {
+  platform: AccountPlatform;
+  url: string;
+  accountId: string;
+  schedule?: TrackingStage[];
+}
+
+export class TrackedPostNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Tracked post not found: ${id}`);
+    this.name = 'TrackedPostNotFoundError';
+  }
+}
+
+// Hourly for the first day, then daily
+export const DEFAULT_TRACKING_SCHEDULE: TrackingStage[] = [
+  { everyMinutes: 60, forHours: 24 },
+  { everyMinutes: 24 * 60 },
+];
+
+const MIN_INTERVAL_MINUTES = 5;
+const TICK_INTERVAL_MS = 30000;
+
+const trackedPosts = new JsonCollection<TrackedPost>('tracked-posts');
+const runningIds = new Set<string>();
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+function getConcurrency(): number {
+  const value = parseInt(process.env.TRACKING_CONCURRENCY || '1', 10);
+  return Number.isFinite(value) && value > 0 ? value : 1;
+}
+
+/**
+ * Fraction of the interval used as random jitter (default 0.1 = ±10%)
+ */
+function getJitterRatio(): number {
+  const value = parseFloat(process.env.TRACKING_JITTER_RATIO || '0.1');
+  return Number.isFinite(value) && value >= 0 && value < 1 ? value : 0.1;
+}
+
+/**
+ * Interval that applies at a given time, based on how long the post has been tracked
+ */
+function getIntervalMinutes(post: TrackedPost, at: number): number {
+  let stageStart = new Date(post.createdAt).getTime();
+
+  for (const stage of post.schedule) {
+    if (stage.forHours === undefined) {
+      return stage.everyMinutes;
+    }
+    const stageEnd = stageStart + stage.forHours * 60 * 60 * 1000;
+    if (at < stageEnd) {
+      return stage.everyMinutes;
+    }
+    stageStart = stageEnd;
+  }
+
+  // Every stage has ended - keep using the last interval
+  return post.schedule[post.schedule.length - 1].everyMinutes;
+}
+
+function computeNextRunAt(post: TrackedPost, from: number): string {
+  const intervalMs = getIntervalMinutes(post, from) * 60 * 1000;
+  const jitterMs = (Math.random() * 2 - 1) * getJitterRatio() * intervalMs;
+  return new Date(from + intervalMs + jitterMs).toISOString();
+}
+
+function getOwnedPost(id: string, client?: string): TrackedPost {
+  const post = trackedPosts.get(id);
+  if (!post || (client && post.client !== client)) {
+    throw new TrackedPostNotFoundError(id);
+  }
+  return post;
+}
+
+/**
+ * Validate tracking registration input from a request body
+ * Returns an error message, or null when valid
+ */
+export function validateTrackedPostInput(body: any): string | null {
+  if (!ACCOUNT_PLATFORMS.includes(body.platform)) {
+    return `platform must be one of: ${ACCOUNT_PLATFORMS.join(', ')}`;
+  }
+  if (!body.url || typeof body.url !== 'string') {
+    return 'url is required';
+  }
+  if (!/^https?:\/\//i.test(body.url)) {
+    return 'url must be an http(s) URL';
+  }
+  // Same check as the platform's /track route - an invalid URL would fail on every run
+  const urlError = getPlatformAdapter(body.platform)?.validatePostUrl?.(body.url);
+  if (urlError) {
+    return urlError;
+  }
+  if (!body.accountId || typeof body.accountId !== 'string') {
+    return 'accountId is required (scheduled tracking only uses stored accounts)';
+  }
+  if (body.schedule !== undefined) {
+    if (!Array.isArray(body.schedule) || body.schedule.length === 0) {
+      return 'schedule must be a non-empty array of { everyMinutes, forHours? } stages';
+    }
+    for (let i = 0; i < body.schedule.length; i++) {
+      const stage = body.schedule[i];
+      const isLast = i === body.schedule.length - 1;
+      if (!stage || typeof stage.everyMinutes !== 'number' || stage.everyMinutes < MIN_INTERVAL_MINUTES) {
+        return `schedule[${i}].everyMinutes must be a number of at least ${MIN_INTERVAL_MINUTES}`;
+      }
+      if (stage.forHours !== undefined && (typeof stage.forHours !== 'number' || stage.forHours <= 0)) {
+        return `schedule[${i}].forHours must be a positive number`;
+      }
+      if (stage.forHours === undefined && !isLast) {
+        return `schedule[${i}].forHours is required (only the last stage can run forever)`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a post the client already tracks on this platform
+ */
+export function findTrackedPost(platform: AccountPlatform, url: string, client?: string): TrackedPost | undefined {
+  const normalized = normalizePostUrl(url);
+  return trackedPosts
+    .list()
+    .find(post => post.platform === platform && normalizePostUrl(post.url) === normalized && post.client === client);
+}
+
+/**
+ * Register a post for recurring tracking - the first run happens on the next scheduler tick
+ */
+export function registerTrackedPost(input: TrackedPostInput, client?: string): TrackedPost {
+  const now = new Date().toISOString();
+  const post: TrackedPost = {
+    id: randomUUID(),
+    client,
+    platform: input.platform,
+    url: input.url,
+    accountId: input.accountId,
+    schedule: input.schedule || DEFAULT_TRACKING_SCHEDULE,
+    status: 'active',
+    nextRunAt: now,
+    runCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  trackedPosts.upsert(post);
+  console.log(`📌 Tracking registered: ${post.url} (${post.platform})`);
+
+  return post;
+}
+
+/**
+ * List tracked posts for a client, newest first
+ */
+export function listTrackedPosts(filter: { client?: string; platform?: AccountPlatform; status?: TrackedPostStatus } = {}): TrackedPost[] {
+  return trackedPosts
+    .list()
+    .filter(post => !filter.client || post.client === filter.client)
+    .filter(post => !filter.platform || post.platform === filter.platform)
+    .filter(post => !filter.status || post.status === filter.status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Get one tracked post
+ */
+export function getTrackedPost(id: string, client?: string): TrackedPost {
+  return getOwnedPost(id, client);
+}
+
+/**
+ * Stop scheduling runs for a post (a run already in progress still finishes)
+ */
+export function pauseTrackedPost(id: string, client?: string): TrackedPost {
+  const post = getOwnedPost(id, client);
+  const updated: TrackedPost = {
+    ...post,
+    status: 'paused',
+    nextRunAt: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  trackedPosts.upsert(updated);
+  console.log(`⏸️ Tracking paused: ${post.url}`);
+  return updated;
+}
+
+/**
+ * Resume a paused post - it runs on the next scheduler tick
+ */
+export function resumeTrackedPost(id: string, client?: string): TrackedPost {
+  const post = getOwnedPost(id, client);
+  const now = new Date().toISOString();
+  const updated: TrackedPost = {
+    ...post,
+    status: 'active',
+    nextRunAt: post.status === 'active' && post.nextRunAt ? post.nextRunAt : now,
+    updatedAt: now,
+  };
+  trackedPosts.upsert(updated);
+  console.log(`▶️ Tracking resumed: ${post.url}`);
+  return updated;
+}
+
+/**
+ * Stop tracking a post (its metrics history is kept)
+ */
+export function removeTrackedPost(id: string, client?: string): void {
+  const post = getOwnedPost(id, client);
+  trackedPosts.remove(id);
+  console.log(`🗑️ Tracking removed: ${post.url}`);
+}
+
+async function trackPost(post: TrackedPost): Promise<{ error?: string } & Record<string, any>> {
+  const credentials = resolveCredentials({ accountId: post.accountId }, post.platform, post.client);
+  if (!credentials) {
+    throw new Error(`No credentials for account ${post.accountId}`);
+  }
+
+  const adapter = getPlatformAdapter(post.platform);
+  if (!adapter) {
+    throw new Error(`Unsupported platform: ${post.platform}`);
+  }
+
+  return trackPlatformPost(adapter, credentials, post.url);
+}
+
+async function runTrackedPost(post: TrackedPost): Promise<void> {
+  console.log(`⏰ Scheduled tracking: ${post.url} (${post.platform})`);
+  let lastError: string | undefined;
+
+  try {
+    const metrics = await trackPost(post);
+    if (metrics.error) {
+      lastError = metrics.error;
+    } else {
+      recordMetricsSnapshot(post.platform, post.url, metrics, post.client);
+    }
+  } catch (error: any) {
+    lastError = error.message || 'Tracking failed';
+  }
+
+  if (lastError) {
+    console.error(`❌ Scheduled tracking failed for ${post.url}:`, lastError);
+  }
+
+  // Re-read: the post may have been paused or removed while the run was in progress
+  const current = trackedPosts.get(post.id);
+  if (!current) {
+    return;
+  }
+
+  const now = Date.now();
+  trackedPosts.upsert({
+    ...current,
+    lastRunAt: new Date(now).toISOString(),
+    lastError,
+    runCount: current.runCount + 1,
+    nextRunAt: current.status === 'active' ? computeNextRunAt(current, now) : undefined,
+    updatedAt: new Date(now).toISOString(),
+  });
+}
+
+/**
+ * Start due runs (earliest first) while below the concurrency limit
+ */
+function tick(): void {
+  const now = Date.now();
+  const due = trackedPosts
+    .list()
+    .filter(post => post.status === 'active' && post.nextRunAt && !runningIds.has(post.id))
+    .filter(post => new Date(post.nextRunAt!).getTime() <= now)
+    .sort((a, b) => a.nextRunAt!.localeCompare(b.nextRunAt!));
+
+  while (runningIds.size < getConcurrency() && due.length > 0) {
+    const post = due.shift()!;
+    runningIds.add(post.id);
+    runTrackedPost(post)
+      .catch(error => console.error(`❌ Scheduled tracking crashed for ${post.url}:`, error))
+      .finally(() => runningIds.delete(post.id));
+  }
+}
+
+/**
+ * Start the scheduler - runs that came due while the service was down start on the first tick
+ */
+export function startTrackingScheduler(): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const active = listTrackedPosts({ status: 'active' }).length;
+  console.log(`⏰ Tracking scheduler started (${active} active post(s), concurrency ${getConcurrency()})`);
+
+  schedulerTimer = setInterval(tick, TICK_INTERVAL_MS);
+  schedulerTimer.unref();
+  tick();
+}
+
+/**
+ * Stop scheduling new runs (call on shutdown)
+ */
+export function stopTrackingScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
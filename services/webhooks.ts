@@ -0,0 +1,403 @@
+/**
+ * Webhook Service
+ * POSTs job and tracking results to client-supplied callback URLs
+ *
+ * Each request is signed with HMAC-SHA256 using WEBHOOK_SECRET:
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Signature: sha256=<hex HMAC of "<timestamp>.<raw body>">
+ * Receivers should recompute the signature and reject stale timestamps.
+ *
+ * Failed deliveries (network error or non-2xx) are retried with exponential backoff
+ * (starting at WEBHOOK_RETRY_DELAY_MS, default 30s) up to WEBHOOK_MAX_ATTEMPTS (default 6).
+ * Deliveries are persisted, so pending retries survive a restart; delivered and failed
+ * ones are deleted after WEBHOOK_RETENTION_DAYS (default 7)
+ *
+ * Callbacks never go to loopback, private, link-local or other internal addresses: the
+ * host is checked when the URL is submitted and every resolved address when a delivery
+ * connects. Hosts listed in WEBHOOK_ALLOWED_HOSTS (comma-separated) are exempt, for
+ * receivers on an internal network
+ */
+
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP } from 'net';
+import { createHmac, randomUUID } from 'crypto';
+import { JsonCollection } from './json-store';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  client?: string; // API client that supplied the callback URL
+  jobId?: string;
+  event: string; // e.g. 'quora.publish.succeeded', 'quora.track.completed'
+  url: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const RETRY_CHECK_INTERVAL_MS = 5000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const deliveries = new JsonCollection<WebhookDelivery>('webhook-deliveries');
+const inFlight = new Set<string>();
+
+let retryTimer: NodeJS.Timeout | null = null;
+let pruneTimer: NodeJS.Timeout | null = null;
+
+// Addresses callbacks may not reach (loopback, private, link-local/metadata, CGNAT, multicast, reserved)
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Thrown when a callback host resolves to an internal address - not retried
+ */
+class BlockedCallbackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedCallbackError';
+  }
+}
+
+function getMaxAttempts(): number {
+  const value = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+  return Number.isFinite(value) && value > 0 ? value : 6;
+}
+
+function getBaseRetryDelayMs(): number {
+  const value = parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '30000', 10);
+  return Number.isFinite(value) && value > 0 ? value : 30000;
+}
+
+function getRetentionDays(): number {
+  const value = parseInt(process.env.WEBHOOK_RETENTION_DAYS || '7', 10);
+  return Number.isFinite(value) && value > 0 ? value : 7;
+}
+
+/**
+ * Whether webhook signing is configured
+ */
+export function isWebhookConfigured(): boolean {
+  return !!process.env.WEBHOOK_SECRET;
+}
+
+function getAllowedHosts(): string[] {
+  return (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether an IP address is internal (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  const family = isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Why a callback URL's host is not allowed before DNS resolution (localhost names and
+ * internal IP literals), or null
+ */
+function getBlockedHostReason(url: URL): string | null {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (getAllowedHosts().includes(host)) {
+    return null;
+  }
+  if (host === 'localhost' || host.endsWith('.localhost') || isBlockedAddress(host)) {
+    return `callbackUrl host ${url.hostname} is a loopback or private address`;
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for deliveries that refuses hosts resolving to an internal address, so a
+ * public name cannot be pointed (or re-pointed) at the internal network
+ */
+function guardedLookup(hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void): void {
+  dns.lookup(hostname, options, (error, address: string | dns.LookupAddress[], family) => {
+    if (error || getAllowedHosts().includes(hostname.toLowerCase())) {
+      return callback(error, address, family);
+    }
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) {
+      return callback(new BlockedCallbackError(`Callback host ${hostname} resolves to an internal address (${blocked})`));
+    }
+    callback(null, address, family);
+  });
+}
+
+/**
+ * Validate a `callbackUrl` from a request body
+ * Returns an error message, or null when valid
+ */
+export function validateCallbackUrl(callbackUrl: unknown): string | null {
+  if (typeof callbackUrl !== 'string' || !callbackUrl) {
+    return 'callbackUrl must be a URL string';
+  }
+  try {
+    const parsed = new URL(callbackUrl);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return 'callbackUrl must be an http(s) URL';
+    }
+    const blockedReason = getBlockedHostReason(parsed);
+    if (blockedReason) {
+      return blockedReason;
+    }
+  } catch {
+    return 'callbackUrl must be a valid URL';
+  }
+  if (!isWebhookConfigured()) {
+    return 'Webhook callbacks are unavailable - WEBHOOK_SECRET is not configured';
+  }
+  return null;
+}
+
+/**
+ * Signature header value for a raw body
+ */
+export function signWebhookBody(timestamp: string, body: string): string {
+  const hmac = createHmac('sha256', process.env.WEBHOOK_SECRET || '');
+  hmac.update(`${timestamp}.${body}`);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m, ... (by default) capped at 1h
+ */
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(getBaseRetryDelayMs() * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * POST a signed JSON body, resolving with the response status code
+ */
+function postSigned(delivery: WebhookDelivery): Promise<number> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const url = new URL(delivery.url);
+  const transport = url.protocol === 'https:' ? https : http;
+
+  // IP literals skip the DNS lookup, so they are checked here
+  const blockedReason = getBlockedHostReason(url);
+  if (blockedReason) {
+    return Promise.reject(new BlockedCallbackError(blockedReason));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      url,
+      {
+        method: 'POST',
+        timeout: REQUEST_TIMEOUT_MS,
+        lookup: guardedLookup,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+          'User-Agent': 'quora-medium-crawler-service/webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookBody(timestamp, body),
+        },
+      },
+      response => {
+        // Drain the body so the socket is released
+        response.resume();
+        response.on('end', () => resolve(response.statusCode || 0));
+        response.on('error', reject);
+      }
+    );
+
+    request.on('timeout', () => {
+      request.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT_MS}ms`));
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  if (inFlight.has(delivery.id)) {
+    return;
+  }
+  inFlight.add(delivery.id);
+
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | undefined;
+  let error: string | undefined;
+  let blocked = false;
+
+  try {
+    statusCode = await postSigned(delivery);
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `Callback responded with HTTP ${statusCode}`;
+    }
+  } catch (requestError: any) {
+    error = requestError.message || 'Request failed';
+    blocked = requestError instanceof BlockedCallbackError;
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+
+  const now = Date.now();
+  if (!error) {
+    deliveries.upsert({
+      ...delivery,
+      status: 'delivered',
+      attempts,
+      nextAttemptAt: undefined,
+      lastStatusCode: statusCode,
+      lastError: undefined,
+      deliveredAt: new Date(now).toISOString(),
+    });
+    console.log(`📬 Webhook delivered: ${delivery.event} -> ${delivery.url} (attempt ${attempts})`);
+    return;
+  }
+
+  const exhausted = blocked || attempts >= getMaxAttempts();
+  deliveries.upsert({
+    ...delivery,
+    status: exhausted ? 'failed' : 'pending',
+    attempts,
+    nextAttemptAt: exhausted ? undefined : new Date(now + getRetryDelayMs(attempts)).toISOString(),
+    lastStatusCode: statusCode,
+    lastError: error,
+  });
+
+  if (exhausted) {
+    console.error(`❌ Webhook failed after ${attempts} attempts: ${delivery.event} -> ${delivery.url}: ${error}`);
+  } else {
+    console.warn(`⚠️ Webhook attempt ${attempts} failed (${error}) - retrying in ${getRetryDelayMs(attempts) / 1000}s`);
+  }
+}
+
+/**
+ * Record a webhook and send it right away (retries happen in the background)
+ */
+export function sendWebhook(
+  url: string,
+  event: string,
+  payload: Record<string, any>,
+  options: { client?: string; jobId?: string } = {}
+): WebhookDelivery {
+  const delivery: WebhookDelivery = {
+    id: randomUUID(),
+    client: options.client,
+    jobId: options.jobId,
+    event,
+    url,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date().toISOString(),
+    createdAt: new Date().toISOString(),
+  };
+
+  deliveries.upsert(delivery);
+  attemptDelivery(delivery).catch(error => console.error('❌ Webhook delivery crashed:', error));
+
+  return delivery;
+}
+
+/**
+ * Get a webhook delivery by ID
+ */
+export function getWebhookDelivery(id: string): WebhookDelivery | undefined {
+  return deliveries.get(id);
+}
+
+/**
+ * List webhook deliveries, newest first
+ */
+export function listWebhookDeliveries(
+  filter: { client?: string; status?: WebhookDeliveryStatus; jobId?: string; limit?: number } = {}
+): WebhookDelivery[] {
+  const result = deliveries
+    .list()
+    .filter(delivery => !filter.client || delivery.client === filter.client)
+    .filter(delivery => !filter.status || delivery.status === filter.status)
+    .filter(delivery => !filter.jobId || delivery.jobId === filter.jobId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return filter.limit ? result.slice(0, filter.limit) : result;
+}
+
+/**
+ * Retry pending deliveries that are due
+ */
+function retryDueDeliveries(): void {
+  const now = Date.now();
+  for (const delivery of deliveries.list()) {
+    if (delivery.status === 'pending' && new Date(delivery.nextAttemptAt || 0).getTime() <= now) {
+      attemptDelivery(delivery).catch(error => console.error('❌ Webhook delivery crashed:', error));
+    }
+  }
+}
+
+/**
+ * Delete delivered and failed deliveries older than the retention window
+ */
+function pruneDeliveries(): void {
+  const cutoff = Date.now() - getRetentionDays() * DAY_MS;
+  const expired = deliveries
+    .list()
+    .filter(delivery => delivery.status !== 'pending')
+    .filter(delivery => new Date(delivery.deliveredAt || delivery.createdAt).getTime() < cutoff)
+    .map(delivery => delivery.id);
+
+  const removed = deliveries.removeMany(expired);
+  if (removed > 0) {
+    console.log(`🧹 Pruned ${removed} old webhook deliver${removed === 1 ? 'y' : 'ies'}`);
+  }
+}
+
+/**
+ * Start retrying pending deliveries (including ones left over from a previous process)
+ * and pruning old ones
+ */
+export function startWebhookRetries(): void {
+  if (retryTimer) {
+    return;
+  }
+
+  if (!isWebhookConfigured()) {
+    console.warn('⚠️ WEBHOOK_SECRET not configured - callbackUrl will be rejected');
+  }
+
+  retryTimer = setInterval(retryDueDeliveries, RETRY_CHECK_INTERVAL_MS);
+  retryTimer.unref();
+  pruneTimer = setInterval(pruneDeliveries, PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+  pruneDeliveries();
+  retryDueDeliveries();
+}
@@ -0,0 +1,83 @@
+/**
+ * API key loading, lookup by hashed key, route patterns and per-key rate limits
+ */
+
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { consumeRateLimit, findClientByKey, isRouteAllowed, loadApiKeys } from '../services/api-keys';
+
+const PUBLISHER_KEY = 'publisher-key-0123456789';
+const TRACKER_KEY = 'tracker-key-0123456789';
+
+describe('loadApiKeys', () => {
+  it('rejects keys shorter than 16 characters', () => {
+    process.env.API_KEYS = JSON.stringify([{ name: 'short', key: 'too-short' }]);
+    assert.throws(() => loadApiKeys(), /at least 16 characters/);
+  });
+
+  it('rejects duplicate names and invalid rate limits', () => {
+    process.env.API_KEYS = JSON.stringify([
+      { name: 'dup', key: PUBLISHER_KEY },
+      { name: 'dup', key: TRACKER_KEY },
+    ]);
+    assert.throws(() => loadApiKeys(), /Duplicate API key name: dup/);
+
+    process.env.API_KEYS = JSON.stringify([{ name: 'limited', key: PUBLISHER_KEY, rateLimit: { max: 0, windowMs: 1000 } }]);
+    assert.throws(() => loadApiKeys(), /invalid rateLimit/);
+  });
+});
+
+describe('configured keys', () => {
+  before(() => {
+    process.env.API_KEYS = JSON.stringify([
+      { name: 'publisher', key: PUBLISHER_KEY, routes: ['quora/*', '/medium/publish'] },
+      { name: 'tracker', key: TRACKER_KEY, rateLimit: { max: 2, windowMs: 200 } },
+    ]);
+  });
+
+  it('loads clients without their keys', () => {
+    const clients = loadApiKeys();
+
+    assert.deepEqual(clients.map(client => client.name), ['publisher', 'tracker']);
+    assert.ok(!JSON.stringify(clients).includes(PUBLISHER_KEY));
+    // No routes means every route
+    assert.deepEqual(clients[1].routes, ['*']);
+  });
+
+  it('finds the client by its key and nothing for other keys', () => {
+    assert.equal(findClientByKey(PUBLISHER_KEY)?.name, 'publisher');
+    assert.equal(findClientByKey(TRACKER_KEY)?.name, 'tracker');
+    assert.equal(findClientByKey(`${PUBLISHER_KEY} `), undefined);
+    assert.equal(findClientByKey(''), undefined);
+  });
+
+  it('matches routes against exact and wildcard patterns', () => {
+    const publisher = findClientByKey(PUBLISHER_KEY)!;
+
+    assert.equal(isRouteAllowed(publisher, '/quora/publish'), true);
+    assert.equal(isRouteAllowed(publisher, '/quora'), true);
+    assert.equal(isRouteAllowed(publisher, '/medium/publish/'), true);
+    assert.equal(isRouteAllowed(publisher, '/medium/track'), false);
+    assert.equal(isRouteAllowed(publisher, '/quoraxyz/publish'), false);
+    assert.equal(isRouteAllowed(findClientByKey(TRACKER_KEY)!, '/medium/track'), true);
+  });
+
+  it('limits requests per fixed window', async () => {
+    const tracker = findClientByKey(TRACKER_KEY)!;
+
+    assert.deepEqual(consumeRateLimit(tracker), { allowed: true });
+    assert.deepEqual(consumeRateLimit(tracker), { allowed: true });
+    assert.deepEqual(consumeRateLimit(tracker), { allowed: false, retryAfterSeconds: 1 });
+
+    // A new window starts once the old one has passed
+    await new Promise(resolve => setTimeout(resolve, 250));
+    assert.deepEqual(consumeRateLimit(tracker), { allowed: true });
+  });
+
+  it('does not limit clients without a rate limit', () => {
+    const publisher = findClientByKey(PUBLISHER_KEY)!;
+    for (let i = 0; i < 10; i++) {
+      assert.equal(consumeRateLimit(publisher).allowed, true);
+    }
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderMediumHtml, renderQuoraHtml } from '../services/content-format';
+
+function quoraHtml(content: string): string {
+  return renderQuoraHtml({ title: 'Title', content, format: 'html' });
+}
+
+function mediumHtml(content: string): string {
+  return renderMediumHtml({ title: 'Title', content, format: 'html' });
+}
+
+describe('renderQuoraHtml', () => {
+  it('keeps http(s) and mailto links, with rel and target set', () => {
+    assert.equal(
+      quoraHtml('<a href=" https://example.com/a " onclick="x()">a</a>'),
+      '<a href="https://example.com/a" rel="noopener nofollow" target="_blank">a</a>'
+    );
+    assert.equal(
+      quoraHtml('<a href="mailto:a@example.com">mail</a>'),
+      '<a href="mailto:a@example.com" rel="noopener nofollow" target="_blank">mail</a>'
+    );
+  });
+
+  it('unwraps links with unsupported schemes to their text', () => {
+    assert.equal(quoraHtml('<a href="javascript:alert(1)">x</a>'), 'x');
+    assert.equal(quoraHtml('<a>no href</a>'), 'no href');
+  });
+
+  it('keeps the inline markup after an unwrapped link intact', () => {
+    assert.equal(
+      quoraHtml('<p><a href="javascript:x">x</a> and <code>c</code> then <em>e</em></p>'),
+      '<p>x and <code>c</code> then <em>e</em></p>'
+    );
+    assert.equal(quoraHtml('<a href="ftp://x">x</a> <strong>s</strong>'), 'x <strong>s</strong>');
+  });
+
+  it('turns headings into bold paragraphs and drops scripts', () => {
+    assert.equal(
+      quoraHtml('<h2>Heading</h2><script>alert(1)</script><p style="color:red">Body</p>'),
+      '<p><strong>Heading</strong></p><p>Body</p>'
+    );
+  });
+});
+
+describe('renderMediumHtml', () => {
+  it('drops scripts and styles together with their text', () => {
+    assert.equal(
+      mediumHtml('<style>p { color: red }</style><p>Body</p><script>alert(1)</script>'),
+      '<p>Body</p>'
+    );
+    assert.equal(mediumHtml('<div>Text<noscript>fallback</noscript></div>'), '<p>Text</p>');
+  });
+
+  it('maps headings onto Medium\'s two heading sizes', () => {
+    assert.equal(mediumHtml('<h1>A</h1><h2>B</h2><h3>C</h3><h6>D</h6>'), '<h3>A</h3><h3>B</h3><h3>C</h3><h4>D</h4>');
+  });
+
+  it('keeps supported markup and strips attributes and unsafe links', () => {
+    assert.equal(
+      mediumHtml('<p onclick="x()"><b>b</b> <i>i</i> <a href=" https://example.com " title="t">a</a> <a href="javascript:x">j</a></p>'),
+      '<p><strong>b</strong> <em>i</em> <a href="https://example.com">a</a> j</p>'
+    );
+  });
+});
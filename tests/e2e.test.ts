@@ -0,0 +1,135 @@
+/**
+ * End-to-end runs of the publish and tracking flows against the offline fixture sites
+ * (fixtures/server.ts) with headless Chrome
+ * Without a browser these tests are skipped, unless E2E_REQUIRE_BROWSER=true (as in CI),
+ * where a missing browser fails the run instead
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFixtureSites, FixtureSites } from '../fixtures/server';
+import { QUORA_FIXTURE_USER } from '../fixtures/quora-site';
+import { MEDIUM_FIXTURE_USER } from '../fixtures/medium-site';
+import { FixturePost } from '../fixtures/shared';
+import { SeleniumBaseService, LoginCredentials } from '../services/selenium-base';
+import { publishToPlatform, trackPlatformPost } from '../services/platform-runner';
+import { drainSessionPool } from '../services/session-pool';
+import { quoraAdapter } from '../services/quora';
+import { mediumAdapter } from '../services/medium';
+
+// Each flow logs in, so give it the platform's session timeout and then some
+const FLOW_TIMEOUT = 180000;
+
+const quoraCredentials: LoginCredentials = {
+  email: 'fixture@example.com',
+  cookies: [{ name: 'm-b', value: 'fixture-session' }],
+};
+
+const mediumCredentials: LoginCredentials = {
+  email: 'fixture@example.com',
+  cookies: [{ name: 'sid', value: 'fixture-session' }],
+};
+
+/**
+ * Whether a browser session can be started here
+ */
+async function canStartBrowser(): Promise<boolean> {
+  const service = new SeleniumBaseService({ headless: true, browser: 'chrome' });
+  try {
+    await service.initialize();
+    return true;
+  } catch (error: any) {
+    if (process.env.E2E_REQUIRE_BROWSER === 'true') {
+      throw error;
+    }
+    console.warn(`⚠️ Skipping end-to-end tests - no browser: ${error.message.split('\n')[0]}`);
+    return false;
+  } finally {
+    await service.cleanup();
+  }
+}
+
+async function listFixturePosts(siteUrl: string): Promise<FixturePost[]> {
+  const response = await fetch(`${siteUrl}/__fixtures/posts`);
+  const body: any = await response.json();
+  return body.posts;
+}
+
+describe('publish and track against the fixture sites', { timeout: FLOW_TIMEOUT * 4 }, () => {
+  let sites: FixtureSites;
+  let hasBrowser = false;
+
+  before(async () => {
+    hasBrowser = await canStartBrowser();
+    if (!hasBrowser) {
+      return;
+    }
+
+    sites = await startFixtureSites({ quoraPort: 0, mediumPort: 0 });
+    process.env.QUORA_BASE_URL = sites.quoraUrl;
+    process.env.MEDIUM_BASE_URL = sites.mediumUrl;
+  });
+
+  after(async () => {
+    await drainSessionPool();
+    await sites?.close();
+    delete process.env.QUORA_BASE_URL;
+    delete process.env.MEDIUM_BASE_URL;
+  });
+
+  it('publishes a Medium story', { timeout: FLOW_TIMEOUT }, async t => {
+    if (!hasBrowser) {
+      return t.skip('no browser');
+    }
+
+    const result: any = await publishToPlatform(mediumAdapter, mediumCredentials, {
+      title: 'Fixture story from the e2e test',
+      content: 'First paragraph.\n\nSecond paragraph.',
+    });
+
+    assert.equal(result.success, true, result.error);
+    const match = result.url.match(new RegExp(`^${sites.mediumUrl}/@${MEDIUM_FIXTURE_USER}/[\\w-]+-([0-9a-f]{12})/?(?:[?#].*)?$`));
+    assert.ok(match, `unexpected story URL: ${result.url}`);
+    assert.equal(result.postId, match[1]);
+    assert.equal(result.state, 'published');
+
+    const story = (await listFixturePosts(sites.mediumUrl)).find(post => post.id === result.postId);
+    assert.equal(story?.title, 'Fixture story from the e2e test');
+  });
+
+  it('publishes a Quora post', { timeout: FLOW_TIMEOUT }, async t => {
+    if (!hasBrowser) {
+      return t.skip('no browser');
+    }
+
+    const result: any = await publishToPlatform(quoraAdapter, quoraCredentials, {
+      title: 'Fixture post from the e2e test',
+      content: 'A post published by the end-to-end test.',
+    });
+
+    assert.equal(result.success, true, result.error);
+    assert.match(result.url, new RegExp(`^${sites.quoraUrl}/profile/${QUORA_FIXTURE_USER}/[\\w-]+/?(?:[?#].*)?$`));
+
+    // Quora post URLs are slugs, so the fixture store is what ties the URL to the post
+    const path = new URL(result.url).pathname;
+    const post = (await listFixturePosts(sites.quoraUrl)).find(post => post.path === path);
+    assert.ok(post, `no fixture post at ${path}`);
+    assert.equal(post.kind, 'post');
+    assert.equal(post.title, 'Fixture post from the e2e test');
+  });
+
+  it('tracks a Quora post', { timeout: FLOW_TIMEOUT }, async t => {
+    if (!hasBrowser) {
+      return t.skip('no browser');
+    }
+
+    const seeded = (await listFixturePosts(sites.quoraUrl)).find(post => post.id === 'seed-post');
+    const metrics = await trackPlatformPost(quoraAdapter, quoraCredentials, `${sites.quoraUrl}${seeded.path}`);
+
+    assert.equal(metrics.error, undefined, metrics.error);
+    assert.equal(metrics.views, seeded.metrics.views);
+    assert.equal(metrics.upvotes, seeded.metrics.upvotes);
+    assert.equal(metrics.comments, seeded.metrics.comments);
+    assert.equal(metrics.shares, seeded.metrics.shares);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Idempotency key fingerprints, replays, conflicts and key expiry
+ * (keys and jobs are stored in a temporary DATA_DIR, seeded with one expired key)
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { enqueueIdempotentJob, fingerprintPayload } from '../services/idempotency';
+import { registerJobHandler } from '../services/job-queue';
+
+const EXPIRED_PAYLOAD = { content: { title: 'Old', content: 'Body' } };
+
+before(() => {
+  process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-test-'));
+  process.env.IDEMPOTENCY_TTL_HOURS = '1';
+  // The queue is not started, so jobs only need a handler to be enqueued
+  registerJobHandler('test.publish', async () => ({ success: true }));
+  registerJobHandler('test.edit', async () => ({ success: true }));
+
+  const createdAt = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+  fs.writeFileSync(path.join(process.env.DATA_DIR, 'jobs.json'), JSON.stringify([
+    { id: 'old-job', type: 'test.publish', status: 'succeeded', payload: EXPIRED_PAYLOAD, createdAt, finishedAt: createdAt },
+  ]));
+  fs.writeFileSync(path.join(process.env.DATA_DIR, 'idempotency-keys.json'), JSON.stringify([
+    {
+      id: ':test.publish:expired-key',
+      scope: 'test.publish',
+      key: 'expired-key',
+      fingerprint: fingerprintPayload(EXPIRED_PAYLOAD),
+      jobId: 'old-job',
+      createdAt,
+    },
+  ]));
+});
+
+after(() => {
+  fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+  delete process.env.IDEMPOTENCY_TTL_HOURS;
+});
+
+describe('fingerprintPayload', () => {
+  it('ignores object key order', () => {
+    assert.equal(
+      fingerprintPayload({ content: { title: 'T', content: 'C' }, accountId: 'a' }),
+      fingerprintPayload({ accountId: 'a', content: { content: 'C', title: 'T' } })
+    );
+  });
+
+  it('leaves out credentials, which may be refreshed between retries', () => {
+    assert.equal(
+      fingerprintPayload({ email: 'a@example.com', cookies: [{ name: 'sid', value: '1' }], password: 'x', content: 'C' }),
+      fingerprintPayload({ email: 'a@example.com', cookies: [{ name: 'sid', value: '2' }], content: 'C' })
+    );
+  });
+
+  it('changes with the content and ignores undefined fields', () => {
+    assert.notEqual(fingerprintPayload({ content: 'A' }), fingerprintPayload({ content: 'B' }));
+    assert.equal(fingerprintPayload({ content: 'A', runAt: undefined }), fingerprintPayload({ content: 'A' }));
+  });
+});
+
+describe('enqueueIdempotentJob', () => {
+  const payload = { accountId: 'acct', content: { title: 'T', content: 'C' } };
+
+  it('replays the original job for the same key and payload', () => {
+    const first = enqueueIdempotentJob('test.publish', 'key-1', payload, { client: 'a' });
+    const retry = enqueueIdempotentJob('test.publish', 'key-1', { ...payload }, { client: 'a' });
+
+    assert.equal(first.status, 'created');
+    assert.equal(retry.status, 'replayed');
+    assert.equal(retry.status === 'replayed' && retry.job.id, first.status === 'created' && first.job.id);
+  });
+
+  it('rejects the same key with a different payload or schedule', () => {
+    enqueueIdempotentJob('test.publish', 'key-2', payload, { client: 'a' });
+
+    const changed = enqueueIdempotentJob('test.publish', 'key-2', { ...payload, accountId: 'other' }, { client: 'a' });
+    assert.equal(changed.status, 'conflict');
+
+    const rescheduled = enqueueIdempotentJob('test.publish', 'key-2', payload, { client: 'a', runAt: new Date(Date.now() + 60000) });
+    assert.equal(rescheduled.status, 'conflict');
+  });
+
+  it('scopes keys per client and per operation', () => {
+    enqueueIdempotentJob('test.publish', 'key-3', payload, { client: 'a' });
+
+    assert.equal(enqueueIdempotentJob('test.publish', 'key-3', payload, { client: 'b' }).status, 'created');
+    assert.equal(enqueueIdempotentJob('test.edit', 'key-3', payload, { client: 'a' }).status, 'created');
+  });
+
+  it('always enqueues without a key', () => {
+    const first = enqueueIdempotentJob('test.publish', undefined, payload);
+    const second = enqueueIdempotentJob('test.publish', undefined, payload);
+
+    assert.equal(first.status, 'created');
+    assert.equal(second.status, 'created');
+    assert.notEqual(first.status === 'created' && first.job.id, second.status === 'created' && second.job.id);
+  });
+
+  it('forgets keys older than IDEMPOTENCY_TTL_HOURS', () => {
+    const result = enqueueIdempotentJob('test.publish', 'expired-key', EXPIRED_PAYLOAD);
+
+    assert.equal(result.status, 'created');
+    assert.notEqual(result.status === 'created' && result.job.id, 'old-job');
+  });
+});
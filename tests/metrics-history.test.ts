@@ -0,0 +1,95 @@
+/**
+ * Metrics snapshots, per-interval deltas and the growth summary
+ * (snapshots are stored in a temporary DATA_DIR)
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getMetricsHistory, normalizePostUrl, recordMetricsSnapshot } from '../services/metrics-history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString();
+}
+
+before(() => {
+  process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-history-test-'));
+});
+
+after(() => {
+  fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+});
+
+describe('normalizePostUrl', () => {
+  it('drops the query, fragment and trailing slash and lowercases the host', () => {
+    assert.equal(normalizePostUrl('https://WWW.Quora.com/Answer/1/?share=1#top'), 'https://www.quora.com/Answer/1');
+  });
+});
+
+describe('getMetricsHistory', () => {
+  const url = 'https://medium.com/@fixture/story-0123456789ab';
+
+  before(() => {
+    recordMetricsSnapshot('medium', url, { claps: 10, responses: 1, lastUpdated: daysAgo(4) }, 'client-a');
+    recordMetricsSnapshot('medium', `${url}?source=feed`, { claps: 30, responses: 1, views: 200, lastUpdated: daysAgo(2) }, 'client-a');
+    recordMetricsSnapshot('medium', `${url}/`, { claps: 40, responses: 3, views: 300, lastUpdated: daysAgo(1) }, 'client-a');
+    // Skipped: failed tracking runs carry zeroed placeholder metrics
+    recordMetricsSnapshot('medium', url, { claps: 0, responses: 0, error: 'Login failed', lastUpdated: daysAgo(0.5) }, 'client-a');
+    // Another client's series
+    recordMetricsSnapshot('medium', url, { claps: 999, responses: 0, lastUpdated: daysAgo(3) }, 'client-b');
+  });
+
+  it('computes the change and per-day rate between consecutive snapshots', () => {
+    const history = getMetricsHistory({ url, platform: 'medium', client: 'client-a' });
+
+    assert.equal(history.snapshots.length, 3);
+    assert.equal(history.deltas.length, 2);
+
+    const [first, second] = history.deltas;
+    assert.equal(first.days, 2);
+    assert.deepEqual(first.changes, { claps: 20, responses: 0 });
+    assert.deepEqual(first.perDay, { claps: 10, responses: 0 });
+
+    assert.equal(second.days, 1);
+    assert.deepEqual(second.changes, { claps: 10, responses: 2, views: 100 });
+    assert.deepEqual(second.perDay, { claps: 10, responses: 2, views: 100 });
+  });
+
+  it('summarizes each metric from the first snapshot that has it', () => {
+    const { summary } = getMetricsHistory({ url, platform: 'medium', client: 'client-a' });
+
+    assert.equal(summary.days, 3);
+    assert.deepEqual(summary.metrics.claps, { start: 10, end: 40, change: 30, perDay: 10, growthPercent: 300 });
+    // Views first appear two days ago
+    assert.deepEqual(summary.metrics.views, { start: 200, end: 300, change: 100, perDay: 100, growthPercent: 50 });
+  });
+
+  it('leaves out the growth percentage when the metric started at zero', () => {
+    const zeroUrl = 'https://www.quora.com/profile/fixture/zero-start';
+    recordMetricsSnapshot('quora', zeroUrl, { upvotes: 0, lastUpdated: daysAgo(2) });
+    recordMetricsSnapshot('quora', zeroUrl, { upvotes: 5, lastUpdated: daysAgo(1) });
+
+    const { summary } = getMetricsHistory({ url: zeroUrl });
+    assert.equal(summary.metrics.upvotes.change, 5);
+    assert.equal(summary.metrics.upvotes.growthPercent, undefined);
+  });
+
+  it('limits the series to the from/to range', () => {
+    const history = getMetricsHistory({ url, client: 'client-a', from: new Date(Date.now() - 2.5 * DAY_MS) });
+
+    assert.equal(history.snapshots.length, 2);
+    assert.deepEqual(history.summary.metrics.claps, { start: 30, end: 40, change: 10, perDay: 10, growthPercent: 33.33 });
+  });
+
+  it('returns an empty history for an unknown post', () => {
+    const history = getMetricsHistory({ url: 'https://medium.com/@fixture/unknown-ffffffffffff' });
+
+    assert.deepEqual(history.snapshots, []);
+    assert.deepEqual(history.deltas, []);
+    assert.deepEqual(history.summary, { from: undefined, to: undefined, days: 0, metrics: {} });
+  });
+});
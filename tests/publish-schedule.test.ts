@@ -0,0 +1,72 @@
+/**
+ * Parsing and validating `publishAt` times for scheduled publishing
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidTimeZone, parsePublishAt } from '../services/publish-schedule';
+
+// Fixed dates next year are always in the future, and within SCHEDULE_MAX_DAYS
+const YEAR = new Date().getUTCFullYear() + 1;
+
+before(() => {
+  process.env.SCHEDULE_MAX_DAYS = '800';
+});
+
+after(() => {
+  delete process.env.SCHEDULE_MAX_DAYS;
+});
+
+describe('parsePublishAt', () => {
+  it('parses ISO times with Z or an offset', () => {
+    assert.equal(parsePublishAt(`${YEAR}-03-01T08:00:00Z`).toISOString(), `${YEAR}-03-01T08:00:00.000Z`);
+    assert.equal(parsePublishAt(`${YEAR}-03-01T09:00:00+01:00`).toISOString(), `${YEAR}-03-01T08:00:00.000Z`);
+    assert.equal(parsePublishAt(` ${YEAR}-03-01T09:30-0230 `).toISOString(), `${YEAR}-03-01T12:00:00.000Z`);
+  });
+
+  it('converts local times in the given time zone, including across DST', () => {
+    // Berlin is UTC+1 in January and UTC+2 in July
+    assert.equal(parsePublishAt(`${YEAR}-01-15T09:00`, 'Europe/Berlin').toISOString(), `${YEAR}-01-15T08:00:00.000Z`);
+    assert.equal(parsePublishAt(`${YEAR}-07-15T09:00`, 'Europe/Berlin').toISOString(), `${YEAR}-07-15T07:00:00.000Z`);
+    assert.equal(parsePublishAt(`${YEAR}-07-15T09:00:30.5`, 'UTC').toISOString(), `${YEAR}-07-15T09:00:30.500Z`);
+  });
+
+  it('rejects local times without a time zone', () => {
+    assert.throws(() => parsePublishAt(`${YEAR}-03-01T09:00`), /no UTC offset/);
+  });
+
+  it('rejects times skipped by a daylight saving change', () => {
+    // US clocks jump from 02:00 to 03:00 on the second Sunday in March
+    const march = new Date(Date.UTC(YEAR, 2, 1));
+    const secondSunday = 1 + ((7 - march.getUTCDay()) % 7) + 7;
+    const day = String(secondSunday).padStart(2, '0');
+
+    assert.throws(() => parsePublishAt(`${YEAR}-03-${day}T02:30`, 'America/New_York'), /does not exist in America\/New_York/);
+  });
+
+  it('rejects invalid input', () => {
+    assert.throws(() => parsePublishAt(undefined), /ISO 8601 date-time string/);
+    assert.throws(() => parsePublishAt(1767225600000), /ISO 8601 date-time string/);
+    assert.throws(() => parsePublishAt('next tuesday'), /must be an ISO 8601 date-time/);
+    assert.throws(() => parsePublishAt(`${YEAR}-02-30T09:00`, 'UTC'), /not a valid date/);
+    assert.throws(() => parsePublishAt(`${YEAR}-03-01T09:00`, 'Mars/Olympus'), /valid IANA time zone/);
+  });
+
+  it('rejects times in the past or too far ahead', () => {
+    assert.throws(() => parsePublishAt('2020-01-01T00:00:00Z'), /in the past/);
+    assert.throws(() => parsePublishAt(`${YEAR + 3}-01-01T00:00:00Z`), /within 800 days/);
+  });
+
+  it('allows a minute of clock skew', () => {
+    const slightlyPast = new Date(Date.now() - 30 * 1000).toISOString();
+    assert.equal(parsePublishAt(slightlyPast).toISOString(), slightlyPast);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names only', () => {
+    assert.equal(isValidTimeZone('Europe/Berlin'), true);
+    assert.equal(isValidTimeZone('UTC'), true);
+    assert.equal(isValidTimeZone('Not/AZone'), false);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Webhook signing, callback URL validation, and one delivery run with a retry against
+ * a local HTTP stand-in (deliveries are stored in a temporary DATA_DIR)
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { createHmac } from 'crypto';
+import {
+  getWebhookDelivery,
+  sendWebhook,
+  signWebhookBody,
+  startWebhookRetries,
+  validateCallbackUrl
+} from '../services/webhooks';
+
+const SECRET = 'test-webhook-secret';
+
+async function waitFor(check: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+before(() => {
+  process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-test-'));
+  process.env.WEBHOOK_SECRET = SECRET;
+});
+
+after(() => {
+  fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+});
+
+describe('signWebhookBody', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256 of WEBHOOK_SECRET', () => {
+    const expected = createHmac('sha256', SECRET).update('1700000000.{"a":1}').digest('hex');
+    assert.equal(signWebhookBody('1700000000', '{"a":1}'), `sha256=${expected}`);
+  });
+
+  it('changes with the timestamp', () => {
+    assert.notEqual(signWebhookBody('1700000000', '{}'), signWebhookBody('1700000001', '{}'));
+  });
+});
+
+describe('validateCallbackUrl', () => {
+  it('accepts public http(s) URLs', () => {
+    assert.equal(validateCallbackUrl('https://example.com/hooks/crawler'), null);
+    assert.equal(validateCallbackUrl('http://8.8.8.8/hook'), null);
+  });
+
+  it('rejects values that are not http(s) URLs', () => {
+    assert.match(validateCallbackUrl(42)!, /must be a URL string/);
+    assert.match(validateCallbackUrl('not a url')!, /valid URL/);
+    assert.match(validateCallbackUrl('ftp://example.com/hook')!, /http\(s\)/);
+  });
+
+  it('rejects loopback, private and link-local hosts', () => {
+    for (const url of [
+      'http://localhost:3000/hook',
+      'http://127.0.0.1/hook',
+      'http://[::1]/hook',
+      'http://10.1.2.3/hook',
+      'http://192.168.0.10/hook',
+      'http://169.254.169.254/latest/meta-data',
+    ]) {
+      assert.match(validateCallbackUrl(url)!, /loopback or private/, url);
+    }
+  });
+
+  it('rejects callbacks when WEBHOOK_SECRET is not configured', () => {
+    delete process.env.WEBHOOK_SECRET;
+    try {
+      assert.match(validateCallbackUrl('https://example.com/hook')!, /WEBHOOK_SECRET/);
+    } finally {
+      process.env.WEBHOOK_SECRET = SECRET;
+    }
+  });
+});
+
+describe('webhook delivery', () => {
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  const statuses = [500, 200];
+  let server: http.Server;
+  let url: string;
+
+  before(async () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = 'localhost';
+    process.env.WEBHOOK_RETRY_DELAY_MS = '20';
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://localhost:${(server.address() as { port: number }).port}/hook`;
+  });
+
+  after(async () => {
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+    delete process.env.WEBHOOK_RETRY_DELAY_MS;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('signs the request, backs off after a failure and retries until delivered', async () => {
+    const sentAt = Date.now();
+    const delivery = sendWebhook(url, 'quora.publish.succeeded', { jobId: 'job-1' }, { jobId: 'job-1' });
+
+    // First attempt gets a 500 and is scheduled for a retry after the base delay
+    await waitFor(() => getWebhookDelivery(delivery.id)!.attempts === 1);
+    const failed = getWebhookDelivery(delivery.id)!;
+    assert.equal(failed.status, 'pending');
+    assert.equal(failed.lastStatusCode, 500);
+    assert.ok(new Date(failed.nextAttemptAt!).getTime() >= sentAt + 20);
+
+    const [first] = received;
+    const body = JSON.parse(first.body);
+    assert.equal(body.id, delivery.id);
+    assert.equal(body.event, 'quora.publish.succeeded');
+    assert.deepEqual(body.data, { jobId: 'job-1' });
+    assert.equal(first.headers['x-webhook-event'], 'quora.publish.succeeded');
+    assert.equal(
+      first.headers['x-webhook-signature'],
+      signWebhookBody(first.headers['x-webhook-timestamp'] as string, first.body)
+    );
+
+    // Once due, the retry loop delivers it
+    await new Promise(resolve => setTimeout(resolve, 40));
+    startWebhookRetries();
+    await waitFor(() => getWebhookDelivery(delivery.id)!.status === 'delivered');
+
+    const delivered = getWebhookDelivery(delivery.id)!;
+    assert.equal(delivered.attempts, 2);
+    assert.equal(delivered.lastStatusCode, 200);
+    assert.equal(received.length, 2);
+  });
+});